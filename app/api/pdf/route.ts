@@ -1,54 +1,85 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { renderToBuffer } from '@react-pdf/renderer';
-import { db, transactions } from '@/lib/db';
-import { eq, and, gte, lte, desc } from 'drizzle-orm';
-import { calculateTaxes } from '@/lib/services/tax-calculator';
+import { z } from 'zod/v4';
+import { getTaxSubject, viewOnlyTaxSubject } from '@/lib/services/tax-year';
+import { getJob } from '@/lib/services/jobs';
+import { getTokenMetadata } from '@/lib/services/token-metadata';
+import { getSession, ownsWallets, SESSION_COOKIE } from '@/lib/services/auth';
 import { TaxReportPDF } from '@/lib/pdf/tax-report';
 
+// The report of a calculation the job runner finished, for the dashboard's
+// wallet and year
+const pdfRequestSchema = z.object({
+  walletAddress: z.string().min(32).max(44),
+  year: z.number().int().min(2020).max(2030),
+  jobId: z.uuid(),
+});
+
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { walletAddress, year } = body;
-
-    if (!walletAddress || !year) {
+    const session = await getSession(request.cookies.get(SESSION_COOKIE)?.value);
+    const parsed = pdfRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'walletAddress and year are required' },
+        { error: z.prettifyError(parsed.error) },
         { status: 400 }
       );
     }
+    const { walletAddress, year, jobId } = parsed.data;
 
-    // Get transactions from database
-    const startDate = new Date(year, 0, 1);
-    const endDate = new Date(year, 11, 31, 23, 59, 59);
+    const job = await getJob(jobId);
+    if (
+      !job ||
+      job.type !== 'calculate' ||
+      job.walletAddress !== walletAddress ||
+      job.input.year !== year
+    ) {
+      return NextResponse.json(
+        { error: 'Calculation not found' },
+        { status: 404 }
+      );
+    }
+    if (job.status !== 'completed' || !job.result) {
+      return NextResponse.json(
+        { error: 'The calculation has not finished' },
+        { status: 409 }
+      );
+    }
 
-    const txs = await db
-      .select()
-      .from(transactions)
-      .where(
-        and(
-          eq(transactions.walletAddress, walletAddress),
-          gte(transactions.timestamp, startDate),
-          lte(transactions.timestamp, endDate)
-        )
-      )
-      .orderBy(desc(transactions.timestamp));
+    // A view-only calculation is public data; one with the owner's manual
+    // prices and cost basis is only reported to a session owning every
+    // wallet it covers
+    const subject = job.input.viewOnly
+      ? viewOnlyTaxSubject(walletAddress)
+      : await getTaxSubject(walletAddress, job.input.groupId);
+    if (!subject || (!job.input.viewOnly && !ownsWallets(session, subject.walletAddresses))) {
+      return NextResponse.json(
+        { error: 'Calculation not found' },
+        { status: 404 }
+      );
+    }
 
-    if (txs.length === 0) {
+    const taxSummary = job.result;
+    if (taxSummary.totalTransactions === 0) {
       return NextResponse.json(
         { error: 'No transactions found' },
         { status: 404 }
       );
     }
 
-    // Calculate taxes
-    const taxSummary = await calculateTaxes(txs);
+    // Symbols from the token registry, for tokens stored before it knew them
+    const tokens = await getTokenMetadata([
+      ...taxSummary.transactions.flatMap(tx => [tx.fromToken, tx.toToken]),
+      ...taxSummary.unmatchedDisposals.map(disposal => disposal.tokenAddress),
+    ].filter(mint => !!mint));
 
     // Generate PDF
     const pdfBuffer = await renderToBuffer(
       TaxReportPDF({
-        walletAddress,
+        walletAddresses: subject.walletAddresses,
         year,
         taxSummary,
+        tokens,
         generatedAt: new Date(),
       })
     );
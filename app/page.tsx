@@ -1,12 +1,21 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useEffectEvent, useRef } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { useWalletModal } from "@solana/wallet-adapter-react-ui";
+import { PublicKey } from "@solana/web3.js";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { Spinner } from "@/components/ui/spinner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Card,
   CardContent,
@@ -16,6 +25,13 @@ import {
 } from "@/components/ui/card";
 import { trpc } from "@/lib/trpc/client";
 import { TransactionTable } from "@/components/transaction-table";
+import { UnmatchedDisposals } from "@/components/unmatched-disposals";
+import { StakingIncome } from "@/components/staking-income";
+import { LiquidityPositions } from "@/components/liquidity-positions";
+import { LendingActivity } from "@/components/lending-activity";
+import { IncomeReceipts } from "@/components/income-receipts";
+import { WalletGroupCard } from "@/components/wallet-group-card";
+import { WalletSignIn } from "@/components/wallet-sign-in";
 import {
   Wallet,
   FileText,
@@ -31,8 +47,17 @@ import {
   Github,
   Twitter,
   RefreshCw,
+  Eye,
 } from "lucide-react";
 import type { TaxSummary } from "@/lib/services/tax-calculator";
+import type { JobStatus, JobView } from "@/lib/services/jobs";
+import { formatAppliedRates } from "@/lib/services/tax-rules";
+import type { InboundKind } from "@/lib/services/airdrops";
+import {
+  COST_BASIS_METHODS,
+  COST_BASIS_METHOD_LABELS,
+  type CostBasisMethod,
+} from "@/lib/services/cost-basis";
 
 // Helper to format IDR
 function formatIDR(amount: number): string {
@@ -44,178 +69,404 @@ function formatIDR(amount: number): string {
   }).format(amount);
 }
 
+const ACTIVE_JOB_STATUSES: JobStatus[] = ["pending", "running"];
+const JOB_POLL_INTERVAL_MS = 1000;
+
+interface JobProgressDisplay {
+  value: number;
+  step: string;
+  detail: string;
+}
+
+// Progress of a sync job: pages fetched out of the per-sync page limit
+function syncJobProgress(job: JobView | null): JobProgressDisplay {
+  const progress = job?.progress;
+  if (!job || job.status === "pending") {
+    return { value: 0, step: "Menunggu antrean...", detail: "" };
+  }
+  if (!progress?.pagesFetched) {
+    return { value: 0, step: "Mengambil data transaksi dari Helius...", detail: "" };
+  }
+
+  return {
+    value: (progress.pagesFetched / (progress.maxPages || progress.pagesFetched)) * 100,
+    step: `${progress.transactionsFetched || 0} transaksi diambil, ${
+      progress.transactionsParsed || 0
+    } disimpan`,
+    detail: `${progress.pagesFetched} halaman`,
+  };
+}
+
+// Progress of a calculation job: token prices resolved so far
+function calcJobProgress(job: JobView | null): JobProgressDisplay {
+  const progress = job?.progress;
+  if (!job || job.status === "pending") {
+    return { value: 0, step: "Menunggu antrean...", detail: "" };
+  }
+  if (!progress?.pricesTotal) {
+    return { value: 0, step: "Menyiapkan transaksi...", detail: "" };
+  }
+
+  const resolved = progress.pricesResolved || 0;
+  return {
+    value: (resolved / progress.pricesTotal) * 100,
+    step:
+      resolved < progress.pricesTotal
+        ? "Mengambil harga token dari API..."
+        : "Menghitung kewajiban pajak...",
+    detail: `${resolved}/${progress.pricesTotal} harga`,
+  };
+}
+
 export default function Home() {
   const { connected, publicKey, disconnect } = useWallet();
   const { setVisible } = useWalletModal();
   const [selectedYear, setSelectedYear] = useState<number | null>(null);
-  const [isFetching, setIsFetching] = useState(false);
   const [taxSummary, setTaxSummary] = useState<TaxSummary | null>(null);
-  const [isCalculating, setIsCalculating] = useState(false);
   const [isDownloadingPdf, setIsDownloadingPdf] = useState(false);
-
-  // Progress tracking
-  const [fetchProgress, setFetchProgress] = useState(0);
-  const [fetchStep, setFetchStep] = useState("");
-  const [calcProgress, setCalcProgress] = useState(0);
-  const [calcStep, setCalcStep] = useState("");
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  const walletAddress = publicKey?.toBase58() || "";
-
-  // Cleanup progress interval on unmount
+  const [costBasisMethod, setCostBasisMethod] =
+    useState<CostBasisMethod>("fifo");
+  // Results per method already calculated, for side-by-side comparison
+  const [methodResults, setMethodResults] = useState<
+    Partial<Record<CostBasisMethod, TaxSummary>>
+  >({});
+  // Calculation job behind each method's result, for its PDF report
+  const [methodJobIds, setMethodJobIds] = useState<
+    Partial<Record<CostBasisMethod, string>>
+  >({});
+  const [calculateAsGroup, setCalculateAsGroup] = useState(false);
+  // Address viewed without connecting its wallet, e.g. an accountant's client
+  const [viewAddress, setViewAddress] = useState("");
+  const [viewAddressInput, setViewAddressInput] = useState("");
+  const [viewAddressError, setViewAddressError] = useState("");
+  // Older history still to be fetched after the last refresh
+  const [historyIncomplete, setHistoryIncomplete] = useState(false);
+
+  // Background jobs being followed, with their latest reported progress
+  const [syncJob, setSyncJob] = useState<JobView | null>(null);
+  const [calcJob, setCalcJob] = useState<JobView | null>(null);
+  const followedJobsRef = useRef(new Set<string>());
+
+  const walletAddress = viewAddress || publicKey?.toBase58() || "";
+  const viewOnly = !!viewAddress;
+
+  // Stop following jobs on unmount; the jobs themselves keep running
   useEffect(() => {
+    const followedJobs = followedJobsRef.current;
     return () => {
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-      }
+      followedJobs.clear();
     };
   }, []);
 
-  // Progress simulation for fetching
-  const startFetchProgress = () => {
-    setFetchProgress(0);
-    setFetchStep("Menghubungi blockchain Solana...");
-
-    let progress = 0;
-    progressIntervalRef.current = setInterval(() => {
-      progress += Math.random() * 8;
-
-      if (progress < 30) {
-        setFetchStep("Mengambil data transaksi dari Helius...");
-      } else if (progress < 60) {
-        setFetchStep("Memproses transaksi swap...");
-      } else if (progress < 85) {
-        setFetchStep("Menyimpan ke database...");
-      } else {
-        setFetchStep("Menyelesaikan...");
+  // tRPC mutations and queries
+  const utils = trpc.useUtils();
+  // Wallet data is only available once the wallet signed in on this session,
+  // or from public on-chain data in view-only mode
+  const sessionQuery = trpc.auth.session.useQuery(undefined, {
+    enabled: connected,
+  });
+  const signedIn =
+    !viewOnly && !!sessionQuery.data?.walletAddresses.includes(walletAddress);
+  const canLoad = viewOnly || signedIn;
+  const signOutMutation = trpc.auth.signOut.useMutation();
+  const startSyncMutation = trpc.jobs.startSync.useMutation();
+  const startCalculationMutation = trpc.jobs.startCalculation.useMutation();
+  const cancelJobMutation = trpc.jobs.cancel.useMutation();
+  const classifyTransferMutation =
+    trpc.transactions.classifyTransfer.useMutation();
+  const setTokenHiddenMutation =
+    trpc.transactions.setTokenHidden.useMutation();
+  const activeJobsQuery = trpc.jobs.active.useQuery(
+    { walletAddress },
+    { enabled: canLoad }
+  );
+  const transactionsQuery = trpc.transactions.getTransactions.useQuery(
+    { walletAddress, year: selectedYear || 2024 },
+    { enabled: canLoad && !!selectedYear }
+  );
+  const liquidityPositionsQuery =
+    trpc.transactions.getLiquidityPositions.useQuery(
+      { walletAddress },
+      { enabled: canLoad }
+    );
+  const walletGroupQuery = trpc.walletGroups.get.useQuery(
+    { walletAddress },
+    { enabled: signedIn }
+  );
+  const groupId =
+    calculateAsGroup && walletGroupQuery.data
+      ? walletGroupQuery.data.id
+      : undefined;
+
+  // Poll a job until it finishes, passing on each update. Returns null when
+  // the job is no longer followed (page left, wallet disconnected).
+  const followJob = async (
+    jobId: string,
+    onUpdate: (job: JobView) => void
+  ): Promise<JobView | null> => {
+    followedJobsRef.current.add(jobId);
+    while (followedJobsRef.current.has(jobId)) {
+      const job = await utils.jobs.get.fetch(
+        { walletAddress, jobId },
+        { staleTime: 0 }
+      );
+      onUpdate(job);
+      if (!ACTIVE_JOB_STATUSES.includes(job.status)) {
+        followedJobsRef.current.delete(jobId);
+        return job;
       }
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+    return null;
+  };
 
-      if (progress >= 90) {
-        progress = 90;
+  const followSyncJob = async (jobId: string) => {
+    try {
+      const job = await followJob(jobId, setSyncJob);
+      if (job?.type === "sync" && job.status === "completed" && job.result) {
+        setHistoryIncomplete(!job.result.historyComplete);
+      } else if (job?.status === "failed") {
+        console.error("Error fetching transactions:", job.error);
       }
-
-      setFetchProgress(progress);
-    }, 300);
+      transactionsQuery.refetch();
+      liquidityPositionsQuery.refetch();
+    } catch (error) {
+      console.error("Error fetching transactions:", error);
+    } finally {
+      setSyncJob(null);
+    }
   };
 
-  const stopFetchProgress = () => {
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-      progressIntervalRef.current = null;
+  const followCalcJob = async (jobId: string) => {
+    try {
+      const job = await followJob(jobId, setCalcJob);
+      if (job?.type === "calculate" && job.status === "completed" && job.result) {
+        const result = job.result;
+        const method = result.costBasisMethod;
+        setTaxSummary(result);
+        setMethodResults((previous) => ({ ...previous, [method]: result }));
+        setMethodJobIds((previous) => ({ ...previous, [method]: jobId }));
+      } else if (job?.status === "failed") {
+        console.error("Error calculating taxes:", job.error);
+      }
+    } catch (error) {
+      console.error("Error calculating taxes:", error);
+    } finally {
+      setCalcJob(null);
     }
-    setFetchProgress(100);
-    setFetchStep("Selesai!");
   };
 
-  // Progress simulation for tax calculation
-  const startCalcProgress = () => {
-    setCalcProgress(0);
-    setCalcStep("Mengambil harga token...");
-
-    let progress = 0;
-    progressIntervalRef.current = setInterval(() => {
-      progress += Math.random() * 6;
-
-      if (progress < 40) {
-        setCalcStep("Mengambil harga token dari API...");
-      } else if (progress < 60) {
-        setCalcStep("Menghitung cost basis (FIFO)...");
-      } else if (progress < 80) {
-        setCalcStep("Menghitung keuntungan/kerugian...");
+  // Pick up jobs still running from an earlier visit, e.g. after a reload,
+  // once per wallet shown
+  const resumedWalletRef = useRef<string | null>(null);
+  const resumeJobs = useEffectEvent((jobs: JobView[]) => {
+    for (const job of jobs) {
+      setSelectedYear((year) => year || job.input.year);
+      if (job.type === "sync") {
+        followSyncJob(job.id);
       } else {
-        setCalcStep("Menghitung kewajiban pajak...");
+        if (job.input.method) setCostBasisMethod(job.input.method);
+        followCalcJob(job.id);
       }
+    }
+  });
+  useEffect(() => {
+    if (!activeJobsQuery.data || resumedWalletRef.current === walletAddress) {
+      return;
+    }
+    resumedWalletRef.current = walletAddress;
+    resumeJobs(activeJobsQuery.data);
+  }, [activeJobsQuery.data, walletAddress]);
 
-      if (progress >= 90) {
-        progress = 90;
-      }
+  const handleConnectWallet = () => {
+    setVisible(true);
+  };
 
-      setCalcProgress(progress);
-    }, 400);
+  // Forget the wallet being shown and the results calculated for it
+  const resetWalletState = () => {
+    followedJobsRef.current.clear();
+    resumedWalletRef.current = null;
+    setSelectedYear(null);
+    setTaxSummary(null);
+    setMethodResults({});
+    setCalculateAsGroup(false);
+    setHistoryIncomplete(false);
   };
 
-  const stopCalcProgress = () => {
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-      progressIntervalRef.current = null;
-    }
-    setCalcProgress(100);
-    setCalcStep("Selesai!");
+  const handleDisconnect = () => {
+    resetWalletState();
+    signOutMutation.mutate(undefined, { onSettled: () => utils.invalidate() });
+    disconnect();
   };
 
-  // tRPC mutations and queries
-  const fetchTransactionsMutation =
-    trpc.transactions.fetchTransactions.useMutation();
-  const calculateTaxesMutation = trpc.transactions.calculateTaxes.useMutation();
-  const transactionsQuery = trpc.transactions.getTransactions.useQuery(
-    { walletAddress, year: selectedYear || 2024 },
-    { enabled: connected && !!selectedYear }
-  );
+  const handleViewAddress = () => {
+    const address = viewAddressInput.trim();
+    try {
+      new PublicKey(address);
+    } catch {
+      setViewAddressError("Alamat wallet Solana tidak valid");
+      return;
+    }
 
-  const handleConnectWallet = () => {
-    setVisible(true);
+    resetWalletState();
+    setViewAddressError("");
+    setViewAddress(address);
   };
 
-  const handleDisconnect = () => {
-    disconnect();
-    setSelectedYear(null);
-    setTaxSummary(null);
+  const handleExitViewOnly = () => {
+    resetWalletState();
+    setViewAddress("");
+    setViewAddressInput("");
   };
 
   const handleSelectYear = (year: number) => {
     setSelectedYear(year);
     setTaxSummary(null);
+    setMethodResults({});
     // Query will automatically fetch from DB due to enabled condition
   };
 
   const handleRefreshTransactions = async () => {
     if (!selectedYear) return;
 
-    setIsFetching(true);
     setTaxSummary(null);
-    startFetchProgress();
+    setMethodResults({});
 
     try {
-      await fetchTransactionsMutation.mutateAsync({
+      const job = await startSyncMutation.mutateAsync({
         walletAddress,
         year: selectedYear,
       });
-      stopFetchProgress();
-      transactionsQuery.refetch();
+      setSyncJob(job);
+      await followSyncJob(job.id);
     } catch (error) {
       console.error("Error fetching transactions:", error);
-      stopFetchProgress();
-    } finally {
-      setTimeout(() => {
-        setIsFetching(false);
-      }, 500);
     }
   };
 
-  const handleCalculateTaxes = async () => {
+  const handleCalculateTaxes = async (
+    method: CostBasisMethod = costBasisMethod
+  ) => {
     if (!selectedYear) return;
 
-    setIsCalculating(true);
-    startCalcProgress();
     try {
-      const result = await calculateTaxesMutation.mutateAsync({
+      const job = await startCalculationMutation.mutateAsync({
         walletAddress,
         year: selectedYear,
+        method,
+        groupId,
       });
-      stopCalcProgress();
-      setTaxSummary(result);
+      setCalcJob(job);
+      await followCalcJob(job.id);
     } catch (error) {
       console.error("Error calculating taxes:", error);
-      stopCalcProgress();
-    } finally {
-      setTimeout(() => {
-        setIsCalculating(false);
-      }, 500);
+    }
+  };
+
+  // The job stops at its next progress report; following ends with it
+  const handleCancelJob = async (jobId: string) => {
+    try {
+      await cancelJobMutation.mutateAsync({ walletAddress, jobId });
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+    }
+  };
+
+  const isFetching = !!syncJob || startSyncMutation.isPending;
+  const isCalculating = !!calcJob || startCalculationMutation.isPending;
+  const fetchProgress = syncJobProgress(syncJob);
+  const calcProgress = calcJobProgress(calcJob);
+
+  // Rates of the rule sets applied; empty until taxes are calculated
+  const pphRates = formatAppliedRates(taxSummary?.taxRules || [], "pphSellRate");
+  const ppnRates = formatAppliedRates(taxSummary?.taxRules || [], "ppnBuyRate");
+
+  // Switching method recalculates, unless that method was already calculated
+  const handleChangeMethod = (method: CostBasisMethod) => {
+    setCostBasisMethod(method);
+    if (!taxSummary) return;
+
+    const calculated = methodResults[method];
+    if (calculated) {
+      setTaxSummary(calculated);
+    } else {
+      handleCalculateTaxes(method);
+    }
+  };
+
+  // Results for a single wallet and for its group are not comparable
+  const handleCalculateAsGroupChange = (value: boolean) => {
+    setCalculateAsGroup(value);
+    setTaxSummary(null);
+    setMethodResults({});
+  };
+
+  const handleWalletGroupChanged = () => {
+    walletGroupQuery.refetch();
+    setTaxSummary(null);
+    setMethodResults({});
+  };
+
+  // Resolutions change cost basis for every method: recalculate from scratch
+  const handleDisposalResolved = () => {
+    setMethodResults({});
+    handleCalculateTaxes();
+  };
+
+  // Classifying an inbound transfer changes income and lots: recalculate
+  // from scratch, if taxes were calculated
+  const handleClassifyTransfer = async (
+    transaction: { walletAddress: string; signature: string },
+    kind: InboundKind
+  ) => {
+    try {
+      await classifyTransferMutation.mutateAsync({
+        walletAddress: transaction.walletAddress,
+        signature: transaction.signature,
+        kind,
+      });
+      transactionsQuery.refetch();
+      setMethodResults({});
+      if (taxSummary) {
+        handleCalculateTaxes();
+      }
+    } catch (error) {
+      console.error("Error classifying transfer:", error);
+    }
+  };
+
+  // Hiding or showing a token changes which transfers count: recalculate
+  // from scratch, if taxes were calculated
+  const handleToggleHidden = async (
+    transaction: {
+      walletAddress: string;
+      fromToken: string | null;
+      toToken: string | null;
+    },
+    hidden: boolean
+  ) => {
+    const tokenAddress = transaction.toToken || transaction.fromToken;
+    if (!tokenAddress) return;
+
+    try {
+      await setTokenHiddenMutation.mutateAsync({
+        walletAddress: transaction.walletAddress,
+        tokenAddress,
+        hidden,
+      });
+      transactionsQuery.refetch();
+      setMethodResults({});
+      if (taxSummary) {
+        handleCalculateTaxes();
+      }
+    } catch (error) {
+      console.error("Error hiding token:", error);
     }
   };
 
   const handleDownloadPdf = async () => {
-    if (!selectedYear || !taxSummary) return;
+    const jobId = taxSummary && methodJobIds[taxSummary.costBasisMethod];
+    if (!selectedYear || !jobId) return;
 
     setIsDownloadingPdf(true);
     try {
@@ -227,6 +478,7 @@ export default function Home() {
         body: JSON.stringify({
           walletAddress,
           year: selectedYear,
+          jobId,
         }),
       });
 
@@ -257,7 +509,7 @@ export default function Home() {
   const years = [currentYear - 2, currentYear - 1, currentYear];
 
   // Landing Page - Not Connected
-  if (!connected) {
+  if (!connected && !viewOnly) {
     return (
       <div className="min-h-screen bg-background text-foreground overflow-hidden">
         {/* Animated gradient background */}
@@ -325,11 +577,42 @@ export default function Home() {
                   className="rounded-full px-8 h-12 text-base font-medium shadow-lg transition-all hover:scale-105"
                 >
                   <Wallet className="h-5 w-5 mr-2" />
-                  Connect Phantom Wallet
+                  Connect Wallet
                   <ChevronRight className="h-4 w-4 ml-1" />
                 </Button>
               </div>
 
+              {/* View-only mode - any address, without connecting */}
+              <div className="max-w-xl mx-auto mb-16 animate-fade-in-up animation-delay-200">
+                <p className="text-sm text-muted-foreground mb-3">
+                  Atau lihat laporan wallet mana pun tanpa menghubungkannya,
+                  misalnya untuk klien Anda
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    value={viewAddressInput}
+                    onChange={(e) => setViewAddressInput(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleViewAddress()}
+                    placeholder="Alamat wallet Solana"
+                    className="font-mono rounded-full"
+                  />
+                  <Button
+                    variant="secondary"
+                    onClick={handleViewAddress}
+                    disabled={!viewAddressInput.trim()}
+                    className="rounded-full"
+                  >
+                    <Eye className="h-4 w-4 mr-2" />
+                    Lihat
+                  </Button>
+                </div>
+                {viewAddressError && (
+                  <p className="text-sm text-destructive mt-2">
+                    {viewAddressError}
+                  </p>
+                )}
+              </div>
+
               {/* Trust indicators */}
               <div className="flex items-center justify-center gap-8 text-sm text-muted-foreground animate-fade-in-up animation-delay-300">
                 <div className="flex items-center gap-2">
@@ -359,7 +642,7 @@ export default function Home() {
                   </div>
                   <CardTitle className="text-lg">Tanpa Registrasi</CardTitle>
                   <CardDescription>
-                    Cukup hubungkan wallet Phantom Anda. Tidak perlu email,
+                    Cukup hubungkan wallet Solana Anda. Tidak perlu email,
                     tidak perlu password. Data diproses secara aman.
                   </CardDescription>
                 </CardHeader>
@@ -371,10 +654,10 @@ export default function Home() {
                   <div className="h-10 w-10 rounded-lg bg-accent/20 flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
                     <BarChart3 className="h-5 w-5 text-accent-foreground" />
                   </div>
-                  <CardTitle className="text-lg">FIFO Cost Basis</CardTitle>
+                  <CardTitle className="text-lg">Pilihan Cost Basis</CardTitle>
                   <CardDescription>
-                    Perhitungan keuntungan/kerugian menggunakan metode FIFO yang
-                    sesuai standar akuntansi.
+                    Hitung keuntungan/kerugian dengan metode FIFO, LIFO, HIFO,
+                    atau rata-rata tertimbang dan bandingkan hasilnya.
                   </CardDescription>
                 </CardHeader>
               </Card>
@@ -538,23 +821,37 @@ export default function Home() {
           </div>
 
           <div className="flex items-center gap-3">
+            {viewOnly && (
+              <Badge variant="outline">
+                <Eye className="h-3 w-3 mr-1" />
+                Lihat saja
+              </Badge>
+            )}
             <Badge variant="secondary" className="font-mono">
               {walletAddress.slice(0, 4)}...{walletAddress.slice(-4)}
             </Badge>
             <Button
               variant="ghost"
               size="sm"
-              onClick={handleDisconnect}
+              onClick={viewOnly ? handleExitViewOnly : handleDisconnect}
               className="text-muted-foreground hover:text-foreground"
             >
-              Disconnect
+              {viewOnly ? "Keluar" : "Disconnect"}
             </Button>
           </div>
         </div>
       </header>
 
       <main className="relative z-10 container mx-auto px-6 py-8">
-        {!selectedYear ? (
+        {!canLoad ? (
+          // Sign in with the connected wallet
+          <WalletSignIn
+            walletAddress={walletAddress}
+            isCheckingSession={sessionQuery.isLoading}
+            onSignedIn={() => utils.auth.session.invalidate()}
+            onViewOnly={() => setViewAddress(walletAddress)}
+          />
+        ) : !selectedYear ? (
           // Year Selection
           <div className="max-w-xl mx-auto text-center py-16">
             <div className="h-16 w-16 rounded-2xl bg-primary/20 flex items-center justify-center mx-auto mb-6">
@@ -590,7 +887,7 @@ export default function Home() {
               Mengecek transaksi tersimpan untuk tahun {selectedYear}...
             </p>
           </div>
-        ) : isFetching || fetchTransactionsMutation.isPending ? (
+        ) : isFetching ? (
           // Loading - Fetching from Helius
           <div className="max-w-xl mx-auto text-center py-16">
             <div className="mb-6">
@@ -606,18 +903,33 @@ export default function Home() {
             </div>
 
             <div className="space-y-3 max-w-md mx-auto">
-              <Progress value={fetchProgress} className="h-2" />
+              <Progress value={fetchProgress.value} className="h-2" />
               <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">{fetchStep}</span>
+                <span className="text-muted-foreground">
+                  {fetchProgress.step}
+                </span>
                 <span className="font-medium text-primary">
-                  {Math.round(fetchProgress)}%
+                  {fetchProgress.detail}
                 </span>
               </div>
             </div>
 
+            {syncJob && signedIn && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-6"
+                onClick={() => handleCancelJob(syncJob.id)}
+                disabled={syncJob.cancelRequested || cancelJobMutation.isPending}
+              >
+                Batalkan
+              </Button>
+            )}
+
             <p className="text-xs text-muted-foreground mt-6">
-              Proses ini mungkin memakan waktu beberapa saat untuk wallet dengan
-              banyak transaksi
+              Proses ini berjalan di server dan mungkin memakan waktu beberapa
+              saat untuk wallet dengan banyak transaksi. Anda dapat menutup
+              halaman ini dan kembali nanti.
             </p>
           </div>
         ) : isCalculating ? (
@@ -634,15 +946,29 @@ export default function Home() {
             </div>
 
             <div className="space-y-3 max-w-md mx-auto">
-              <Progress value={calcProgress} className="h-2" />
+              <Progress value={calcProgress.value} className="h-2" />
               <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">{calcStep}</span>
+                <span className="text-muted-foreground">
+                  {calcProgress.step}
+                </span>
                 <span className="font-medium text-primary">
-                  {Math.round(calcProgress)}%
+                  {calcProgress.detail}
                 </span>
               </div>
             </div>
 
+            {calcJob && signedIn && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-6"
+                onClick={() => handleCancelJob(calcJob.id)}
+                disabled={calcJob.cancelRequested || cancelJobMutation.isPending}
+              >
+                Batalkan
+              </Button>
+            )}
+
             <p className="text-xs text-muted-foreground mt-6">
               Mengambil harga dari Birdeye dan DexScreener untuk setiap token
             </p>
@@ -679,10 +1005,32 @@ export default function Home() {
                   />
                   Refresh
                 </Button>
+                {transactionsQuery.data &&
+                  transactionsQuery.data.length > 0 && (
+                    <Select
+                      value={costBasisMethod}
+                      onValueChange={(value) =>
+                        handleChangeMethod(value as CostBasisMethod)
+                      }
+                    >
+                      <SelectTrigger className="w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {COST_BASIS_METHODS.map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {method === "average"
+                              ? "Average"
+                              : method.toUpperCase()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 {!taxSummary &&
                   transactionsQuery.data &&
                   transactionsQuery.data.length > 0 && (
-                    <Button onClick={handleCalculateTaxes}>
+                    <Button onClick={() => handleCalculateTaxes()}>
                       <Calculator className="h-4 w-4 mr-2" />
                       Hitung Pajak
                     </Button>
@@ -690,6 +1038,49 @@ export default function Home() {
               </div>
             </div>
 
+            {viewOnly ? (
+              // Groups, manual prices and resolutions belong to the owner
+              <Card className="mb-6">
+                <CardContent className="py-4 text-sm text-muted-foreground">
+                  Mode lihat saja: pajak dihitung hanya dari data on-chain
+                  publik wallet ini, tanpa grup wallet, harga manual, atau
+                  cost basis yang diisi pemiliknya.
+                </CardContent>
+              </Card>
+            ) : (
+              <WalletGroupCard
+                walletAddress={walletAddress}
+                group={walletGroupQuery.data || null}
+                calculateAsGroup={calculateAsGroup}
+                onCalculateAsGroupChange={handleCalculateAsGroupChange}
+                onChanged={handleWalletGroupChanged}
+              />
+            )}
+
+            {/* Partial history - the page limit was reached while syncing */}
+            {historyIncomplete && (
+              <Card className="mb-6 border-primary/50">
+                <CardContent className="py-4 flex items-center justify-between gap-4">
+                  <p className="text-sm text-muted-foreground">
+                    Riwayat transaksi belum lengkap. Transaksi yang lebih lama
+                    akan diambil pada sinkronisasi berikutnya.
+                  </p>
+                  <Button
+                    variant="outline"
+                    onClick={handleRefreshTransactions}
+                    disabled={isFetching}
+                  >
+                    <RefreshCw
+                      className={`h-4 w-4 mr-2 ${
+                        isFetching ? "animate-spin" : ""
+                      }`}
+                    />
+                    Lanjutkan Sinkronisasi
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Empty State - No transactions in DB */}
             {(!transactionsQuery.data || transactionsQuery.data.length === 0) &&
               !taxSummary && (
@@ -738,6 +1129,31 @@ export default function Home() {
                         <p className="text-xs text-muted-foreground">
                           {taxSummary.totalBuys} beli, {taxSummary.totalSells}{" "}
                           jual
+                          {taxSummary.totalTransfersIn +
+                            taxSummary.totalTransfersOut >
+                            0 &&
+                            `, ${
+                              taxSummary.totalTransfersIn +
+                              taxSummary.totalTransfersOut
+                            } transfer`}
+                          {taxSummary.totalStakes + taxSummary.totalUnstakes >
+                            0 &&
+                            `, ${
+                              taxSummary.totalStakes + taxSummary.totalUnstakes
+                            } staking`}
+                          {taxSummary.totalLpDeposits +
+                            taxSummary.totalLpWithdrawals >
+                            0 &&
+                            `, ${
+                              taxSummary.totalLpDeposits +
+                              taxSummary.totalLpWithdrawals
+                            } likuiditas`}
+                          {taxSummary.totalLendingTransactions > 0 &&
+                            `, ${taxSummary.totalLendingTransactions} lending`}
+                          {taxSummary.totalIncomeReceipts > 0 &&
+                            `, ${taxSummary.totalIncomeReceipts} airdrop/reward`}
+                          {taxSummary.totalHiddenTransactions > 0 &&
+                            `, ${taxSummary.totalHiddenTransactions} disembunyikan`}
                         </p>
                       </CardContent>
                     </Card>
@@ -762,14 +1178,21 @@ export default function Home() {
                       </CardHeader>
                       <CardContent>
                         <p className="text-xs text-muted-foreground">
-                          FIFO cost basis
+                          {COST_BASIS_METHOD_LABELS[taxSummary.costBasisMethod]}
+                          {taxSummary.totalFeesIdr > 0 &&
+                            `, termasuk biaya ${formatIDR(
+                              taxSummary.totalFeesIdr
+                            )}`}
                         </p>
                       </CardContent>
                     </Card>
 
                     <Card>
                       <CardHeader className="pb-2">
-                        <CardDescription>PPh Final (0.2%)</CardDescription>
+                        <CardDescription>
+                          PPh Final
+                          {pphRates && ` (${pphRates})`}
+                        </CardDescription>
                         <CardTitle className="text-2xl">
                           {formatIDR(taxSummary.totalPphTax)}
                         </CardTitle>
@@ -783,7 +1206,10 @@ export default function Home() {
 
                     <Card>
                       <CardHeader className="pb-2">
-                        <CardDescription>PPN (0.22%)</CardDescription>
+                        <CardDescription>
+                          PPN
+                          {ppnRates && ` (${ppnRates})`}
+                        </CardDescription>
                         <CardTitle className="text-2xl">
                           {formatIDR(taxSummary.totalPpnTax)}
                         </CardTitle>
@@ -828,12 +1254,87 @@ export default function Home() {
                     </CardHeader>
                     <CardContent>
                       <p className="text-sm text-muted-foreground">
-                        Catatan: Perhitungan ini menggunakan harga token saat
-                        ini. Untuk akurasi lebih baik, gunakan harga historis
-                        pada saat transaksi dilakukan.
+                        Catatan: Perhitungan ini menggunakan harga token
+                        historis pada saat masing-masing transaksi dilakukan.
                       </p>
                     </CardContent>
                   </Card>
+
+                  {/* Cost Basis Method Comparison */}
+                  {Object.keys(methodResults).length > 1 && (
+                    <Card className="mb-6">
+                      <CardHeader>
+                        <CardTitle>Perbandingan Metode</CardTitle>
+                        <CardDescription>
+                          Hasil perhitungan untuk setiap metode cost basis
+                          yang sudah dihitung
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="grid md:grid-cols-4 gap-4">
+                          {COST_BASIS_METHODS.filter(
+                            (method) => methodResults[method]
+                          ).map((method) => {
+                            const result = methodResults[method]!;
+                            return (
+                              <div
+                                key={method}
+                                className={`rounded-lg border p-4 ${
+                                  method === taxSummary.costBasisMethod
+                                    ? "border-primary"
+                                    : ""
+                                }`}
+                              >
+                                <p className="text-sm font-medium mb-2">
+                                  {COST_BASIS_METHOD_LABELS[method]}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  Keuntungan/Kerugian
+                                </p>
+                                <p
+                                  className={`font-mono ${
+                                    result.netGainLossIdr >= 0
+                                      ? "text-primary"
+                                      : "text-destructive"
+                                  }`}
+                                >
+                                  {formatIDR(result.netGainLossIdr)}
+                                </p>
+                                <p className="text-xs text-muted-foreground mt-2">
+                                  Total Pajak
+                                </p>
+                                <p className="font-mono">
+                                  {formatIDR(result.totalTax)}
+                                </p>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  <UnmatchedDisposals
+                    disposals={taxSummary.unmatchedDisposals}
+                    readOnly={viewOnly}
+                    onResolved={handleDisposalResolved}
+                  />
+
+                  <StakingIncome
+                    income={taxSummary.stakingIncome}
+                    totalIdr={taxSummary.totalStakingIncomeIdr}
+                  />
+
+                  <IncomeReceipts
+                    income={taxSummary.income}
+                    totalIdr={taxSummary.totalIncomeIdr}
+                  />
+
+                  <LendingActivity
+                    interest={taxSummary.lendingInterest}
+                    liabilities={taxSummary.lendingLiabilities}
+                    totalInterestIdr={taxSummary.totalLendingInterestIdr}
+                  />
                 </>
               ) : (
                 <div className="grid md:grid-cols-3 gap-4 mb-6">
@@ -841,7 +1342,9 @@ export default function Home() {
                     <CardHeader className="pb-2">
                       <CardDescription>Total Transaksi</CardDescription>
                       <CardTitle className="text-2xl">
-                        {transactionsQuery.data?.length || 0}
+                        {transactionsQuery.data?.filter(
+                          (tx) => !tx.spamReason
+                        ).length || 0}
                       </CardTitle>
                     </CardHeader>
                   </Card>
@@ -870,6 +1373,13 @@ export default function Home() {
                 </div>
               ))}
 
+            {/* Liquidity pool positions and results */}
+            <LiquidityPositions
+              positions={liquidityPositionsQuery.data || []}
+              results={taxSummary?.lpResults || []}
+              totalIdr={taxSummary?.totalLpGainLossIdr || 0}
+            />
+
             {/* Transaction Table */}
             {transactionsQuery.data && transactionsQuery.data.length > 0 && (
               <Card>
@@ -877,6 +1387,8 @@ export default function Home() {
                   <TransactionTable
                     transactions={transactionsQuery.data || []}
                     isLoading={transactionsQuery.isLoading}
+                    onClassify={viewOnly ? undefined : handleClassifyTransfer}
+                    onToggleHidden={viewOnly ? undefined : handleToggleHidden}
                   />
                 </CardContent>
               </Card>
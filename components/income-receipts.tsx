@@ -0,0 +1,105 @@
+'use client';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Gift } from 'lucide-react';
+import {
+  AIRDROP_DISTRIBUTOR_LABELS,
+  INBOUND_KIND_LABELS,
+  type AirdropDistributor,
+} from '@/lib/services/airdrops';
+import type { IncomeReceipt } from '@/lib/services/tax-calculator';
+
+interface IncomeReceiptsProps {
+  income: IncomeReceipt[];
+  totalIdr: number;
+}
+
+// Helper to format IDR
+function formatIDR(amount: number): string {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+// Airdrop distributor, else the shortened sending address
+function sourceLabel(source: string): string {
+  return AIRDROP_DISTRIBUTOR_LABELS[source as AirdropDistributor] ||
+    (source ? `${source.slice(0, 4)}...${source.slice(-4)}` : '-');
+}
+
+export function IncomeReceipts({ income, totalIdr }: IncomeReceiptsProps) {
+  if (income.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gift className="h-5 w-5" />
+          Penghasilan Airdrop & Reward
+        </CardTitle>
+        <CardDescription>
+          Token yang diterima sebagai airdrop atau reward, dinilai pada harga
+          pasar saat diterima. Nilai tersebut menjadi cost basis token saat
+          dijual. Transfer masuk lainnya dapat ditandai di tabel transaksi.
+          Total {formatIDR(totalIdr)}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tanggal</TableHead>
+              <TableHead>Jenis</TableHead>
+              <TableHead>Token</TableHead>
+              <TableHead>Sumber</TableHead>
+              <TableHead className="text-right">Penghasilan</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {income.map(receipt => (
+              <TableRow key={receipt.signature}>
+                <TableCell>
+                  {new Date(receipt.timestamp).toLocaleDateString('id-ID')}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={receipt.classifiedByUser ? 'outline' : 'secondary'}>
+                    {INBOUND_KIND_LABELS[receipt.kind]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="font-medium">
+                  {receipt.amount.toLocaleString('id-ID', { maximumFractionDigits: 6 })} {receipt.symbol}
+                </TableCell>
+                <TableCell className="font-mono text-xs text-muted-foreground">
+                  {sourceLabel(receipt.source)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatIDR(receipt.incomeIdr)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
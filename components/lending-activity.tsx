@@ -0,0 +1,117 @@
+'use client';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Landmark } from 'lucide-react';
+import { LENDING_PROTOCOL_LABELS } from '@/lib/services/lending';
+import type { LendingInterest, LendingLiability } from '@/lib/services/tax-calculator';
+
+interface LendingActivityProps {
+  interest: LendingInterest[];
+  liabilities: LendingLiability[]; // loans open at the end of the year
+  totalInterestIdr: number;
+}
+
+// Helper to format IDR
+function formatIDR(amount: number): string {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export function LendingActivity({ interest, liabilities, totalInterestIdr }: LendingActivityProps) {
+  if (interest.length === 0 && liabilities.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5" />
+          Lending
+        </CardTitle>
+        <CardDescription>
+          Bunga yang diterima saat penarikan dari protokol lending dinilai pada
+          tanggal diterima dan terpisah dari PPh Final. Pinjaman yang belum
+          dilunasi dicatat sebagai utang.
+          {interest.length > 0 && <> Total bunga {formatIDR(totalInterestIdr)}.</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {interest.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>Token</TableHead>
+                <TableHead>Protokol</TableHead>
+                <TableHead className="text-right">Bunga</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {interest.map(entry => (
+                <TableRow key={entry.signature}>
+                  <TableCell>
+                    {new Date(entry.timestamp).toLocaleDateString('id-ID')}
+                  </TableCell>
+                  <TableCell className="font-medium">{entry.symbol}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{LENDING_PROTOCOL_LABELS[entry.protocol]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatIDR(entry.incomeIdr)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {liabilities.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pinjaman Terbuka</TableHead>
+                <TableHead className="text-right">Jumlah</TableHead>
+                <TableHead className="text-right">Nilai Saat Dipinjam</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {liabilities.map((liability, index) => (
+                <TableRow key={`${liability.walletAddress}:${liability.tokenAddress}:${index}`}>
+                  <TableCell className="font-medium">
+                    {liability.symbol || `${liability.tokenAddress.slice(0, 4)}...`}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {liability.amount.toLocaleString('id-ID', { maximumFractionDigits: 6 })}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatIDR(liability.borrowedValueIdr)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
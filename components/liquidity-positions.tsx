@@ -0,0 +1,127 @@
+'use client';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Droplets } from 'lucide-react';
+import { LP_PROTOCOL_LABELS, type LpProtocol } from '@/lib/services/liquidity';
+import type { LpResult } from '@/lib/services/tax-calculator';
+
+interface LiquidityPosition {
+  id: string;
+  protocol: string;
+  symbols: string[];
+  openedAt: Date;
+  lastActivityAt: Date;
+}
+
+interface LiquidityPositionsProps {
+  positions: LiquidityPosition[];
+  results: LpResult[]; // withdrawals of the calculated year
+  totalIdr: number;
+}
+
+// Helper to format IDR
+function formatIDR(amount: number): string {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export function LiquidityPositions({ positions, results, totalIdr }: LiquidityPositionsProps) {
+  if (positions.length === 0 && results.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Droplets className="h-5 w-5" />
+          Liquidity Pool
+        </CardTitle>
+        <CardDescription>
+          Token yang disetor ke pool membawa cost basis-nya ke posisi LP. Saat
+          ditarik, selisih nilai token yang diterima dengan cost basis posisi
+          (termasuk fee dan impermanent loss) dicatat terpisah dari PPh Final.
+          {results.length > 0 && <> Total tahun ini {formatIDR(totalIdr)}.</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {positions.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pool</TableHead>
+                <TableHead>Protokol</TableHead>
+                <TableHead>Pertama</TableHead>
+                <TableHead>Terakhir</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {positions.map(position => (
+                <TableRow key={position.id}>
+                  <TableCell className="font-medium">{position.symbols.join('/')}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">
+                      {LP_PROTOCOL_LABELS[position.protocol as LpProtocol] || position.protocol}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{new Date(position.openedAt).toLocaleDateString('id-ID')}</TableCell>
+                  <TableCell>{new Date(position.lastActivityAt).toLocaleDateString('id-ID')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {results.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tanggal Tarik</TableHead>
+                <TableHead>Pool</TableHead>
+                <TableHead className="text-right">Ditarik</TableHead>
+                <TableHead className="text-right">Cost Basis</TableHead>
+                <TableHead className="text-right">Hasil</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map(result => (
+                <TableRow key={result.signature}>
+                  <TableCell>{new Date(result.timestamp).toLocaleDateString('id-ID')}</TableCell>
+                  <TableCell className="font-medium">{result.symbols}</TableCell>
+                  <TableCell className="text-right font-mono">{formatIDR(result.proceedsIdr)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatIDR(result.costBasisIdr)}</TableCell>
+                  <TableCell
+                    className={`text-right font-mono ${
+                      result.gainLossIdr >= 0 ? 'text-primary' : 'text-destructive'
+                    }`}
+                  >
+                    {formatIDR(result.gainLossIdr)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
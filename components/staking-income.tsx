@@ -0,0 +1,86 @@
+'use client';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Coins } from 'lucide-react';
+import { STAKING_PROTOCOL_LABELS } from '@/lib/services/staking';
+import type { StakingIncome as StakingIncomeEntry } from '@/lib/services/tax-calculator';
+
+interface StakingIncomeProps {
+  income: StakingIncomeEntry[];
+  totalIdr: number;
+}
+
+// Helper to format IDR
+function formatIDR(amount: number): string {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export function StakingIncome({ income, totalIdr }: StakingIncomeProps) {
+  if (income.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          Penghasilan Staking
+        </CardTitle>
+        <CardDescription>
+          Imbalan staking yang diterima saat penarikan, dinilai pada tanggal
+          diterima. Penghasilan ini terpisah dari PPh Final transaksi jual beli.
+          Total {formatIDR(totalIdr)}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tanggal</TableHead>
+              <TableHead>Staking</TableHead>
+              <TableHead>Protokol</TableHead>
+              <TableHead className="text-right">Penghasilan</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {income.map(entry => (
+              <TableRow key={entry.signature}>
+                <TableCell>
+                  {new Date(entry.timestamp).toLocaleDateString('id-ID')}
+                </TableCell>
+                <TableCell className="font-medium">{entry.symbol}</TableCell>
+                <TableCell>
+                  <Badge variant="secondary">{STAKING_PROTOCOL_LABELS[entry.protocol]}</Badge>
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatIDR(entry.incomeIdr)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -24,19 +24,274 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { ArrowUpDown, ArrowUp, ArrowDown, Search } from 'lucide-react';
-import type { Transaction } from '@/lib/db/schema';
+import { Avatar, AvatarImage } from '@/components/ui/avatar';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowUpDown, ArrowUp, ArrowDown, BadgeCheck, Eye, EyeOff, Search } from 'lucide-react';
+import { trpc } from '@/lib/trpc/client';
+import type { TokenMetadata, Transaction, TransactionLeg } from '@/lib/db/schema';
+import { STAKING_PROTOCOL_LABELS, type StakingProtocol } from '@/lib/services/staking';
+import { LP_PROTOCOL_LABELS, type LpProtocol } from '@/lib/services/liquidity';
+import { LENDING_PROTOCOL_LABELS, type LendingProtocol } from '@/lib/services/lending';
+import {
+  AIRDROP_DISTRIBUTOR_LABELS,
+  INBOUND_KINDS,
+  INBOUND_KIND_LABELS,
+  type AirdropDistributor,
+  type InboundKind,
+} from '@/lib/services/airdrops';
+import { SPAM_FILTERED_TYPES, SPAM_REASON_LABELS, type SpamReason } from '@/lib/services/spam';
+
+type TransactionTableData = Omit<Transaction, 'rawData'> & {
+  legs: Pick<TransactionLeg, 'direction' | 'mint' | 'symbol' | 'amount'>[];
+  classification?: InboundKind | null; // the owner's classification of an inbound transfer
+  spamReason?: SpamReason | null; // why the transfer is hidden as spam, if it is
+};
+
+const TRANSFER_LABELS: Record<string, string> = {
+  transfer_in: 'Transfer Masuk',
+  transfer_out: 'Transfer Keluar',
+};
+
+const STAKING_LABELS: Record<string, string> = {
+  stake: 'Stake',
+  unstake: 'Unstake',
+};
+
+const LIQUIDITY_LABELS: Record<string, string> = {
+  lp_deposit: 'Setor LP',
+  lp_withdraw: 'Tarik LP',
+};
+
+const LENDING_LABELS: Record<string, string> = {
+  lend_deposit: 'Setor',
+  lend_withdraw: 'Tarik',
+  lend_borrow: 'Pinjam',
+  lend_repay: 'Bayar Pinjaman',
+  lend_liquidation: 'Likuidasi',
+};
+
+// Shortened wallet address, e.g. "7xKX...9fGh"
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
 
-type TransactionTableData = Omit<Transaction, 'rawData'>;
+// Token registry entries by mint
+type TokenRegistry = Record<string, TokenMetadata>;
+
+// Most mints one registry lookup takes
+const MAX_TOKEN_LOOKUP = 500;
 
 interface TransactionTableProps {
   transactions: TransactionTableData[];
   isLoading: boolean;
+  // Classify an inbound transfer; without it (view-only mode) the kind is
+  // only shown
+  onClassify?: (transaction: TransactionTableData, kind: InboundKind) => void;
+  // Hide or show the token of a transfer; without it (view-only mode) the
+  // spam filter's result is only shown
+  onToggleHidden?: (transaction: TransactionTableData, hidden: boolean) => void;
+}
+
+// How an inbound transfer is treated: the owner's classification, else what
+// the parser detected. Null for other transactions.
+function inboundKindOf(transaction: TransactionTableData): InboundKind | null {
+  if (transaction.type !== 'transfer_in' && transaction.type !== 'airdrop') return null;
+  return transaction.classification || (transaction.type === 'airdrop' ? 'airdrop' : 'transfer');
+}
+
+// Kind of an inbound transfer, with the distributor of detected airdrops
+function InboundKindCell({
+  transaction,
+  onClassify,
+}: {
+  transaction: TransactionTableData;
+  onClassify?: TransactionTableProps['onClassify'];
+}) {
+  const kind = inboundKindOf(transaction)!;
+  const distributor = transaction.type === 'airdrop'
+    ? AIRDROP_DISTRIBUTOR_LABELS[transaction.dex as AirdropDistributor] || transaction.dex
+    : null;
+  const label = (value: InboundKind) =>
+    value === 'airdrop' && distributor ? `${INBOUND_KIND_LABELS[value]} · ${distributor}` : INBOUND_KIND_LABELS[value];
+
+  if (!onClassify) {
+    return <Badge variant="secondary">{label(kind)}</Badge>;
+  }
+
+  return (
+    <Select value={kind} onValueChange={value => onClassify(transaction, value as InboundKind)}>
+      <SelectTrigger size="sm" className="h-7 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {INBOUND_KINDS.map(value => (
+          <SelectItem key={value} value={value}>
+            {label(value)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Why a transfer is hidden, with a button to hide or show its token
+function SpamCell({
+  transaction,
+  onToggleHidden,
+}: {
+  transaction: TransactionTableData;
+  onToggleHidden?: TransactionTableProps['onToggleHidden'];
+}) {
+  const reason = transaction.spamReason;
+  const isTransfer = SPAM_FILTERED_TYPES.includes(transaction.type || '');
+
+  return (
+    <div className="flex items-center justify-end gap-1">
+      {reason && (
+        <Badge variant={reason === 'hidden' ? 'outline' : 'destructive'}>
+          {SPAM_REASON_LABELS[reason]}
+        </Badge>
+      )}
+      {onToggleHidden && isTransfer && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title={reason ? 'Tampilkan token ini' : 'Sembunyikan token ini'}
+          onClick={() => onToggleHidden(transaction, !reason)}
+        >
+          {reason ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Other side of a transfer, in place of a token amount
+function CounterpartyCell({ address }: { address: string | null }) {
+  return (
+    <div className="font-mono text-sm text-muted-foreground">
+      {address ? shortAddress(address) : '-'}
+    </div>
+  );
+}
+
+// Symbol of a mint, from the registry when it knows the token, with its logo
+// and a mark for verified tokens
+function TokenSymbol({ mint, symbol, tokens }: { mint: string; symbol: string | null; tokens: TokenRegistry }) {
+  const token = tokens[mint];
+  const label = token?.symbol || symbol || shortAddress(mint);
+
+  return (
+    <span className="inline-flex items-center gap-1 text-muted-foreground" title={token?.name || mint}>
+      {token?.logoUri && (
+        <Avatar className="size-4">
+          <AvatarImage src={token.logoUri} alt={label} />
+        </Avatar>
+      )}
+      {label}
+      {token?.verified && <BadgeCheck className="h-3 w-3 text-primary" />}
+    </span>
+  );
 }
 
-export function TransactionTable({ transactions, isLoading }: TransactionTableProps) {
+// Network fee in SOL and platform fee in its token
+function FeeCell({ transaction, tokens }: { transaction: TransactionTableData; tokens: TokenRegistry }) {
+  const networkFeeSol =
+    ((transaction.networkFeeLamports || 0) + (transaction.priorityFeeLamports || 0)) / 1e9;
+  const platformFeeToken = transaction.platformFeeToken;
+  const platformFeeSymbol =
+    platformFeeToken === transaction.fromToken ? transaction.fromSymbol
+      : platformFeeToken === transaction.toToken ? transaction.toSymbol
+      : null;
+
+  if (networkFeeSol === 0 && !platformFeeToken) {
+    return <div className="font-mono text-sm text-muted-foreground">-</div>;
+  }
+
+  return (
+    <div className="font-mono text-xs text-muted-foreground">
+      {networkFeeSol > 0 && (
+        <div>
+          {networkFeeSol.toLocaleString('id-ID', { maximumFractionDigits: 9 })} SOL
+        </div>
+      )}
+      {platformFeeToken && (
+        <div>
+          {Number(transaction.platformFeeAmount).toLocaleString('id-ID', { maximumFractionDigits: 6 })}{' '}
+          <TokenSymbol mint={platformFeeToken} symbol={platformFeeSymbol} tokens={tokens} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Legs besides the main one on a side, e.g. a partial refund or route dust
+function ExtraLegs({
+  transaction,
+  direction,
+  tokens,
+}: {
+  transaction: TransactionTableData;
+  direction: 'in' | 'out';
+  tokens: TokenRegistry;
+}) {
+  const mainToken = direction === 'in' ? transaction.toToken : transaction.fromToken;
+  const extraLegs = transaction.legs.filter(leg => leg.direction === direction && leg.mint !== mainToken);
+  if (extraLegs.length === 0) return null;
+
+  return (
+    <div className="text-xs text-muted-foreground">
+      {extraLegs.map(leg => (
+        <div key={leg.mint}>
+          {direction === 'in' ? '+' : '-'}{' '}
+          {Number(leg.amount).toLocaleString('id-ID', { maximumFractionDigits: 6 })}{' '}
+          <TokenSymbol mint={leg.mint} symbol={leg.symbol} tokens={tokens} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function TransactionTable({ transactions, isLoading, onClassify, onToggleHidden }: TransactionTableProps) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [globalFilter, setGlobalFilter] = useState('');
+  const [showHidden, setShowHidden] = useState(false);
+
+  // Spam and dust transfers are left out unless asked for
+  const hiddenCount = useMemo(() => transactions.filter(tx => tx.spamReason).length, [transactions]);
+  const visibleTransactions = useMemo(
+    () => (showHidden ? transactions : transactions.filter(tx => !tx.spamReason)),
+    [transactions, showHidden]
+  );
+
+  // Registry entries for every mint in the table
+  const mints = useMemo(
+    () =>
+      [
+        ...new Set(
+          transactions.flatMap(tx => [
+            tx.fromToken,
+            tx.toToken,
+            tx.platformFeeToken,
+            ...tx.legs.map(leg => leg.mint),
+          ])
+        ),
+      ]
+        .filter((mint): mint is string => !!mint)
+        .slice(0, MAX_TOKEN_LOOKUP),
+    [transactions]
+  );
+  const tokensQuery = trpc.tokens.getMetadata.useQuery({ mints }, { enabled: mints.length > 0 });
+  const tokens = useMemo<TokenRegistry>(() => tokensQuery.data || {}, [tokensQuery.data]);
 
   const columns = useMemo<ColumnDef<TransactionTableData>[]>(
     () => [
@@ -74,6 +329,37 @@ export function TransactionTable({ transactions, isLoading }: TransactionTablePr
         accessorKey: 'dex',
         header: 'DEX',
         cell: ({ row }) => {
+          if (inboundKindOf(row.original)) {
+            return <InboundKindCell transaction={row.original} onClassify={onClassify} />;
+          }
+
+          const transferLabel = TRANSFER_LABELS[row.original.type || ''];
+          if (transferLabel) {
+            return <Badge variant="secondary">{transferLabel}</Badge>;
+          }
+
+          const stakingLabel = STAKING_LABELS[row.original.type || ''];
+          if (stakingLabel) {
+            const protocol = STAKING_PROTOCOL_LABELS[row.original.dex as StakingProtocol] || row.original.dex;
+            return <Badge variant="secondary">{stakingLabel} · {protocol}</Badge>;
+          }
+
+          const liquidityLabel = LIQUIDITY_LABELS[row.original.type || ''];
+          if (liquidityLabel) {
+            const protocol = LP_PROTOCOL_LABELS[row.original.dex as LpProtocol] || row.original.dex;
+            return <Badge variant="secondary">{liquidityLabel} · {protocol}</Badge>;
+          }
+
+          const lendingLabel = LENDING_LABELS[row.original.type || ''];
+          if (lendingLabel) {
+            const protocol = LENDING_PROTOCOL_LABELS[row.original.dex as LendingProtocol] || row.original.dex;
+            return (
+              <Badge variant={row.original.type === 'lend_liquidation' ? 'destructive' : 'secondary'}>
+                {lendingLabel} · {protocol}
+              </Badge>
+            );
+          }
+
           const dex = row.getValue('dex') as string;
           return (
             <Badge variant="outline" className="capitalize">
@@ -86,13 +372,17 @@ export function TransactionTable({ transactions, isLoading }: TransactionTablePr
         id: 'from',
         header: 'Dari',
         cell: ({ row }) => {
-          const symbol = row.original.fromSymbol;
+          const token = row.original.fromToken;
           const amount = row.original.fromAmount;
+          if (!token) {
+            return <CounterpartyCell address={row.original.counterparty} />;
+          }
           return (
             <div className="font-mono text-sm">
               <span className="text-destructive">-</span>{' '}
               {Number(amount).toLocaleString('id-ID', { maximumFractionDigits: 6 })}{' '}
-              <span className="text-muted-foreground">{symbol}</span>
+              <TokenSymbol mint={token} symbol={row.original.fromSymbol} tokens={tokens} />
+              <ExtraLegs transaction={row.original} direction="out" tokens={tokens} />
             </div>
           );
         },
@@ -101,17 +391,26 @@ export function TransactionTable({ transactions, isLoading }: TransactionTablePr
         id: 'to',
         header: 'Ke',
         cell: ({ row }) => {
-          const symbol = row.original.toSymbol;
+          const token = row.original.toToken;
           const amount = row.original.toAmount;
+          if (!token) {
+            return <CounterpartyCell address={row.original.counterparty} />;
+          }
           return (
             <div className="font-mono text-sm">
               <span className="text-primary">+</span>{' '}
               {Number(amount).toLocaleString('id-ID', { maximumFractionDigits: 6 })}{' '}
-              <span className="text-muted-foreground">{symbol}</span>
+              <TokenSymbol mint={token} symbol={row.original.toSymbol} tokens={tokens} />
+              <ExtraLegs transaction={row.original} direction="in" tokens={tokens} />
             </div>
           );
         },
       },
+      {
+        id: 'fee',
+        header: 'Biaya',
+        cell: ({ row }) => <FeeCell transaction={row.original} tokens={tokens} />,
+      },
       {
         accessorKey: 'signature',
         header: 'Signature',
@@ -129,12 +428,17 @@ export function TransactionTable({ transactions, isLoading }: TransactionTablePr
           );
         },
       },
+      {
+        id: 'spam',
+        header: '',
+        cell: ({ row }) => <SpamCell transaction={row.original} onToggleHidden={onToggleHidden} />,
+      },
     ],
-    []
+    [tokens, onClassify, onToggleHidden]
   );
 
   const table = useReactTable({
-    data: transactions,
+    data: visibleTransactions,
     columns,
     state: {
       sorting,
@@ -170,7 +474,7 @@ export function TransactionTable({ transactions, isLoading }: TransactionTablePr
       <div className="text-center py-12 text-muted-foreground">
         <p className="text-lg">Tidak ada transaksi ditemukan</p>
         <p className="text-sm mt-1">
-          Pastikan wallet Anda memiliki transaksi swap pada tahun yang dipilih
+          Pastikan wallet Anda memiliki transaksi swap atau transfer pada tahun yang dipilih
         </p>
       </div>
     );
@@ -189,6 +493,15 @@ export function TransactionTable({ transactions, isLoading }: TransactionTablePr
         />
       </div>
 
+      {hiddenCount > 0 && (
+        <div className="flex items-center gap-2">
+          <Switch id="show-hidden-transactions" checked={showHidden} onCheckedChange={setShowHidden} />
+          <Label htmlFor="show-hidden-transactions">
+            Tampilkan {hiddenCount} transaksi tersembunyi (spam/dust)
+          </Label>
+        </div>
+      )}
+
       {/* Table */}
       <div className="rounded-md border">
         <Table>
@@ -211,7 +524,7 @@ export function TransactionTable({ transactions, isLoading }: TransactionTablePr
           <TableBody>
             {table.getRowModel().rows?.length ? (
               table.getRowModel().rows.map((row) => (
-                <TableRow key={row.id}>
+                <TableRow key={row.id} className={row.original.spamReason ? 'opacity-60' : undefined}>
                   {row.getVisibleCells().map((cell) => (
                     <TableCell key={cell.id}>
                       {flexRender(
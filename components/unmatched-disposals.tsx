@@ -0,0 +1,277 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Spinner } from '@/components/ui/spinner';
+import { AlertTriangle } from 'lucide-react';
+import { trpc } from '@/lib/trpc/client';
+import {
+  RESOLUTION_KINDS,
+  RESOLUTION_KIND_LABELS,
+  type ResolutionKind,
+} from '@/lib/services/cost-basis';
+import type { UnmatchedDisposal } from '@/lib/services/tax-calculator';
+
+interface UnmatchedDisposalsProps {
+  disposals: UnmatchedDisposal[];
+  readOnly?: boolean; // view-only mode: resolutions belong to the wallet owner
+  onResolved: () => void;
+}
+
+// Helper to format IDR
+function formatIDR(amount: number): string {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export function UnmatchedDisposals({ disposals, readOnly, onResolved }: UnmatchedDisposalsProps) {
+  const [selected, setSelected] = useState<UnmatchedDisposal | null>(null);
+  const [kind, setKind] = useState<ResolutionKind>('manual');
+  const [costBasisIdr, setCostBasisIdr] = useState('');
+  const [acquiredAt, setAcquiredAt] = useState('');
+  const [reference, setReference] = useState('');
+  const [error, setError] = useState('');
+
+  const resolveMutation = trpc.resolutions.resolve.useMutation();
+  const removeMutation = trpc.resolutions.remove.useMutation();
+
+  const unresolvedCount = disposals.filter(disposal => !disposal.resolution).length;
+
+  const openDialog = (disposal: UnmatchedDisposal) => {
+    setSelected(disposal);
+    setKind(disposal.resolution || 'manual');
+    setCostBasisIdr(disposal.resolvedCostBasisIdr?.toString() || '');
+    setAcquiredAt('');
+    setReference('');
+    setError('');
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    const cost = Number(costBasisIdr);
+    if (kind !== 'airdrop' && (costBasisIdr === '' || !Number.isFinite(cost) || cost < 0)) {
+      setError('Masukkan cost basis dalam Rupiah');
+      return;
+    }
+    if (kind === 'external' && !acquiredAt) {
+      setError('Masukkan tanggal pembelian');
+      return;
+    }
+
+    try {
+      await resolveMutation.mutateAsync({
+        walletAddress: selected.walletAddress,
+        signature: selected.signature,
+        tokenAddress: selected.tokenAddress,
+        kind,
+        costBasisIdr: kind === 'airdrop' ? undefined : cost,
+        acquiredAt: kind === 'external' ? new Date(acquiredAt) : undefined,
+        reference: reference || undefined,
+      });
+      setSelected(null);
+      onResolved();
+    } catch (error) {
+      console.error('Error resolving disposal:', error);
+      setError('Gagal menyimpan. Silakan coba lagi.');
+    }
+  };
+
+  const handleRemove = async (disposal: UnmatchedDisposal) => {
+    try {
+      await removeMutation.mutateAsync({
+        walletAddress: disposal.walletAddress,
+        signature: disposal.signature,
+        tokenAddress: disposal.tokenAddress,
+      });
+      onResolved();
+    } catch (error) {
+      console.error('Error removing resolution:', error);
+    }
+  };
+
+  if (disposals.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card className={`mb-6 ${unresolvedCount > 0 ? 'border-destructive' : ''}`}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Penjualan Tanpa Riwayat Pembelian
+          </CardTitle>
+          <CardDescription>
+            Jumlah token yang dijual melebihi pembelian yang tercatat di wallet.
+            Tanpa penyelesaian, cost basis bagian tersebut dihitung Rp 0 sehingga
+            seluruh hasil penjualannya menjadi keuntungan.
+            {unresolvedCount > 0 && ` ${unresolvedCount} belum diselesaikan.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>Token</TableHead>
+                <TableHead className="text-right">Jumlah Tanpa Riwayat</TableHead>
+                <TableHead className="text-right">Hasil Penjualan</TableHead>
+                <TableHead>Status</TableHead>
+                {!readOnly && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {disposals.map(disposal => (
+                <TableRow key={`${disposal.signature}:${disposal.tokenAddress}`}>
+                  <TableCell>
+                    {new Date(disposal.timestamp).toLocaleDateString('id-ID')}
+                  </TableCell>
+                  <TableCell className="font-medium">{disposal.symbol}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {disposal.unmatchedAmount.toLocaleString('id-ID', { maximumFractionDigits: 6 })}
+                    <span className="text-muted-foreground">
+                      {' '}/ {disposal.amount.toLocaleString('id-ID', { maximumFractionDigits: 6 })}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatIDR(disposal.proceedsIdr)}
+                  </TableCell>
+                  <TableCell>
+                    {disposal.resolution ? (
+                      <Badge variant="secondary">
+                        {RESOLUTION_KIND_LABELS[disposal.resolution]}
+                        {disposal.resolution !== 'airdrop' && disposal.resolvedCostBasisIdr !== null &&
+                          ` - ${formatIDR(disposal.resolvedCostBasisIdr)}`}
+                      </Badge>
+                    ) : (
+                      <Badge variant="destructive">Belum diselesaikan</Badge>
+                    )}
+                  </TableCell>
+                  {!readOnly && (
+                    <TableCell className="text-right space-x-2">
+                      <Button size="sm" variant="outline" onClick={() => openDialog(disposal)}>
+                        {disposal.resolution ? 'Ubah' : 'Selesaikan'}
+                      </Button>
+                      {disposal.resolution && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRemove(disposal)}
+                          disabled={removeMutation.isPending}
+                        >
+                          Hapus
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={open => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Selesaikan Cost Basis</DialogTitle>
+            <DialogDescription>
+              {selected &&
+                `${selected.unmatchedAmount.toLocaleString('id-ID', { maximumFractionDigits: 6 })} ${selected.symbol} dijual tanpa riwayat pembelian di wallet ini.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup value={kind} onValueChange={value => setKind(value as ResolutionKind)}>
+            {RESOLUTION_KINDS.map(option => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`resolution-${option}`} />
+                <Label htmlFor={`resolution-${option}`}>{RESOLUTION_KIND_LABELS[option]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {kind !== 'airdrop' && (
+            <div className="space-y-2">
+              <Label htmlFor="resolution-cost">Total cost basis (IDR)</Label>
+              <Input
+                id="resolution-cost"
+                type="number"
+                min={0}
+                value={costBasisIdr}
+                onChange={e => setCostBasisIdr(e.target.value)}
+                placeholder="0"
+              />
+            </div>
+          )}
+
+          {kind === 'external' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="resolution-date">Tanggal pembelian</Label>
+                <Input
+                  id="resolution-date"
+                  type="date"
+                  value={acquiredAt}
+                  onChange={e => setAcquiredAt(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="resolution-reference">Referensi</Label>
+                <Input
+                  id="resolution-reference"
+                  value={reference}
+                  onChange={e => setReference(e.target.value)}
+                  placeholder="Nama exchange atau ID transaksi"
+                />
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>
+              Batal
+            </Button>
+            <Button onClick={handleSave} disabled={resolveMutation.isPending}>
+              {resolveMutation.isPending && <Spinner className="h-4 w-4 mr-2" />}
+              Simpan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
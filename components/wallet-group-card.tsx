@@ -0,0 +1,186 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Spinner } from '@/components/ui/spinner';
+import { Users } from 'lucide-react';
+import { trpc } from '@/lib/trpc/client';
+import type { WalletGroupWithMembers } from '@/lib/services/wallet-groups';
+
+interface WalletGroupCardProps {
+  walletAddress: string;
+  group: WalletGroupWithMembers | null;
+  calculateAsGroup: boolean;
+  onCalculateAsGroupChange: (value: boolean) => void;
+  onChanged: () => void;
+}
+
+// Helper to shorten a wallet address
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+export function WalletGroupCard({
+  walletAddress,
+  group,
+  calculateAsGroup,
+  onCalculateAsGroupChange,
+  onChanged,
+}: WalletGroupCardProps) {
+  const [name, setName] = useState('');
+  const [memberAddress, setMemberAddress] = useState('');
+  const [label, setLabel] = useState('');
+  const [error, setError] = useState('');
+
+  const createMutation = trpc.walletGroups.create.useMutation();
+  const addMemberMutation = trpc.walletGroups.addMember.useMutation();
+  const removeMemberMutation = trpc.walletGroups.removeMember.useMutation();
+
+  const handleCreate = async () => {
+    setError('');
+    try {
+      await createMutation.mutateAsync({ walletAddress, name: name || 'Wallet Saya' });
+      setName('');
+      onChanged();
+    } catch (error) {
+      console.error('Error creating wallet group:', error);
+      setError(error instanceof Error ? error.message : 'Gagal membuat grup');
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!group) return;
+
+    setError('');
+    try {
+      await addMemberMutation.mutateAsync({
+        walletAddress,
+        groupId: group.id,
+        memberAddress: memberAddress.trim(),
+        label: label || undefined,
+      });
+      setMemberAddress('');
+      setLabel('');
+      onChanged();
+    } catch (error) {
+      console.error('Error adding wallet to group:', error);
+      setError(error instanceof Error ? error.message : 'Gagal menambah wallet');
+    }
+  };
+
+  const handleRemoveMember = async (address: string) => {
+    if (!group) return;
+
+    setError('');
+    try {
+      await removeMemberMutation.mutateAsync({ walletAddress, groupId: group.id, memberAddress: address });
+      onChanged();
+    } catch (error) {
+      console.error('Error removing wallet from group:', error);
+      setError(error instanceof Error ? error.message : 'Gagal menghapus wallet');
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Grup Wallet
+        </CardTitle>
+        <CardDescription>
+          Hubungkan wallet lain milik Anda. Transfer antar wallet dalam satu grup
+          hanya memindahkan token beserta cost basis-nya, bukan penjualan.
+          Wallet yang ditambahkan harus sudah masuk dengan tanda tangannya
+          sendiri di browser ini.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!group ? (
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Nama grup"
+            />
+            <Button onClick={handleCreate} disabled={createMutation.isPending}>
+              {createMutation.isPending && <Spinner className="h-4 w-4 mr-2" />}
+              Buat Grup
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{group.name}</span>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="calculate-as-group"
+                  checked={calculateAsGroup}
+                  onCheckedChange={onCalculateAsGroupChange}
+                />
+                <Label htmlFor="calculate-as-group">Hitung sebagai grup</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {group.members.map(member => (
+                <div key={member.walletAddress} className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm">{shortAddress(member.walletAddress)}</span>
+                    {member.label && <Badge variant="secondary">{member.label}</Badge>}
+                    {member.walletAddress === walletAddress && <Badge variant="outline">Terhubung</Badge>}
+                  </div>
+                  {member.walletAddress !== walletAddress && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRemoveMember(member.walletAddress)}
+                      disabled={removeMemberMutation.isPending}
+                    >
+                      Hapus
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                value={memberAddress}
+                onChange={e => setMemberAddress(e.target.value)}
+                placeholder="Alamat wallet"
+                className="font-mono"
+              />
+              <Input
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+                placeholder="Label (opsional)"
+                className="max-w-[180px]"
+              />
+              <Button
+                onClick={handleAddMember}
+                disabled={!memberAddress.trim() || addMemberMutation.isPending}
+              >
+                {addMemberMutation.isPending && <Spinner className="h-4 w-4 mr-2" />}
+                Tambah
+              </Button>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
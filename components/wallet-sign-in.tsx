@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { ShieldCheck } from 'lucide-react';
+import { trpc } from '@/lib/trpc/client';
+
+interface WalletSignInProps {
+  walletAddress: string;
+  isCheckingSession: boolean;
+  onSignedIn: () => void;
+  onViewOnly: () => void;
+}
+
+// Helper to encode a signature for the sign-in request
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function WalletSignIn({ walletAddress, isCheckingSession, onSignedIn, onViewOnly }: WalletSignInProps) {
+  const { signMessage } = useWallet();
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState('');
+
+  const requestSignInMutation = trpc.auth.requestSignIn.useMutation();
+  const signInMutation = trpc.auth.signIn.useMutation();
+
+  // Sign the server's one-time message to prove the wallet is ours
+  const handleSignIn = async () => {
+    if (!signMessage) {
+      setError('Wallet ini tidak mendukung penandatanganan pesan');
+      return;
+    }
+
+    setError('');
+    setIsSigning(true);
+    try {
+      const { nonce, message } = await requestSignInMutation.mutateAsync({ walletAddress });
+      const signature = await signMessage(new TextEncoder().encode(message));
+      await signInMutation.mutateAsync({ walletAddress, nonce, signature: toBase64(signature) });
+      onSignedIn();
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setError(error instanceof Error ? error.message : 'Gagal masuk');
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  if (isCheckingSession) {
+    return (
+      <div className="max-w-xl mx-auto text-center py-16">
+        <Spinner className="h-8 w-8 text-primary mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl mx-auto text-center py-16">
+      <div className="h-16 w-16 rounded-2xl bg-primary/20 flex items-center justify-center mx-auto mb-6">
+        <ShieldCheck className="h-8 w-8 text-primary" />
+      </div>
+      <h2 className="text-2xl font-bold mb-2">Verifikasi Wallet</h2>
+      <p className="text-muted-foreground mb-8">
+        Tanda tangani pesan dari Taxana untuk membuktikan bahwa wallet ini milik
+        Anda. Tidak ada transaksi yang dikirim dan tidak ada biaya.
+      </p>
+      {signMessage ? (
+        <Button size="lg" onClick={handleSignIn} disabled={isSigning}>
+          {isSigning && <Spinner className="h-4 w-4 mr-2" />}
+          Tanda Tangani &amp; Masuk
+        </Button>
+      ) : (
+        // Hardware wallets such as Ledger can only sign transactions
+        <>
+          <p className="text-sm text-muted-foreground mb-4">
+            Wallet ini tidak mendukung penandatanganan pesan. Anda tetap bisa
+            melihat laporannya dari data on-chain publik.
+          </p>
+          <Button size="lg" variant="outline" onClick={onViewOnly}>
+            Lanjutkan dalam Mode Lihat Saja
+          </Button>
+        </>
+      )}
+      {error && <p className="text-sm text-destructive mt-4">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+CREATE TABLE "fx_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"effective_from" date NOT NULL,
+	"effective_to" date NOT NULL,
+	"rate_idr" numeric(20, 4) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "fx_rates_period_unique" UNIQUE("currency","source","effective_from")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_fx_rates_lookup" ON "fx_rates" USING btree ("currency","effective_from");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "lot_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"year" integer NOT NULL,
+	"method" varchar(10) NOT NULL,
+	"valuation" varchar(10) NOT NULL,
+	"token_address" varchar(44) NOT NULL,
+	"amount" numeric(20, 8) NOT NULL,
+	"cost_basis_usd" numeric(20, 8) NOT NULL,
+	"cost_basis_idr" numeric(20, 2) NOT NULL,
+	"acquired_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "idx_lot_snapshots_lookup" ON "lot_snapshots" USING btree ("wallet_address","method","valuation","year");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "cost_basis_resolutions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"signature" varchar(88) NOT NULL,
+	"token_address" varchar(44) NOT NULL,
+	"kind" varchar(20) NOT NULL,
+	"cost_basis_idr" numeric(20, 2) NOT NULL,
+	"acquired_at" timestamp,
+	"reference" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "cost_basis_resolutions_disposal_unique" UNIQUE("wallet_address","signature")
+);
@@ -0,0 +1,31 @@
+CREATE TABLE "override_audit" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"override_type" varchar(20) NOT NULL,
+	"override_id" uuid NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"token_address" varchar(44) NOT NULL,
+	"signature" varchar(88),
+	"timestamp" timestamp,
+	"action" varchar(10) NOT NULL,
+	"old_value" numeric(20, 8),
+	"new_value" numeric(20, 8),
+	"changed_by" varchar(44) NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "price_overrides" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"token_address" varchar(44) NOT NULL,
+	"signature" varchar(88),
+	"timestamp" timestamp,
+	"price_usd" numeric(20, 8) NOT NULL,
+	"note" text,
+	"created_by" varchar(44) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "price_overrides_signature_unique" UNIQUE("wallet_address","token_address","signature"),
+	CONSTRAINT "price_overrides_timestamp_unique" UNIQUE("wallet_address","token_address","timestamp")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_override_audit_wallet" ON "override_audit" USING btree ("wallet_address","changed_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "lot_snapshots" ADD COLUMN "inbound_cost_basis" varchar(10) DEFAULT 'zero' NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "counterparty" varchar(44);
\ No newline at end of file
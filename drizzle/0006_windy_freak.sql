@@ -0,0 +1,24 @@
+CREATE TABLE "wallet_group_members" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"group_id" uuid NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"label" varchar(100),
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "wallet_group_members_wallet_address_unique" UNIQUE("wallet_address")
+);
+--> statement-breakpoint
+CREATE TABLE "wallet_groups" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" DROP CONSTRAINT "transactions_signature_unique";--> statement-breakpoint
+DROP INDEX "idx_lot_snapshots_lookup";--> statement-breakpoint
+-- Snapshots are a cache: drop them rather than guess a scope for old rows
+DELETE FROM "lot_snapshots";--> statement-breakpoint
+ALTER TABLE "lot_snapshots" ADD COLUMN "scope" varchar(64) NOT NULL;--> statement-breakpoint
+ALTER TABLE "wallet_group_members" ADD CONSTRAINT "wallet_group_members_group_id_wallet_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."wallet_groups"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_wallet_group_members_group" ON "wallet_group_members" USING btree ("group_id");--> statement-breakpoint
+CREATE INDEX "idx_lot_snapshots_lookup" ON "lot_snapshots" USING btree ("scope","method","valuation","year");--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_wallet_signature_unique" UNIQUE("wallet_address","signature");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "transactions" ADD COLUMN "network_fee_lamports" bigint;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "priority_fee_lamports" bigint;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "platform_fee_amount" numeric(20, 8);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "platform_fee_token" varchar(44);
\ No newline at end of file
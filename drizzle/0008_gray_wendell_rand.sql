@@ -0,0 +1,13 @@
+CREATE TABLE "transaction_legs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"direction" varchar(3) NOT NULL,
+	"mint" varchar(44) NOT NULL,
+	"symbol" varchar(20),
+	"amount" numeric(20, 8) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "transaction_legs_transaction_mint_unique" UNIQUE("transaction_id","mint")
+);
+--> statement-breakpoint
+ALTER TABLE "transaction_legs" ADD CONSTRAINT "transaction_legs_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_transaction_legs_transaction" ON "transaction_legs" USING btree ("transaction_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "transactions" ADD COLUMN "parser_version" integer;
\ No newline at end of file
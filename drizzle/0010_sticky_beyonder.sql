@@ -0,0 +1,12 @@
+CREATE TABLE "sync_state" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"newest_signature" varchar(88),
+	"oldest_signature" varchar(88),
+	"pending_newest_signature" varchar(88),
+	"gap_before_signature" varchar(88),
+	"backfill_complete" boolean DEFAULT false NOT NULL,
+	"last_synced_at" timestamp,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "sync_state_wallet_address_unique" UNIQUE("wallet_address")
+);
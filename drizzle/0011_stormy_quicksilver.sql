@@ -0,0 +1,19 @@
+CREATE TABLE "jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"input" jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"progress" jsonb,
+	"result" jsonb,
+	"error" text,
+	"cancel_requested" boolean DEFAULT false NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"heartbeat_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "idx_jobs_status" ON "jobs" USING btree ("status","created_at");--> statement-breakpoint
+CREATE INDEX "idx_jobs_wallet" ON "jobs" USING btree ("wallet_address","created_at");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "token_metadata" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"mint" varchar(44) NOT NULL,
+	"symbol" varchar(20),
+	"name" varchar(100),
+	"decimals" integer,
+	"logo_uri" text,
+	"verified" boolean DEFAULT false NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "token_metadata_mint_unique" UNIQUE("mint")
+);
@@ -0,0 +1,21 @@
+ALTER TABLE "lot_snapshots" ALTER COLUMN "amount" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "lot_snapshots" ALTER COLUMN "cost_basis_usd" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "lot_snapshots" ALTER COLUMN "cost_basis_idr" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "override_audit" ALTER COLUMN "old_value" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "override_audit" ALTER COLUMN "new_value" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "price_overrides" ALTER COLUMN "price_usd" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "token_prices" ALTER COLUMN "price_usd" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "transaction_legs" ALTER COLUMN "amount" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "transactions" ALTER COLUMN "from_amount" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "transactions" ALTER COLUMN "to_amount" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "transactions" ALTER COLUMN "platform_fee_amount" SET DATA TYPE numeric;--> statement-breakpoint
+ALTER TABLE "transaction_legs" ADD COLUMN "amount_raw" numeric(40, 0);--> statement-breakpoint
+ALTER TABLE "transaction_legs" ADD COLUMN "decimals" integer;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "from_amount_raw" numeric(40, 0);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "from_decimals" integer;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "to_amount_raw" numeric(40, 0);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "to_decimals" integer;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "platform_fee_amount_raw" numeric(40, 0);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "platform_fee_decimals" integer;--> statement-breakpoint
+-- Year-end lots were stored rounded; they are rebuilt exactly on the next calculation
+DELETE FROM "lot_snapshots";
\ No newline at end of file
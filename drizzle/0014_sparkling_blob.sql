@@ -0,0 +1,36 @@
+CREATE TABLE "auth_nonces" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"nonce" varchar(64) NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"message" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "auth_nonces_nonce_unique" UNIQUE("nonce")
+);
+--> statement-breakpoint
+CREATE TABLE "session_users" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "session_users_session_user_unique" UNIQUE("session_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "sessions_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_sign_in_at" timestamp,
+	CONSTRAINT "users_wallet_address_unique" UNIQUE("wallet_address")
+);
+--> statement-breakpoint
+ALTER TABLE "session_users" ADD CONSTRAINT "session_users_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_users" ADD CONSTRAINT "session_users_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "lp_positions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"position" varchar(44) NOT NULL,
+	"protocol" varchar(20) NOT NULL,
+	"mints" jsonb NOT NULL,
+	"opened_at" timestamp NOT NULL,
+	"last_activity_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "lp_positions_wallet_position_unique" UNIQUE("wallet_address","position")
+);
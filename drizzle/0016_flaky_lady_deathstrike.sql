@@ -0,0 +1,9 @@
+CREATE TABLE "inbound_classifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"signature" varchar(88) NOT NULL,
+	"kind" varchar(20) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "inbound_classifications_transfer_unique" UNIQUE("wallet_address","signature")
+);
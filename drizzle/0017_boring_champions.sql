@@ -0,0 +1,18 @@
+CREATE TABLE "hidden_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(44) NOT NULL,
+	"token_address" varchar(44) NOT NULL,
+	"hidden" boolean NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "hidden_tokens_wallet_token_unique" UNIQUE("wallet_address","token_address")
+);
+--> statement-breakpoint
+CREATE TABLE "token_markets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"mint" varchar(44) NOT NULL,
+	"liquidity_usd" numeric NOT NULL,
+	"price_usd" numeric,
+	"checked_at" timestamp NOT NULL,
+	CONSTRAINT "token_markets_mint_unique" UNIQUE("mint")
+);
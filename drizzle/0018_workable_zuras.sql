@@ -0,0 +1 @@
+ALTER TABLE "sync_state" ADD COLUMN "lending_account_cursors" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
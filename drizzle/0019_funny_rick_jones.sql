@@ -0,0 +1,2 @@
+ALTER TABLE "cost_basis_resolutions" DROP CONSTRAINT "cost_basis_resolutions_disposal_unique";--> statement-breakpoint
+ALTER TABLE "cost_basis_resolutions" ADD CONSTRAINT "cost_basis_resolutions_disposal_unique" UNIQUE("wallet_address","signature","token_address");
\ No newline at end of file
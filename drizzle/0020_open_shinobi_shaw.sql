@@ -0,0 +1,2 @@
+ALTER TABLE "transactions" ADD COLUMN "receipt_price_usd" numeric;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "receipt_priced_at" timestamp;
\ No newline at end of file
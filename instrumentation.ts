@@ -0,0 +1,7 @@
+// Start the background job runner once the Node.js server is up
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startJobRunner } = await import('@/lib/services/jobs');
+    startJobRunner();
+  }
+}
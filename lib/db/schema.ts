@@ -1,32 +1,129 @@
-import { pgTable, uuid, varchar, timestamp, decimal, jsonb, integer, text, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, timestamp, decimal, jsonb, integer, bigint, boolean, text, index, date, unique } from 'drizzle-orm/pg-core';
 
 // Cache for transaction data
 export const transactions = pgTable('transactions', {
   id: uuid('id').primaryKey().defaultRandom(),
   walletAddress: varchar('wallet_address', { length: 44 }).notNull(),
-  signature: varchar('signature', { length: 88 }).unique().notNull(),
+  signature: varchar('signature', { length: 88 }).notNull(),
   timestamp: timestamp('timestamp').notNull(),
-  type: varchar('type', { length: 20 }), // 'swap', 'transfer', etc.
+  // 'swap', 'transfer_in', 'transfer_out', 'stake', 'unstake', 'lp_deposit',
+  // 'lp_withdraw', 'lend_deposit', 'lend_withdraw', 'lend_borrow', 'lend_repay',
+  // 'lend_liquidation', 'airdrop'
+  type: varchar('type', { length: 20 }),
   fromToken: varchar('from_token', { length: 44 }),
-  fromAmount: decimal('from_amount', { precision: 20, scale: 8 }),
+  // Amounts are exact decimals of the raw integer amount (in the token's base
+  // units) and its decimals, which are null for rows parsed before they were kept
+  fromAmount: decimal('from_amount'),
+  fromAmountRaw: decimal('from_amount_raw', { precision: 40, scale: 0 }),
+  fromDecimals: integer('from_decimals'),
   fromSymbol: varchar('from_symbol', { length: 20 }),
   toToken: varchar('to_token', { length: 44 }),
-  toAmount: decimal('to_amount', { precision: 20, scale: 8 }),
+  toAmount: decimal('to_amount'),
+  toAmountRaw: decimal('to_amount_raw', { precision: 40, scale: 0 }),
+  toDecimals: integer('to_decimals'),
   toSymbol: varchar('to_symbol', { length: 20 }),
-  dex: varchar('dex', { length: 20 }), // 'jupiter', 'raydium', 'orca'
+  dex: varchar('dex', { length: 20 }), // 'jupiter', 'raydium', 'orca'; staking, liquidity or lending protocol; airdrop distributor
+  counterparty: varchar('counterparty', { length: 44 }), // other wallet of a transfer, stake account, LP position or lending account
+  // Fees paid by the wallet: network fees only when it is the fee payer
+  networkFeeLamports: bigint('network_fee_lamports', { mode: 'number' }),
+  priorityFeeLamports: bigint('priority_fee_lamports', { mode: 'number' }),
+  platformFeeAmount: decimal('platform_fee_amount'), // e.g. Jupiter platform fee
+  platformFeeAmountRaw: decimal('platform_fee_amount_raw', { precision: 40, scale: 0 }),
+  platformFeeDecimals: integer('platform_fee_decimals'),
+  platformFeeToken: varchar('platform_fee_token', { length: 44 }),
+  parserVersion: integer('parser_version'), // parser that produced the columns above
+  // USD price of an inbound transfer's token on receipt, for the dust rule:
+  // valued once when syncing (null when no price was found, or not valued yet
+  // while `receiptPricedAt` is null)
+  receiptPriceUsd: decimal('receipt_price_usd'),
+  receiptPricedAt: timestamp('receipt_priced_at'),
   rawData: jsonb('raw_data'),
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => [
+  // A transfer between two tracked wallets is stored once per wallet
+  unique('transactions_wallet_signature_unique').on(table.walletAddress, table.signature),
   index('idx_transactions_wallet').on(table.walletAddress),
   index('idx_transactions_timestamp').on(table.timestamp),
 ]);
 
+// Net movement of each mint in or out of the wallet per transaction. The
+// transaction's from/to side holds the main legs; refunds are netted and
+// leftover dust of intermediate route tokens is kept here.
+export const transactionLegs = pgTable('transaction_legs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  transactionId: uuid('transaction_id').notNull().references(() => transactions.id, { onDelete: 'cascade' }),
+  direction: varchar('direction', { length: 3 }).notNull(), // 'in', 'out'
+  mint: varchar('mint', { length: 44 }).notNull(),
+  symbol: varchar('symbol', { length: 20 }),
+  amount: decimal('amount').notNull(),
+  amountRaw: decimal('amount_raw', { precision: 40, scale: 0 }),
+  decimals: integer('decimals'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  unique('transaction_legs_transaction_mint_unique').on(table.transactionId, table.mint),
+  index('idx_transaction_legs_transaction').on(table.transactionId),
+]);
+
+// How far each wallet's history has been fetched from Helius. Refresh fetches
+// transactions newer than `newestSignature`, then continues the backfill
+// before `oldestSignature` until the start of the history.
+// Where the liquidation scan of a lending account is: its history down to
+// `newest` was scanned. An interrupted scan resumes before `gapBefore`, and
+// `pendingNewest` becomes `newest` once the gap is scanned.
+export interface LendingAccountCursor {
+  newest?: string;
+  pendingNewest?: string;
+  gapBefore?: string;
+}
+
+export const syncState = pgTable('sync_state', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull().unique(),
+  newestSignature: varchar('newest_signature', { length: 88 }),
+  oldestSignature: varchar('oldest_signature', { length: 88 }),
+  // An interrupted fetch of new transactions: it resumes before
+  // `gapBeforeSignature`, and `pendingNewestSignature` becomes the newest
+  // signature once the gap down to `newestSignature` is filled
+  pendingNewestSignature: varchar('pending_newest_signature', { length: 88 }),
+  gapBeforeSignature: varchar('gap_before_signature', { length: 88 }),
+  backfillComplete: boolean('backfill_complete').notNull().default(false),
+  // Liquidation scan of each lending account of the wallet; liquidations are
+  // in the account's history, not the wallet's
+  lendingAccountCursors: jsonb('lending_account_cursors').$type<Record<string, LendingAccountCursor>>().notNull().default({}),
+  lastSyncedAt: timestamp('last_synced_at'),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Symbol, name and decimals per mint, from the Jupiter token list, on-chain
+// Metaplex metadata or an imported token list file
+export const tokenMetadata = pgTable('token_metadata', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  mint: varchar('mint', { length: 44 }).notNull().unique(),
+  symbol: varchar('symbol', { length: 20 }),
+  name: varchar('name', { length: 100 }),
+  decimals: integer('decimals'),
+  logoUri: text('logo_uri'),
+  verified: boolean('verified').notNull().default(false),
+  source: varchar('source', { length: 20 }).notNull(), // 'jupiter', 'metaplex', 'file'
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// DEX market of a token as DexScreener reports it, for the spam filter:
+// liquidity of all its pools, and the spot price of the most liquid one
+export const tokenMarkets = pgTable('token_markets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  mint: varchar('mint', { length: 44 }).notNull().unique(),
+  liquidityUsd: decimal('liquidity_usd').notNull(), // 0 without any pool
+  priceUsd: decimal('price_usd'),
+  checkedAt: timestamp('checked_at').notNull(),
+});
+
 // Cache for price data
 export const tokenPrices = pgTable('token_prices', {
   id: uuid('id').primaryKey().defaultRandom(),
   tokenAddress: varchar('token_address', { length: 44 }).notNull(),
   timestamp: timestamp('timestamp').notNull(),
-  priceUsd: decimal('price_usd', { precision: 20, scale: 8 }),
+  priceUsd: decimal('price_usd'),
   priceIdr: decimal('price_idr', { precision: 20, scale: 2 }),
   source: varchar('source', { length: 20 }), // 'birdeye', 'dexscreener', 'coingecko'
   createdAt: timestamp('created_at').defaultNow(),
@@ -34,6 +131,214 @@ export const tokenPrices = pgTable('token_prices', {
   index('idx_token_prices_lookup').on(table.tokenAddress, table.timestamp),
 ]);
 
+// Official USD/IDR rates: KMK weekly tax rates and Bank Indonesia JISDOR daily rates
+export const fxRates = pgTable('fx_rates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  currency: varchar('currency', { length: 3 }).notNull(), // 'USD'
+  source: varchar('source', { length: 20 }).notNull(), // 'kmk', 'jisdor'
+  effectiveFrom: date('effective_from').notNull(),
+  effectiveTo: date('effective_to').notNull(),
+  rateIdr: decimal('rate_idr', { precision: 20, scale: 4 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  unique('fx_rates_period_unique').on(table.currency, table.source, table.effectiveFrom),
+  index('idx_fx_rates_lookup').on(table.currency, table.effectiveFrom),
+]);
+
+// Wallets belonging to the same person, taxed together
+export const walletGroups = pgTable('wallet_groups', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// A wallet belongs to at most one group
+export const walletGroupMembers = pgTable('wallet_group_members', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  groupId: uuid('group_id').notNull().references(() => walletGroups.id, { onDelete: 'cascade' }),
+  walletAddress: varchar('wallet_address', { length: 44 }).unique().notNull(),
+  label: varchar('label', { length: 100 }),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_wallet_group_members_group').on(table.groupId),
+]);
+
+// Open lots at the end of a tax year, so the next year can start from them
+// instead of replaying the wallet's whole history
+export const lotSnapshots = pgTable('lot_snapshots', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  scope: varchar('scope', { length: 64 }).notNull(), // wallet address, 'group:<id>' or 'view:<address>'; open loans add ':loans'
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull(), // lot owner
+  year: integer('year').notNull(), // lots open on Dec 31 of this year
+  method: varchar('method', { length: 10 }).notNull(), // 'fifo', 'lifo', 'hifo', 'average'
+  valuation: varchar('valuation', { length: 10 }).notNull(), // 'market', 'implied'
+  inboundCostBasis: varchar('inbound_cost_basis', { length: 10 }).notNull().default('zero'), // 'zero', 'market'
+  tokenAddress: varchar('token_address', { length: 44 }).notNull(),
+  // Unrounded, so the next year continues from the exact values
+  amount: decimal('amount').notNull(),
+  costBasisUsd: decimal('cost_basis_usd').notNull(),
+  costBasisIdr: decimal('cost_basis_idr').notNull(),
+  acquiredAt: timestamp('acquired_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_lot_snapshots_lookup').on(table.scope, table.method, table.valuation, table.year),
+]);
+
+// Liquidity pool positions a wallet deposited into or withdrew from. Lots of a
+// position are held under `position`: the pool's LP token, or the pool itself
+// for concentrated liquidity positions, which have no fungible LP token.
+export const lpPositions = pgTable('lp_positions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull(),
+  position: varchar('position', { length: 44 }).notNull(), // LP token mint, or pool address
+  protocol: varchar('protocol', { length: 20 }).notNull(), // 'raydium', 'orca', 'meteora'
+  mints: jsonb('mints').$type<string[]>().notNull(), // pool tokens moved in or out
+  openedAt: timestamp('opened_at').notNull(), // earliest liquidity transaction seen
+  lastActivityAt: timestamp('last_activity_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  unique('lp_positions_wallet_position_unique').on(table.walletAddress, table.position),
+]);
+
+// User-supplied cost basis for disposals with no known acquisition
+export const costBasisResolutions = pgTable('cost_basis_resolutions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull(),
+  signature: varchar('signature', { length: 88 }).notNull(), // the disposal
+  tokenAddress: varchar('token_address', { length: 44 }).notNull(),
+  kind: varchar('kind', { length: 20 }).notNull(), // 'manual', 'airdrop', 'external'
+  costBasisIdr: decimal('cost_basis_idr', { precision: 20, scale: 2 }).notNull(), // for the unmatched amount
+  acquiredAt: timestamp('acquired_at'), // external acquisitions
+  reference: text('reference'), // e.g. exchange name or transaction id of the external acquisition
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  // One per token disposed of: a pool deposit can dispose of two
+  unique('cost_basis_resolutions_disposal_unique').on(table.walletAddress, table.signature, table.tokenAddress),
+]);
+
+// User classification of an inbound transfer as income (airdrop or reward),
+// or back to a plain transfer for one the parser detected as an airdrop
+export const inboundClassifications = pgTable('inbound_classifications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull(),
+  signature: varchar('signature', { length: 88 }).notNull(), // the inbound transfer
+  kind: varchar('kind', { length: 20 }).notNull(), // 'transfer', 'airdrop', 'reward'
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  unique('inbound_classifications_transfer_unique').on(table.walletAddress, table.signature),
+]);
+
+// A wallet's own spam choices: tokens it hides, and tokens it shows despite
+// the automatic spam filter
+export const hiddenTokens = pgTable('hidden_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull(),
+  tokenAddress: varchar('token_address', { length: 44 }).notNull(),
+  hidden: boolean('hidden').notNull(), // false: shown, never filtered as spam
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  unique('hidden_tokens_wallet_token_unique').on(table.walletAddress, table.tokenAddress),
+]);
+
+// User-provided token prices, used in priority over price providers.
+// Scoped to a single transaction (signature) or to a point in time (timestamp).
+export const priceOverrides = pgTable('price_overrides', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull(),
+  tokenAddress: varchar('token_address', { length: 44 }).notNull(),
+  signature: varchar('signature', { length: 88 }),
+  timestamp: timestamp('timestamp'),
+  priceUsd: decimal('price_usd').notNull(),
+  note: text('note'),
+  createdBy: varchar('created_by', { length: 44 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  unique('price_overrides_signature_unique').on(table.walletAddress, table.tokenAddress, table.signature),
+  unique('price_overrides_timestamp_unique').on(table.walletAddress, table.tokenAddress, table.timestamp),
+]);
+
+// Every change to a price override or cost basis resolution
+export const overrideAudit = pgTable('override_audit', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  overrideType: varchar('override_type', { length: 20 }).notNull(), // 'price', 'cost_basis'
+  overrideId: uuid('override_id').notNull(), // kept after the override is deleted
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull(),
+  tokenAddress: varchar('token_address', { length: 44 }).notNull(),
+  signature: varchar('signature', { length: 88 }),
+  timestamp: timestamp('timestamp'),
+  action: varchar('action', { length: 10 }).notNull(), // 'create', 'update', 'delete'
+  oldValue: decimal('old_value'), // USD price, or IDR cost basis
+  newValue: decimal('new_value'),
+  changedBy: varchar('changed_by', { length: 44 }).notNull(),
+  changedAt: timestamp('changed_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_override_audit_wallet').on(table.walletAddress, table.changedAt),
+]);
+
+// Background work (syncing a wallet, calculating a tax year), run by the job
+// runner in the server process. A running job whose heartbeat stops, e.g.
+// after a server restart, is picked up again.
+export const jobs = pgTable('jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  type: varchar('type', { length: 20 }).notNull(), // 'sync', 'calculate'
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull(),
+  input: jsonb('input').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // 'pending', 'running', 'completed', 'failed', 'cancelled'
+  progress: jsonb('progress'),
+  result: jsonb('result'), // superjson-serialized
+  error: text('error'),
+  cancelRequested: boolean('cancel_requested').notNull().default(false),
+  attempts: integer('attempts').notNull().default(0),
+  heartbeatAt: timestamp('heartbeat_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  startedAt: timestamp('started_at'),
+  finishedAt: timestamp('finished_at'),
+}, (table) => [
+  index('idx_jobs_status').on(table.status, table.createdAt),
+  index('idx_jobs_wallet').on(table.walletAddress, table.createdAt),
+]);
+
+// Account of a wallet, created when it first signs in
+export const users = pgTable('users', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull().unique(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  lastSignInAt: timestamp('last_sign_in_at'),
+});
+
+// Sign-in messages handed out for a wallet to sign; each can be used once
+export const authNonces = pgTable('auth_nonces', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  nonce: varchar('nonce', { length: 64 }).notNull().unique(),
+  walletAddress: varchar('wallet_address', { length: 44 }).notNull(),
+  message: text('message').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Browser sessions, identified by the SHA-256 hash of the cookie token. A
+// session owns every wallet that signed in on it.
+export const sessions = pgTable('sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const sessionUsers = pgTable('session_users', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').notNull().references(() => sessions.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('session_users_session_user_unique').on(table.sessionId, table.userId),
+]);
+
 // Cache for generated reports
 export const reports = pgTable('reports', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -48,7 +353,45 @@ export const reports = pgTable('reports', {
 // Types for TypeScript
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
+export type TransactionLeg = typeof transactionLegs.$inferSelect;
+export type NewTransactionLeg = typeof transactionLegs.$inferInsert;
+export type SyncState = typeof syncState.$inferSelect;
+export type NewSyncState = typeof syncState.$inferInsert;
+export type TokenMetadata = typeof tokenMetadata.$inferSelect;
+export type NewTokenMetadata = typeof tokenMetadata.$inferInsert;
+export type TokenMarket = typeof tokenMarkets.$inferSelect;
+export type NewTokenMarket = typeof tokenMarkets.$inferInsert;
 export type TokenPrice = typeof tokenPrices.$inferSelect;
 export type NewTokenPrice = typeof tokenPrices.$inferInsert;
+export type FxRate = typeof fxRates.$inferSelect;
+export type NewFxRate = typeof fxRates.$inferInsert;
+export type WalletGroup = typeof walletGroups.$inferSelect;
+export type NewWalletGroup = typeof walletGroups.$inferInsert;
+export type WalletGroupMember = typeof walletGroupMembers.$inferSelect;
+export type NewWalletGroupMember = typeof walletGroupMembers.$inferInsert;
+export type LotSnapshot = typeof lotSnapshots.$inferSelect;
+export type NewLotSnapshot = typeof lotSnapshots.$inferInsert;
+export type LpPosition = typeof lpPositions.$inferSelect;
+export type NewLpPosition = typeof lpPositions.$inferInsert;
+export type CostBasisResolution = typeof costBasisResolutions.$inferSelect;
+export type NewCostBasisResolution = typeof costBasisResolutions.$inferInsert;
+export type InboundClassification = typeof inboundClassifications.$inferSelect;
+export type NewInboundClassification = typeof inboundClassifications.$inferInsert;
+export type HiddenToken = typeof hiddenTokens.$inferSelect;
+export type NewHiddenToken = typeof hiddenTokens.$inferInsert;
+export type PriceOverride = typeof priceOverrides.$inferSelect;
+export type NewPriceOverride = typeof priceOverrides.$inferInsert;
+export type OverrideAudit = typeof overrideAudit.$inferSelect;
+export type NewOverrideAudit = typeof overrideAudit.$inferInsert;
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+export type AuthNonce = typeof authNonces.$inferSelect;
+export type NewAuthNonce = typeof authNonces.$inferInsert;
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
+export type SessionUser = typeof sessionUsers.$inferSelect;
+export type NewSessionUser = typeof sessionUsers.$inferInsert;
 export type Report = typeof reports.$inferSelect;
 export type NewReport = typeof reports.$inferInsert;
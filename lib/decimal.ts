@@ -0,0 +1,23 @@
+import DecimalJs from 'decimal.js';
+
+// Decimal arithmetic for token amounts and money. A token amount has up to 20
+// integer digits and 18 decimals, so 50 significant digits keeps sums of them
+// and their products with prices exact.
+export const Decimal = DecimalJs.clone({ precision: 50, rounding: DecimalJs.ROUND_HALF_UP });
+export type Decimal = DecimalJs;
+
+export const ZERO = new Decimal(0);
+
+// Decimal of a numeric column or a provider price; missing values are 0
+export function toDecimal(value: string | number | null | undefined): Decimal {
+  if (value === null || value === undefined || value === '') {
+    return ZERO;
+  }
+  const decimal = new Decimal(value);
+  return decimal.isFinite() ? decimal : ZERO;
+}
+
+// Exact decimal string of an integer amount in the token's base units
+export function formatRawAmount(raw: bigint, decimals: number): string {
+  return new Decimal(raw.toString()).div(new Decimal(10).pow(decimals)).toFixed();
+}
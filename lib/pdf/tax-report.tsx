@@ -1,9 +1,78 @@
 import React from "react";
 import { Document, Page, Text, View, StyleSheet } from "@react-pdf/renderer";
+import type { TokenMetadata } from "@/lib/db/schema";
 import type {
   TaxSummary,
   TransactionTaxResult,
 } from "@/lib/services/tax-calculator";
+import { formatAppliedRates, formatTaxRate } from "@/lib/services/tax-rules";
+import {
+  COST_BASIS_METHOD_LABELS,
+  RESOLUTION_KIND_LABELS,
+  type CostBasisMethod,
+} from "@/lib/services/cost-basis";
+import { STAKING_PROTOCOL_LABELS } from "@/lib/services/staking";
+import { LP_PROTOCOL_LABELS } from "@/lib/services/liquidity";
+import { LENDING_PROTOCOL_LABELS } from "@/lib/services/lending";
+import {
+  AIRDROP_DISTRIBUTOR_LABELS,
+  INBOUND_KIND_LABELS,
+  type AirdropDistributor,
+} from "@/lib/services/airdrops";
+
+// How each cost basis method works, with the same worked example
+const METHOD_EXPLANATIONS: Record<
+  CostBasisMethod,
+  { description: string; costBasis: string; gain: string }
+> = {
+  fifo: {
+    description:
+      "Aset yang dibeli pertama akan dijual pertama. Setiap kali Anda menjual token, sistem akan menghitung cost basis dari pembelian paling awal yang belum terjual.",
+    costBasis: "8 x Rp 100.000 = Rp 800.000 (dari lot pertama)",
+    gain: "Rp 1.200.000 - Rp 800.000 = Rp 400.000",
+  },
+  lifo: {
+    description:
+      "Aset yang dibeli terakhir akan dijual pertama. Setiap kali Anda menjual token, sistem akan menghitung cost basis dari pembelian paling akhir yang belum terjual.",
+    costBasis:
+      "5 x Rp 120.000 + 3 x Rp 100.000 = Rp 900.000 (lot terakhir, lalu lot pertama)",
+    gain: "Rp 1.200.000 - Rp 900.000 = Rp 300.000",
+  },
+  hifo: {
+    description:
+      "Aset dengan harga beli per unit tertinggi akan dijual pertama. Setiap kali Anda menjual token, sistem akan menghitung cost basis dari lot termahal yang belum terjual.",
+    costBasis:
+      "5 x Rp 120.000 + 3 x Rp 100.000 = Rp 900.000 (lot termahal lebih dulu)",
+    gain: "Rp 1.200.000 - Rp 900.000 = Rp 300.000",
+  },
+  average: {
+    description:
+      "Semua pembelian suatu token digabung dan cost basis per unit adalah rata-rata tertimbang dari seluruh pembelian yang belum terjual.",
+    costBasis:
+      "8 x (Rp 1.600.000 / 15) = Rp 853.333 (harga rata-rata Rp 106.667)",
+    gain: "Rp 1.200.000 - Rp 853.333 = Rp 346.667",
+  },
+};
+
+// Short labels for the transaction table
+const TYPE_LABELS: Record<TransactionTaxResult["type"], string> = {
+  buy: "Beli",
+  sell: "Jual",
+  transfer_in: "Masuk",
+  transfer_out: "Keluar",
+  self_transfer: "Antar Wallet",
+  stake: "Stake",
+  unstake: "Unstake",
+  lp_deposit: "Setor LP",
+  lp_withdraw: "Tarik LP",
+  lend_deposit: "Setor Lending",
+  lend_withdraw: "Tarik Lending",
+  lend_borrow: "Pinjam",
+  lend_repay: "Bayar Pinjaman",
+  lend_liquidation: "Likuidasi",
+  airdrop: "Airdrop",
+  reward: "Reward",
+};
 
 // Helper to format IDR
 function formatIDR(amount: number): string {
@@ -24,6 +93,25 @@ function formatDate(date: Date): string {
   });
 }
 
+// Helper to get a token's symbol: the registry's, else the one stored with
+// the transaction
+function tokenSymbol(
+  tokens: Map<string, TokenMetadata>,
+  mint: string,
+  fallback: string
+): string {
+  return tokens.get(mint)?.symbol || fallback;
+}
+
+// Helper to name where income came from: the airdrop distributor, else the
+// shortened sending address
+function incomeSource(source: string): string {
+  return (
+    AIRDROP_DISTRIBUTOR_LABELS[source as AirdropDistributor] ||
+    (source ? `${source.slice(0, 4)}...${source.slice(-4)}` : "-")
+  );
+}
+
 // Styles
 const styles = StyleSheet.create({
   page: {
@@ -133,11 +221,12 @@ const styles = StyleSheet.create({
   },
   colDate: { width: "12%" },
   colType: { width: "8%" },
-  colFrom: { width: "20%" },
-  colTo: { width: "20%" },
-  colValue: { width: "15%" },
-  colGainLoss: { width: "15%" },
-  colTax: { width: "10%" },
+  colFrom: { width: "17%" },
+  colTo: { width: "17%" },
+  colValue: { width: "14%" },
+  colFee: { width: "10%" },
+  colGainLoss: { width: "13%" },
+  colTax: { width: "9%" },
   disclaimer: {
     marginTop: 30,
     padding: 10,
@@ -221,18 +310,25 @@ const styles = StyleSheet.create({
 });
 
 interface TaxReportPDFProps {
-  walletAddress: string;
+  walletAddresses: string[];
   year: number;
   taxSummary: TaxSummary;
+  tokens?: Map<string, TokenMetadata>; // token registry entries by mint
   generatedAt: Date;
 }
 
 export function TaxReportPDF({
-  walletAddress,
+  walletAddresses,
   year,
   taxSummary,
+  tokens = new Map(),
   generatedAt,
 }: TaxReportPDFProps) {
+  const methodLabel = COST_BASIS_METHOD_LABELS[taxSummary.costBasisMethod];
+  const methodExplanation = METHOD_EXPLANATIONS[taxSummary.costBasisMethod];
+  const pphRates = formatAppliedRates(taxSummary.taxRules, "pphSellRate");
+  const ppnRates = formatAppliedRates(taxSummary.taxRules, "ppnBuyRate");
+
   return (
     <Document>
       <Page size="A4" style={styles.page}>
@@ -242,10 +338,20 @@ export function TaxReportPDF({
           <Text style={styles.subtitle}>
             Laporan Pajak Crypto Solana - Tahun {year}
           </Text>
-          <Text style={styles.walletInfo}>Wallet: {walletAddress}</Text>
+          {walletAddresses.map((walletAddress) => (
+            <Text key={walletAddress} style={styles.walletInfo}>
+              Wallet: {walletAddress}
+            </Text>
+          ))}
           <Text style={styles.walletInfo}>
             Dibuat: {formatDate(generatedAt)}
           </Text>
+          {taxSummary.publicDataOnly && (
+            <Text style={styles.walletInfo}>
+              Mode lihat saja: dihitung hanya dari data on-chain publik, tanpa
+              harga manual dan cost basis yang diisi pemilik wallet.
+            </Text>
+          )}
         </View>
 
         {/* Summary Section */}
@@ -262,6 +368,33 @@ export function TaxReportPDF({
               <Text style={styles.summaryLabel}>Transaksi Beli / Jual</Text>
               <Text style={styles.summaryValue}>
                 {taxSummary.totalBuys} / {taxSummary.totalSells}
+                {taxSummary.totalTransfersIn + taxSummary.totalTransfersOut > 0
+                  ? ` (+${
+                      taxSummary.totalTransfersIn + taxSummary.totalTransfersOut
+                    } transfer)`
+                  : ""}
+                {taxSummary.totalSelfTransfers > 0
+                  ? ` (+${taxSummary.totalSelfTransfers} antar wallet)`
+                  : ""}
+                {taxSummary.totalStakes + taxSummary.totalUnstakes > 0
+                  ? ` (+${
+                      taxSummary.totalStakes + taxSummary.totalUnstakes
+                    } staking)`
+                  : ""}
+                {taxSummary.totalLpDeposits + taxSummary.totalLpWithdrawals > 0
+                  ? ` (+${
+                      taxSummary.totalLpDeposits + taxSummary.totalLpWithdrawals
+                    } likuiditas)`
+                  : ""}
+                {taxSummary.totalLendingTransactions > 0
+                  ? ` (+${taxSummary.totalLendingTransactions} lending)`
+                  : ""}
+                {taxSummary.totalIncomeReceipts > 0
+                  ? ` (+${taxSummary.totalIncomeReceipts} airdrop/reward)`
+                  : ""}
+                {taxSummary.totalHiddenTransactions > 0
+                  ? ` (${taxSummary.totalHiddenTransactions} spam/dust disembunyikan)`
+                  : ""}
               </Text>
             </View>
             <View style={styles.summaryCard}>
@@ -288,6 +421,12 @@ export function TaxReportPDF({
                 {formatIDR(taxSummary.totalLossIdr)}
               </Text>
             </View>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryLabel}>Total Biaya Transaksi</Text>
+              <Text style={styles.summaryValue}>
+                {formatIDR(taxSummary.totalFeesIdr)}
+              </Text>
+            </View>
           </View>
         </View>
 
@@ -295,7 +434,7 @@ export function TaxReportPDF({
         <View style={styles.section}>
           <View style={styles.summaryCard}>
             <Text style={styles.summaryLabel}>
-              Keuntungan/Kerugian Bersih (FIFO)
+              Keuntungan/Kerugian Bersih ({methodLabel})
             </Text>
             <Text
               style={
@@ -315,13 +454,17 @@ export function TaxReportPDF({
           <Text style={styles.sectionTitle}>Kewajiban Pajak</Text>
           <View style={styles.summaryGrid}>
             <View style={styles.summaryCard}>
-              <Text style={styles.summaryLabel}>PPh Final (0.2%)</Text>
+              <Text style={styles.summaryLabel}>
+                PPh Final{pphRates ? ` (${pphRates})` : ""}
+              </Text>
               <Text style={styles.summaryValue}>
                 {formatIDR(taxSummary.totalPphTax)}
               </Text>
             </View>
             <View style={styles.summaryCard}>
-              <Text style={styles.summaryLabel}>PPN (0.22%)</Text>
+              <Text style={styles.summaryLabel}>
+                PPN{ppnRates ? ` (${ppnRates})` : ""}
+              </Text>
               <Text style={styles.summaryValue}>
                 {formatIDR(taxSummary.totalPpnTax)}
               </Text>
@@ -337,15 +480,264 @@ export function TaxReportPDF({
           </Text>
         </View>
 
+        {/* Disposals without acquisition history */}
+        {taxSummary.unmatchedDisposals.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Penjualan Tanpa Riwayat Pembelian
+            </Text>
+            <Text style={styles.explanationText}>
+              Jumlah token yang dijual melebihi pembelian yang tercatat di
+              wallet ini. Bagian yang belum diselesaikan dihitung dengan cost
+              basis Rp 0.
+            </Text>
+            <View style={styles.tableHeader}>
+              <Text style={styles.colDate}>Tanggal</Text>
+              <Text style={styles.colFrom}>Token</Text>
+              <Text style={styles.colValue}>Hasil Jual (IDR)</Text>
+              <Text style={styles.colGainLoss}>Cost Basis (IDR)</Text>
+              <Text style={styles.colTo}>Status</Text>
+            </View>
+            {taxSummary.unmatchedDisposals.map((disposal, index) => (
+              <View
+                key={disposal.signature}
+                style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}
+              >
+                <Text style={styles.colDate}>
+                  {formatDate(disposal.timestamp)}
+                </Text>
+                <Text style={styles.colFrom}>
+                  {disposal.unmatchedAmount.toFixed(2)}{" "}
+                  {tokenSymbol(tokens, disposal.tokenAddress, disposal.symbol)}
+                </Text>
+                <Text style={styles.colValue}>
+                  {formatIDR(disposal.proceedsIdr)}
+                </Text>
+                <Text style={styles.colGainLoss}>
+                  {formatIDR(disposal.resolvedCostBasisIdr ?? 0)}
+                </Text>
+                <Text style={styles.colTo}>
+                  {disposal.resolution
+                    ? RESOLUTION_KIND_LABELS[disposal.resolution]
+                    : "Belum diselesaikan"}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Staking income */}
+        {taxSummary.stakingIncome.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Penghasilan Staking</Text>
+            <Text style={styles.explanationText}>
+              Imbalan staking yang diterima saat penarikan, dinilai pada
+              tanggal diterima. Penghasilan ini terpisah dari PPh Final
+              transaksi aset kripto. Total:{" "}
+              {formatIDR(taxSummary.totalStakingIncomeIdr)}.
+            </Text>
+            <View style={styles.tableHeader}>
+              <Text style={styles.colDate}>Tanggal</Text>
+              <Text style={styles.colFrom}>Staking</Text>
+              <Text style={styles.colTo}>Protokol</Text>
+              <Text style={styles.colValue}>Penghasilan (IDR)</Text>
+            </View>
+            {taxSummary.stakingIncome.map((income, index) => (
+              <View
+                key={income.signature}
+                style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}
+              >
+                <Text style={styles.colDate}>
+                  {formatDate(income.timestamp)}
+                </Text>
+                <Text style={styles.colFrom}>
+                  {tokenSymbol(tokens, income.stakeAddress, income.symbol)}
+                </Text>
+                <Text style={styles.colTo}>
+                  {STAKING_PROTOCOL_LABELS[income.protocol]}
+                </Text>
+                <Text style={styles.colValue}>
+                  {formatIDR(income.incomeIdr)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Airdrop and reward income */}
+        {taxSummary.income.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Penghasilan Airdrop & Reward</Text>
+            <Text style={styles.explanationText}>
+              Token yang diterima sebagai airdrop atau reward, dinilai pada
+              harga pasar saat diterima. Nilai tersebut menjadi cost basis
+              token saat dijual kemudian. Penghasilan ini terpisah dari PPh
+              Final transaksi aset kripto. Total:{" "}
+              {formatIDR(taxSummary.totalIncomeIdr)}.
+            </Text>
+            <View style={styles.tableHeader}>
+              <Text style={styles.colDate}>Tanggal</Text>
+              <Text style={styles.colType}>Jenis</Text>
+              <Text style={styles.colFrom}>Token</Text>
+              <Text style={styles.colTo}>Sumber</Text>
+              <Text style={styles.colValue}>Jumlah</Text>
+              <Text style={styles.colValue}>Penghasilan (IDR)</Text>
+            </View>
+            {taxSummary.income.map((receipt, index) => (
+              <View
+                key={receipt.signature}
+                style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}
+              >
+                <Text style={styles.colDate}>
+                  {formatDate(receipt.timestamp)}
+                </Text>
+                <Text style={styles.colType}>
+                  {INBOUND_KIND_LABELS[receipt.kind]}
+                </Text>
+                <Text style={styles.colFrom}>
+                  {tokenSymbol(tokens, receipt.tokenAddress, receipt.symbol)}
+                </Text>
+                <Text style={styles.colTo}>{incomeSource(receipt.source)}</Text>
+                <Text style={styles.colValue}>
+                  {receipt.amount.toFixed(4)}
+                </Text>
+                <Text style={styles.colValue}>
+                  {formatIDR(receipt.incomeIdr)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Liquidity pool results */}
+        {taxSummary.lpResults.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Hasil Liquidity Pool</Text>
+            <Text style={styles.explanationText}>
+              Nilai token yang ditarik dari liquidity pool dibandingkan dengan
+              cost basis posisi yang ditarik, termasuk fee yang diperoleh dan
+              impermanent loss. Hasil ini terpisah dari PPh Final transaksi
+              aset kripto. Total: {formatIDR(taxSummary.totalLpGainLossIdr)}.
+            </Text>
+            <View style={styles.tableHeader}>
+              <Text style={styles.colDate}>Tanggal</Text>
+              <Text style={styles.colFrom}>Pool</Text>
+              <Text style={styles.colTo}>Protokol</Text>
+              <Text style={styles.colValue}>Ditarik (IDR)</Text>
+              <Text style={styles.colValue}>Cost Basis (IDR)</Text>
+              <Text style={styles.colGainLoss}>P/L (IDR)</Text>
+            </View>
+            {taxSummary.lpResults.map((result, index) => (
+              <View
+                key={result.signature}
+                style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}
+              >
+                <Text style={styles.colDate}>
+                  {formatDate(result.timestamp)}
+                </Text>
+                <Text style={styles.colFrom}>{result.symbols}</Text>
+                <Text style={styles.colTo}>
+                  {LP_PROTOCOL_LABELS[result.protocol]}
+                </Text>
+                <Text style={styles.colValue}>
+                  {formatIDR(result.proceedsIdr)}
+                </Text>
+                <Text style={styles.colValue}>
+                  {formatIDR(result.costBasisIdr)}
+                </Text>
+                <Text style={styles.colGainLoss}>
+                  {(result.gainLossIdr > 0 ? "+" : "") +
+                    formatIDR(result.gainLossIdr)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Lending interest */}
+        {taxSummary.lendingInterest.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Bunga Lending</Text>
+            <Text style={styles.explanationText}>
+              Bunga yang diterima saat penarikan dari protokol lending, dinilai
+              pada tanggal diterima. Penghasilan ini terpisah dari PPh Final
+              transaksi aset kripto. Total:{" "}
+              {formatIDR(taxSummary.totalLendingInterestIdr)}.
+            </Text>
+            <View style={styles.tableHeader}>
+              <Text style={styles.colDate}>Tanggal</Text>
+              <Text style={styles.colFrom}>Token</Text>
+              <Text style={styles.colTo}>Protokol</Text>
+              <Text style={styles.colValue}>Jumlah</Text>
+              <Text style={styles.colValue}>Penghasilan (IDR)</Text>
+            </View>
+            {taxSummary.lendingInterest.map((interest, index) => (
+              <View
+                key={interest.signature}
+                style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}
+              >
+                <Text style={styles.colDate}>
+                  {formatDate(interest.timestamp)}
+                </Text>
+                <Text style={styles.colFrom}>
+                  {tokenSymbol(tokens, interest.tokenAddress, interest.symbol)}
+                </Text>
+                <Text style={styles.colTo}>
+                  {LENDING_PROTOCOL_LABELS[interest.protocol]}
+                </Text>
+                <Text style={styles.colValue}>
+                  {interest.amount.toFixed(4)}
+                </Text>
+                <Text style={styles.colValue}>
+                  {formatIDR(interest.incomeIdr)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Open loans */}
+        {taxSummary.lendingLiabilities.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Pinjaman Terbuka</Text>
+            <Text style={styles.explanationText}>
+              Pinjaman dari protokol lending yang belum dilunasi pada akhir
+              periode, dicatat sebagai utang sebesar jumlah yang dipinjam.
+            </Text>
+            <View style={styles.tableHeader}>
+              <Text style={styles.colFrom}>Token</Text>
+              <Text style={styles.colValue}>Jumlah</Text>
+              <Text style={styles.colValue}>Nilai Saat Dipinjam (IDR)</Text>
+            </View>
+            {taxSummary.lendingLiabilities.map((liability, index) => (
+              <View
+                key={`${liability.walletAddress}:${liability.tokenAddress}:${index}`}
+                style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}
+              >
+                <Text style={styles.colFrom}>
+                  {tokenSymbol(tokens, liability.tokenAddress, liability.symbol)}
+                </Text>
+                <Text style={styles.colValue}>
+                  {liability.amount.toFixed(4)}
+                </Text>
+                <Text style={styles.colValue}>
+                  {formatIDR(liability.borrowedValueIdr)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Disclaimer */}
         <View style={styles.disclaimer}>
           <Text style={styles.disclaimerTitle}>DISCLAIMER</Text>
           <Text style={styles.disclaimerText}>
             Laporan ini dibuat oleh Taxana sebagai alat bantu perhitungan pajak
             dan bukan merupakan nasihat pajak profesional. Perhitungan
-            menggunakan metode FIFO (First In, First Out) dan tarif pajak untuk
-            transaksi melalui DEX (PPh 0.2%, PPN 0.22%). Harga token menggunakan
-            harga saat ini, bukan harga historis pada saat transaksi. Selalu
+            menggunakan metode {methodLabel} dan tarif pajak yang
+            berlaku pada tanggal masing-masing transaksi (lihat halaman
+            penjelasan untuk dasar hukumnya). Harga token menggunakan
+            harga historis pada saat masing-masing transaksi. Selalu
             konsultasikan dengan konsultan pajak profesional sebelum melakukan
             pelaporan SPT. Taxana tidak bertanggung jawab atas kesalahan
             perhitungan atau keputusan pelaporan pajak berdasarkan laporan ini.
@@ -369,16 +761,12 @@ export function TaxReportPDF({
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Penjelasan Perhitungan</Text>
 
-          {/* FIFO Explanation */}
+          {/* Cost Basis Method Explanation */}
           <View style={styles.explanationSection}>
-            <Text style={styles.explanationTitle}>
-              Metode FIFO (First In, First Out)
-            </Text>
+            <Text style={styles.explanationTitle}>Metode {methodLabel}</Text>
             <Text style={styles.explanationText}>
-              Perhitungan keuntungan/kerugian menggunakan metode FIFO, dimana
-              aset yang dibeli pertama akan dijual pertama. Setiap kali Anda
-              menjual token, sistem akan menghitung cost basis dari pembelian
-              paling awal yang belum terjual.
+              Perhitungan keuntungan/kerugian menggunakan metode {methodLabel}.{" "}
+              {methodExplanation.description}
             </Text>
             <Text style={styles.bulletPoint}>
               - Beli 10 SOL @ Rp 100.000 (total Rp 1.000.000)
@@ -390,47 +778,224 @@ export function TaxReportPDF({
               - Jual 8 SOL @ Rp 150.000 (total Rp 1.200.000)
             </Text>
             <Text style={styles.bulletPoint}>
-              - Cost basis: 8 x Rp 100.000 = Rp 800.000 (dari lot pertama)
+              - Cost basis: {methodExplanation.costBasis}
             </Text>
             <Text style={styles.bulletPoint}>
-              - Keuntungan: Rp 1.200.000 - Rp 800.000 = Rp 400.000
+              - Keuntungan: {methodExplanation.gain}
+            </Text>
+            <Text style={styles.explanationText}>
+              Token yang dibeli pada tahun-tahun sebelumnya dan belum terjual
+              dibawa sebagai saldo awal, sehingga cost basis-nya tetap
+              diperhitungkan saat dijual tahun ini.
+              {taxSummary.openingLots.length > 0 &&
+                ` Saldo awal tahun ${year}: ${
+                  new Set(taxSummary.openingLots.map((lot) => lot.tokenAddress))
+                    .size
+                } token dengan total cost basis ${formatIDR(
+                  taxSummary.openingLots.reduce(
+                    (sum, lot) => sum + lot.costBasisIdr,
+                    0
+                  )
+                )}.`}
             </Text>
           </View>
 
+          {/* Transfer Explanation */}
+          {taxSummary.totalTransfersIn + taxSummary.totalTransfersOut > 0 && (
+            <View style={styles.explanationSection}>
+              <Text style={styles.explanationTitle}>Transfer</Text>
+              <Text style={styles.explanationText}>
+                Transfer masuk dan keluar (airdrop, deposit/penarikan exchange,
+                kiriman antar wallet) bukan transaksi jual beli sehingga tidak
+                dikenakan pajak. Transfer keluar mengurangi saldo token beserta
+                cost basis-nya. Token yang masuk dicatat dengan cost basis{" "}
+                {taxSummary.inboundCostBasis === "market"
+                  ? "sebesar nilai pasarnya pada saat transfer."
+                  : "Rp 0, sehingga seluruh hasil penjualannya kelak dihitung sebagai keuntungan."}
+              </Text>
+            </View>
+          )}
+
+          {/* Fee Explanation */}
+          {taxSummary.totalFeesIdr > 0 && (
+            <View style={styles.explanationSection}>
+              <Text style={styles.explanationTitle}>Biaya Transaksi</Text>
+              <Text style={styles.explanationText}>
+                Biaya jaringan Solana (base fee dan priority fee) serta biaya
+                platform agregator (misalnya Jupiter) yang dibayar wallet
+                ditambahkan ke cost basis pembelian dan dikurangkan dari hasil
+                penjualan, sehingga ikut memperkecil keuntungan. Biaya platform
+                yang sudah termasuk dalam jumlah token yang dibayar atau diterima
+                tidak dihitung dua kali. Biaya pada transfer tidak
+                diperhitungkan. PPh Final dan PPN tetap dihitung dari nilai
+                transaksi.
+              </Text>
+            </View>
+          )}
+
+          {/* Airdrop and Reward Explanation */}
+          {taxSummary.totalIncomeReceipts > 0 && (
+            <View style={styles.explanationSection}>
+              <Text style={styles.explanationTitle}>Airdrop & Reward</Text>
+              <Text style={styles.explanationText}>
+                Token yang diklaim dari program distribusi airdrop (Jupiter,
+                Jito, Wormhole, Saber) dicatat sebagai airdrop secara otomatis;
+                transfer masuk lainnya dapat ditandai pengguna sebagai airdrop
+                atau reward. Keduanya adalah penghasilan sebesar harga pasar
+                saat diterima, dikurangi biaya transaksi, dan nilai tersebut
+                menjadi cost basis token. Penjualan token itu kemudian dikenakan
+                PPh Final seperti biasa.
+              </Text>
+            </View>
+          )}
+
+          {/* Staking Explanation */}
+          {taxSummary.totalStakes + taxSummary.totalUnstakes > 0 && (
+            <View style={styles.explanationSection}>
+              <Text style={styles.explanationTitle}>Staking</Text>
+              <Text style={styles.explanationText}>
+                Menyetor SOL ke staking (stake account native atau liquid
+                staking seperti Marinade, Jito dan Sanctum) bukan penjualan
+                sehingga tidak dikenakan PPh Final maupun PPN. Stake dicatat
+                dengan cost basis sebesar nilai SOL yang disetor. Saat ditarik,
+                SOL yang diterima melebihi stake tersebut dicatat sebagai
+                penghasilan staking pada tanggal diterima: untuk stake account
+                native selisih jumlah SOL, untuk liquid staking selisih nilai
+                SOL yang diterima dengan cost basis token yang ditukarkan.
+              </Text>
+            </View>
+          )}
+
+          {/* Liquidity Explanation */}
+          {taxSummary.totalLpDeposits + taxSummary.totalLpWithdrawals > 0 && (
+            <View style={styles.explanationSection}>
+              <Text style={styles.explanationTitle}>Liquidity Pool</Text>
+              <Text style={styles.explanationText}>
+                Menyetor token ke liquidity pool (Raydium, Orca Whirlpools,
+                Meteora) bukan penjualan sehingga tidak dikenakan PPh Final
+                maupun PPN. Posisi LP mewarisi cost basis token yang disetor
+                ditambah biaya transaksi. Saat ditarik, cost basis posisi
+                dikurangi secara proporsional dan selisihnya dengan nilai token
+                yang diterima dicatat sebagai hasil liquidity pool, yang sudah
+                mencakup fee yang diperoleh dan impermanent loss. Token yang
+                diterima dicatat dengan cost basis sebesar nilai pasarnya.
+              </Text>
+            </View>
+          )}
+
+          {/* Lending Explanation */}
+          {taxSummary.totalLendingTransactions > 0 && (
+            <View style={styles.explanationSection}>
+              <Text style={styles.explanationTitle}>Lending</Text>
+              <Text style={styles.explanationText}>
+                Menyetor token ke protokol lending (Kamino, MarginFi, Solend)
+                dan menariknya kembali bukan penjualan: token membawa cost basis
+                dan tanggal perolehannya. Jumlah yang ditarik melebihi jumlah
+                yang disetor dicatat sebagai bunga, penghasilan yang dinilai
+                pada tanggal diterima. Token yang dipinjam dicatat sebagai utang
+                dan diperoleh dengan cost basis sebesar nilai pasarnya;
+                bunga pinjaman yang dibayar tidak dikurangkan. Likuidasi
+                diperlakukan sebagai penjualan jaminan yang diambil, dengan PPh
+                Final atas nilainya, dan melunasi utang sebesar yang dibayar
+                likuidator.
+              </Text>
+            </View>
+          )}
+
+          {/* Spam and Dust Explanation */}
+          {taxSummary.totalHiddenTransactions > 0 && (
+            <View style={styles.explanationSection}>
+              <Text style={styles.explanationTitle}>Spam & Dust</Text>
+              <Text style={styles.explanationText}>
+                {taxSummary.totalHiddenTransactions} transfer token spam atau
+                dust tidak dihitung dalam laporan ini: transfer masuk yang
+                tidak diminta berupa token yang tercatat sebagai spam, token
+                tanpa likuiditas berarti di DEX, atau bernilai kurang dari
+                $0,01 pada saat diterima, serta token yang disembunyikan
+                pemilik wallet. Token yang pernah di-swap, dibeli atau dijual
+                wallet tidak disembunyikan otomatis. Token tersebut tidak memiliki
+                nilai yang dapat direalisasikan sehingga tidak memengaruhi
+                perhitungan pajak.
+              </Text>
+            </View>
+          )}
+
+          {/* Self-Transfer Explanation */}
+          {taxSummary.totalSelfTransfers > 0 && (
+            <View style={styles.explanationSection}>
+              <Text style={styles.explanationTitle}>Transfer Antar Wallet</Text>
+              <Text style={styles.explanationText}>
+                Laporan ini mencakup {walletAddresses.length} wallet milik
+                pemilik yang sama. Transfer di antara wallet tersebut hanya
+                memindahkan token beserta cost basis dan tanggal perolehannya,
+                sehingga tidak dikenakan pajak dan tidak mengubah cost basis.
+              </Text>
+            </View>
+          )}
+
           {/* Tax Rate Explanation */}
           <View style={styles.explanationSection}>
             <Text style={styles.explanationTitle}>
               Tarif Pajak Crypto Indonesia
             </Text>
             <Text style={styles.explanationText}>
-              Berdasarkan PMK 68/2022, transaksi aset kripto dikenakan pajak
-              sebagai berikut:
-            </Text>
-            <Text style={styles.bulletPoint}>
-              - PPh Final 0.2%: Dikenakan pada transaksi penjualan melalui
-              exchange yang tidak terdaftar di Bappebti (termasuk DEX seperti
-              Jupiter, Raydium, dll)
-            </Text>
-            <Text style={styles.bulletPoint}>
-              - PPN 0.22%: Dikenakan pada transaksi pembelian melalui exchange
-              yang tidak terdaftar di Bappebti
-            </Text>
-            <Text style={styles.explanationText}>
-              Catatan: Exchange terdaftar Bappebti memiliki tarif lebih rendah
-              (PPh 0.1%, PPN 0.11%).
+              Tarif pajak ditentukan oleh peraturan yang berlaku pada tanggal
+              masing-masing transaksi. Laporan ini menggunakan tarif untuk
+              transaksi melalui{" "}
+              {taxSummary.exchangeType === "registered"
+                ? "exchange terdaftar (PPMSE dalam negeri)"
+                : "exchange tidak terdaftar (termasuk DEX seperti Jupiter, Raydium, dll)"}
+              :
             </Text>
+            {taxSummary.taxRules.map((rule) => (
+              <Text key={rule.id} style={styles.bulletPoint}>
+                - {rule.name}: PPh Final {formatTaxRate(rule.pphSellRate)} atas
+                penjualan, PPN {formatTaxRate(rule.ppnBuyRate)} atas pembelian
+                ({rule.effectiveFrom ? formatDate(new Date(rule.effectiveFrom)) : "..."}{" "}
+                s.d.{" "}
+                {rule.effectiveTo
+                  ? formatDate(new Date(rule.effectiveTo))
+                  : "sekarang"}
+                ). Dasar hukum: {rule.regulation}
+              </Text>
+            ))}
           </View>
 
           {/* Price Data Explanation */}
           <View style={styles.explanationSection}>
             <Text style={styles.explanationTitle}>Sumber Data Harga</Text>
             <Text style={styles.explanationText}>
-              Harga token diambil dari berbagai sumber (Birdeye, DexScreener)
-              dan dikonversi dari USD ke IDR menggunakan kurs saat ini. PENTING:
-              Harga yang digunakan adalah harga saat laporan dibuat, BUKAN harga
-              historis pada saat transaksi. Hal ini dapat menyebabkan perbedaan
-              dengan nilai transaksi sebenarnya.
+              Harga token diambil dari data harga historis (Birdeye OHLCV,
+              CoinGecko) pada waktu masing-masing transaksi, lalu dikonversi
+              dari USD ke IDR menggunakan kurs yang berlaku pada tanggal
+              transaksi (kurs pajak mingguan KMK Menteri Keuangan, atau kurs
+              JISDOR Bank Indonesia). Token tanpa data harga historis (misalnya
+              token yang sudah tidak diperdagangkan) dinilai Rp 0.
             </Text>
+            {taxSummary.transactions.some(
+              (tx) => tx.usdIdrRateSource === "live"
+            ) && (
+              <Text style={styles.explanationText}>
+                Catatan: untuk sebagian tanggal transaksi belum tersedia kurs
+                resmi, sehingga digunakan kurs pasar saat laporan dibuat.
+              </Text>
+            )}
+            {taxSummary.transactions.some((tx) => tx.userProvidedPrice) && (
+              <Text style={styles.explanationText}>
+                Catatan: sebagian harga dimasukkan manual oleh pengguna
+                (user-provided) dan digunakan sebagai pengganti data dari
+                penyedia harga. Transaksi tersebut ditandai dengan * pada
+                detail transaksi.
+              </Text>
+            )}
+            {taxSummary.valuation === "implied" && (
+              <Text style={styles.explanationText}>
+                Untuk swap dengan SOL, USDC, atau USDT di salah satu sisi, nilai
+                transaksi diturunkan dari sisi tersebut (USDC/USDT = $1, SOL
+                menggunakan harga historisnya). Harga dari penyedia data hanya
+                digunakan untuk swap token ke token.
+              </Text>
+            )}
           </View>
         </View>
 
@@ -527,6 +1092,7 @@ export function TaxReportPDF({
                     <Text style={styles.colFrom}>Dari</Text>
                     <Text style={styles.colTo}>Ke</Text>
                     <Text style={styles.colValue}>Nilai (IDR)</Text>
+                    <Text style={styles.colFee}>Biaya (IDR)</Text>
                     <Text style={styles.colGainLoss}>P/L (IDR)</Text>
                     <Text style={styles.colTax}>Pajak</Text>
                   </View>
@@ -543,16 +1109,32 @@ export function TaxReportPDF({
                         {formatDate(tx.timestamp)}
                       </Text>
                       <Text style={styles.colType}>
-                        {tx.type === "buy" ? "Beli" : "Jual"}
+                        {TYPE_LABELS[tx.type]}
                       </Text>
                       <Text style={styles.colFrom}>
-                        {tx.fromAmount.toFixed(2)} {tx.fromSymbol}
+                        {tx.fromToken
+                          ? `${tx.fromAmount.toFixed(2)} ${tokenSymbol(
+                              tokens,
+                              tx.fromToken,
+                              tx.fromSymbol
+                            )}`
+                          : "-"}
                       </Text>
                       <Text style={styles.colTo}>
-                        {tx.toAmount.toFixed(2)} {tx.toSymbol}
+                        {tx.toToken
+                          ? `${tx.toAmount.toFixed(2)} ${tokenSymbol(
+                              tokens,
+                              tx.toToken,
+                              tx.toSymbol
+                            )}`
+                          : "-"}
                       </Text>
                       <Text style={styles.colValue}>
                         {formatIDR(tx.transactionValueIdr)}
+                        {tx.userProvidedPrice ? " *" : ""}
+                      </Text>
+                      <Text style={styles.colFee}>
+                        {tx.feeIdr > 0 ? formatIDR(tx.feeIdr) : "-"}
                       </Text>
                       <Text style={styles.colGainLoss}>
                         {tx.gainLossIdr !== 0
@@ -565,6 +1147,12 @@ export function TaxReportPDF({
                       </Text>
                     </View>
                   ))}
+
+                  {pageTransactions.some((tx) => tx.userProvidedPrice) && (
+                    <Text style={styles.explanationText}>
+                      * Harga dimasukkan manual oleh pengguna (user-provided).
+                    </Text>
+                  )}
                 </View>
 
                 <Text
@@ -0,0 +1,45 @@
+// How an inbound transfer is treated:
+// - transfer: tokens moved in (CEX withdrawal, another wallet), cost basis
+//   per the inbound cost basis setting
+// - airdrop: tokens distributed for free, income at market value on receipt
+// - reward: tokens paid out as a reward (referral, trading or quest rewards),
+//   income like an airdrop
+export const INBOUND_KINDS = ['transfer', 'airdrop', 'reward'] as const;
+export type InboundKind = (typeof INBOUND_KINDS)[number];
+export type IncomeKind = Exclude<InboundKind, 'transfer'>;
+
+export const INBOUND_KIND_LABELS: Record<InboundKind, string> = {
+  transfer: 'Transfer Masuk',
+  airdrop: 'Airdrop',
+  reward: 'Reward',
+};
+
+// Distributors the parser recognizes
+export const AIRDROP_DISTRIBUTORS = ['jupiter', 'jito', 'wormhole', 'saber'] as const;
+export type AirdropDistributor = (typeof AIRDROP_DISTRIBUTORS)[number];
+
+export const AIRDROP_DISTRIBUTOR_LABELS: Record<AirdropDistributor, string> = {
+  jupiter: 'Jupiter',
+  jito: 'Jito',
+  wormhole: 'Wormhole',
+  saber: 'Saber',
+};
+
+// Merkle distributor and claim programs. Tokens claimed from them are
+// airdrops, whatever project distributes them.
+const DISTRIBUTOR_PROGRAMS: Record<string, AirdropDistributor> = {
+  'meRjbQXFhW6oZ8YgrtcGd6U6Y9k8RMhZn9jxMbL3zxB': 'jupiter', // JUP and launchpad airdrops
+  'mERKcfxMC5SqJn4Ld4BUris3WKZZ1ojjWJ3A3J5CKxv': 'jito', // JTO and forks of Jito's distributor
+  'Wapq3Hpv2aSKjWrh4pM8St8kJ7Ck1mpNHHhRPtTZsVH3': 'wormhole', // W token dispenser
+  'MRKGLMizK9XSTaD1d1jbVkdHZbQVCSevEdJe4dGWx3q': 'saber', // Saber merkle distributor
+};
+
+// Distributor of the first distributor program among `programIds`, if any
+export function airdropDistributorOf(programIds: string[]): AirdropDistributor | null {
+  for (const programId of programIds) {
+    if (DISTRIBUTOR_PROGRAMS[programId]) {
+      return DISTRIBUTOR_PROGRAMS[programId];
+    }
+  }
+  return null;
+}
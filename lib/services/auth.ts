@@ -0,0 +1,202 @@
+import { db, authNonces, sessions, sessionUsers, users } from '@/lib/db';
+import { and, eq, gt, lt } from 'drizzle-orm';
+import { createHash, createPublicKey, randomBytes, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+
+export const SESSION_COOKIE = 'taxana_session';
+
+const DEFAULT_APP_URL = 'http://localhost:3000';
+
+const NONCE_TTL_MS = 5 * 60 * 1000;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// DER prefix of an Ed25519 public key in SubjectPublicKeyInfo form; the 32
+// key bytes follow it
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// A session with the wallets it owns
+export interface AuthSession {
+  id: string;
+  walletAddresses: string[];
+  expiresAt: Date;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Sign-In-With-Solana message, following the EIP-4361 layout
+function signInMessage(uri: URL, walletAddress: string, nonce: string, issuedAt: Date, expiresAt: Date): string {
+  return [
+    `${uri.host} wants you to sign in with your Solana account:`,
+    walletAddress,
+    '',
+    'Masuk ke Taxana untuk menghitung pajak kripto wallet ini.',
+    '',
+    `URI: ${uri.origin}`,
+    'Version: 1',
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join('\n');
+}
+
+// The app's own URL, from NEXT_PUBLIC_APP_URL. Sign-in messages only ever
+// name this site, whatever origin a request claims.
+function appUrl(): URL {
+  return new URL(process.env.NEXT_PUBLIC_APP_URL || DEFAULT_APP_URL);
+}
+
+// Whether a request's Origin header is the app itself. A missing or opaque
+// ('null') origin is not.
+export function isAppOrigin(origin: string | null): boolean {
+  return origin === appUrl().origin;
+}
+
+// Create a single-use sign-in message for the wallet to sign, naming the app
+export async function createSignInMessage(walletAddress: string): Promise<{ nonce: string; message: string }> {
+  const nonce = randomBytes(16).toString('hex');
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS);
+  const message = signInMessage(appUrl(), walletAddress, nonce, issuedAt, expiresAt);
+
+  await db.delete(authNonces).where(lt(authNonces.expiresAt, issuedAt));
+  await db.insert(authNonces).values({ nonce, walletAddress, message, expiresAt });
+
+  return { nonce, message };
+}
+
+// Check an Ed25519 signature of `message` by the wallet's key
+function verifyWalletSignature(walletAddress: string, message: string, signature: Buffer): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(walletAddress).toBuffer()]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(null, Buffer.from(message, 'utf8'), key, signature);
+  } catch {
+    return false;
+  }
+}
+
+// Verify a signed sign-in message and add the wallet to the session, starting
+// one when `sessionToken` is missing or expired. The message is used up even
+// when the signature is wrong. Returns null when the sign-in is rejected.
+export async function signIn(
+  walletAddress: string,
+  nonce: string,
+  signature: string, // base64
+  sessionToken?: string | null
+): Promise<{ token: string; session: AuthSession } | null> {
+  const [issued] = await db
+    .delete(authNonces)
+    .where(and(eq(authNonces.nonce, nonce), eq(authNonces.walletAddress, walletAddress)))
+    .returning();
+
+  if (!issued || issued.expiresAt < new Date()) {
+    return null;
+  }
+  if (!verifyWalletSignature(walletAddress, issued.message, Buffer.from(signature, 'base64'))) {
+    return null;
+  }
+
+  const [user] = await db
+    .insert(users)
+    .values({ walletAddress, lastSignInAt: new Date() })
+    .onConflictDoUpdate({ target: users.walletAddress, set: { lastSignInAt: new Date() } })
+    .returning();
+
+  let token = sessionToken || null;
+  let session = token ? await getSession(token) : null;
+  if (!session) {
+    token = randomBytes(32).toString('base64url');
+    await db.delete(sessions).where(lt(sessions.expiresAt, new Date()));
+    const [created] = await db
+      .insert(sessions)
+      .values({ tokenHash: hashToken(token), expiresAt: new Date(Date.now() + SESSION_TTL_MS) })
+      .returning();
+    session = { id: created.id, walletAddresses: [], expiresAt: created.expiresAt };
+  }
+
+  await db
+    .insert(sessionUsers)
+    .values({ sessionId: session.id, userId: user.id })
+    .onConflictDoNothing();
+
+  return {
+    token: token!,
+    session: {
+      ...session,
+      walletAddresses: [...new Set([...session.walletAddresses, walletAddress])],
+    },
+  };
+}
+
+// The unexpired session of a cookie token
+export async function getSession(token: string | null | undefined): Promise<AuthSession | null> {
+  if (!token) {
+    return null;
+  }
+
+  const [session] = await db
+    .select()
+    .from(sessions)
+    .where(and(eq(sessions.tokenHash, hashToken(token)), gt(sessions.expiresAt, new Date())))
+    .limit(1);
+
+  if (!session) {
+    return null;
+  }
+
+  const wallets = await db
+    .select({ walletAddress: users.walletAddress })
+    .from(sessionUsers)
+    .innerJoin(users, eq(users.id, sessionUsers.userId))
+    .where(eq(sessionUsers.sessionId, session.id))
+    .orderBy(sessionUsers.createdAt);
+
+  return {
+    id: session.id,
+    walletAddresses: wallets.map(wallet => wallet.walletAddress),
+    expiresAt: session.expiresAt,
+  };
+}
+
+// End a session, signing out every wallet on it
+export async function signOut(token: string | null | undefined) {
+  if (token) {
+    await db.delete(sessions).where(eq(sessions.tokenHash, hashToken(token)));
+  }
+}
+
+// True when the session owns every one of the wallets
+export function ownsWallets(session: AuthSession | null, walletAddresses: string[]): boolean {
+  return !!session && walletAddresses.every(address => session.walletAddresses.includes(address));
+}
+
+// Session token from a Cookie header
+export function readSessionToken(cookieHeader: string | null): string | null {
+  for (const cookie of (cookieHeader || '').split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+}
+
+// Set-Cookie value storing the token, or clearing it when null
+export function sessionCookie(token: string | null): string {
+  const attributes = [
+    `${SESSION_COOKIE}=${token ? encodeURIComponent(token) : ''}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${token ? SESSION_TTL_MS / 1000 : 0}`,
+  ];
+  if (process.env.NODE_ENV === 'production') {
+    attributes.push('Secure');
+  }
+  return attributes.join('; ');
+}
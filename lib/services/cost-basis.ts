@@ -0,0 +1,169 @@
+import { Decimal, ZERO } from '@/lib/decimal';
+
+// Lot matching strategies used to determine the cost basis of a disposal
+export const COST_BASIS_METHODS = ['fifo', 'lifo', 'hifo', 'average'] as const;
+export type CostBasisMethod = (typeof COST_BASIS_METHODS)[number];
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO (First In, First Out)',
+  lifo: 'LIFO (Last In, First Out)',
+  hifo: 'HIFO (Highest In, First Out)',
+  average: 'Rata-rata Tertimbang (Average Cost)',
+};
+
+// How a disposal without known acquisition history was resolved:
+// - manual: user entered the cost basis
+// - airdrop: received for free, cost basis Rp 0
+// - external: bought outside this wallet (e.g. on a CEX), linked by reference
+export const RESOLUTION_KINDS = ['manual', 'airdrop', 'external'] as const;
+export type ResolutionKind = (typeof RESOLUTION_KINDS)[number];
+
+export const RESOLUTION_KIND_LABELS: Record<ResolutionKind, string> = {
+  manual: 'Cost basis manual',
+  airdrop: 'Airdrop (cost basis Rp 0)',
+  external: 'Pembelian di luar wallet',
+};
+
+// Token lot for cost basis tracking
+export interface TokenLot {
+  walletAddress: string; // wallet currently holding the lot
+  tokenAddress: string;
+  amount: Decimal;
+  costBasisUsd: Decimal;
+  costBasisIdr: Decimal;
+  timestamp: Date;
+}
+
+// Open lots per wallet and token address (see inventoryKey)
+export type LotInventory = Map<string, TokenLot[]>;
+
+export function inventoryKey(walletAddress: string, tokenAddress: string): string {
+  return `${walletAddress}:${tokenAddress}`;
+}
+
+// Below this fraction of the disposed amount, leftovers are rounding noise
+// (amounts of transactions stored before raw amounts were kept)
+const UNMATCHED_TOLERANCE = new Decimal('1e-9');
+
+// Result of matching a disposal against open lots
+export interface LotMatch {
+  costBasisUsd: Decimal;
+  costBasisIdr: Decimal;
+  unmatchedAmount: Decimal; // amount not covered by any known lot
+  consumed: TokenLot[]; // lots (or parts of lots) used, with their own basis
+}
+
+// Add an acquisition to the inventory
+export function addLot(inventory: LotInventory, lot: TokenLot, method: CostBasisMethod): void {
+  const key = inventoryKey(lot.walletAddress, lot.tokenAddress);
+  if (!inventory.has(key)) {
+    inventory.set(key, []);
+  }
+  const lots = inventory.get(key)!;
+
+  // Average cost keeps a single pooled lot per token
+  if (method === 'average' && lots.length > 0) {
+    const pool = lots[0];
+    pool.amount = pool.amount.plus(lot.amount);
+    pool.costBasisUsd = pool.costBasisUsd.plus(lot.costBasisUsd);
+    pool.costBasisIdr = pool.costBasisIdr.plus(lot.costBasisIdr);
+    return;
+  }
+
+  lots.push({ ...lot });
+}
+
+// Pick the next lot to consume
+// Cost per unit of a lot. Lots without an amount (e.g. an LP position
+// valued without prices) rank lowest instead of dividing by zero.
+function unitCost(lot: TokenLot): Decimal {
+  return lot.amount.gt(0) ? lot.costBasisIdr.div(lot.amount) : ZERO;
+}
+
+function selectLotIndex(lots: TokenLot[], method: CostBasisMethod): number {
+  switch (method) {
+    case 'lifo':
+      return lots.length - 1;
+    case 'hifo': {
+      // Highest cost per unit first
+      let highest = 0;
+      lots.forEach((lot, index) => {
+        if (unitCost(lot).gt(unitCost(lots[highest]))) {
+          highest = index;
+        }
+      });
+      return highest;
+    }
+    default:
+      // FIFO, and the single pooled lot for average cost
+      return 0;
+  }
+}
+
+// Remove `amount` of a token from the inventory and return its cost basis
+export function consumeLots(
+  inventory: LotInventory,
+  walletAddress: string,
+  tokenAddress: string,
+  amount: Decimal,
+  method: CostBasisMethod
+): LotMatch {
+  const lots = inventory.get(inventoryKey(walletAddress, tokenAddress)) || [];
+  const consumed: TokenLot[] = [];
+  let remaining = amount;
+  let costBasisUsd = ZERO;
+  let costBasisIdr = ZERO;
+
+  while (remaining.gt(0) && lots.length > 0) {
+    const index = selectLotIndex(lots, method);
+    const lot = lots[index];
+
+    if (lot.amount.lte(remaining)) {
+      // Use entire lot
+      costBasisUsd = costBasisUsd.plus(lot.costBasisUsd);
+      costBasisIdr = costBasisIdr.plus(lot.costBasisIdr);
+      remaining = remaining.minus(lot.amount);
+      consumed.push(lot);
+      lots.splice(index, 1);
+    } else {
+      // Use partial lot; the rest of the lot keeps what is left of its cost,
+      // so the parts always add up to the original basis
+      const part: TokenLot = {
+        ...lot,
+        amount: remaining,
+        costBasisUsd: lot.costBasisUsd.mul(remaining).div(lot.amount),
+        costBasisIdr: lot.costBasisIdr.mul(remaining).div(lot.amount),
+      };
+      costBasisUsd = costBasisUsd.plus(part.costBasisUsd);
+      costBasisIdr = costBasisIdr.plus(part.costBasisIdr);
+      consumed.push(part);
+
+      lot.amount = lot.amount.minus(remaining);
+      lot.costBasisUsd = lot.costBasisUsd.minus(part.costBasisUsd);
+      lot.costBasisIdr = lot.costBasisIdr.minus(part.costBasisIdr);
+      remaining = ZERO;
+    }
+  }
+
+  return {
+    costBasisUsd,
+    costBasisIdr,
+    unmatchedAmount: remaining.gt(amount.mul(UNMATCHED_TOLERANCE)) ? remaining : ZERO,
+    consumed,
+  };
+}
+
+// Move lots to another wallet, keeping their acquisition date and cost
+export function moveLots(
+  inventory: LotInventory,
+  fromWallet: string,
+  toWallet: string,
+  tokenAddress: string,
+  amount: Decimal,
+  method: CostBasisMethod
+): LotMatch {
+  const match = consumeLots(inventory, fromWallet, tokenAddress, amount, method);
+  match.consumed.forEach(lot => addLot(inventory, { ...lot, walletAddress: toWallet }, method));
+  return match;
+}
@@ -0,0 +1,229 @@
+import { db, fxRates, lotSnapshots, type NewFxRate } from '@/lib/db';
+import { and, eq, gte, lte, sql } from 'drizzle-orm';
+import { toJakartaDateKey } from '@/lib/utils';
+import { getUsdToIdrRate } from './price';
+
+// Official rate sources, in order of preference for tax purposes
+export const FX_RATE_SOURCES = ['kmk', 'jisdor'] as const;
+export type FxRateSource = (typeof FX_RATE_SOURCES)[number];
+
+// KMK rates are set weekly (Wednesday to Tuesday)
+const KMK_PERIOD_DAYS = 7;
+
+// JISDOR is not fixed on weekends and holidays: use the last fixing
+// from up to this many days before
+const JISDOR_LOOKBACK_DAYS = 7;
+
+export interface FxRateResult {
+  rate: number;
+  source: FxRateSource | 'live';
+  date: string; // YYYY-MM-DD (Jakarta)
+}
+
+function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Get the USD/IDR rate in effect on each transaction date.
+// Returned map is keyed by Jakarta calendar date (YYYY-MM-DD).
+export async function getUsdToIdrRates(dates: Date[]): Promise<Map<string, FxRateResult>> {
+  const results = new Map<string, FxRateResult>();
+  const dateKeys = [...new Set(dates.map(toJakartaDateKey))].sort();
+  if (dateKeys.length === 0) {
+    return results;
+  }
+
+  const firstKey = addDays(dateKeys[0], -JISDOR_LOOKBACK_DAYS);
+  const lastKey = dateKeys[dateKeys.length - 1];
+
+  // Load every official rate overlapping the requested range at once
+  const rows = await db
+    .select()
+    .from(fxRates)
+    .where(
+      and(
+        eq(fxRates.currency, 'USD'),
+        lte(fxRates.effectiveFrom, lastKey),
+        gte(fxRates.effectiveTo, firstKey)
+      )
+    );
+
+  let liveRate: number | null = null;
+
+  for (const dateKey of dateKeys) {
+    // 1. KMK rate whose week covers the date
+    const kmk = rows.find(
+      row => row.source === 'kmk' && row.effectiveFrom <= dateKey && row.effectiveTo >= dateKey
+    );
+    if (kmk) {
+      results.set(dateKey, { rate: Number(kmk.rateIdr), source: 'kmk', date: dateKey });
+      continue;
+    }
+
+    // 2. Latest JISDOR fixing on or shortly before the date
+    const lookbackKey = addDays(dateKey, -JISDOR_LOOKBACK_DAYS);
+    const jisdor = rows
+      .filter(
+        row => row.source === 'jisdor' && row.effectiveFrom <= dateKey && row.effectiveFrom >= lookbackKey
+      )
+      .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+    if (jisdor) {
+      results.set(dateKey, { rate: Number(jisdor.rateIdr), source: 'jisdor', date: dateKey });
+      continue;
+    }
+
+    // 3. No official rate imported: fall back to today's market rate
+    if (liveRate === null) {
+      liveRate = await getUsdToIdrRate();
+    }
+    results.set(dateKey, { rate: liveRate, source: 'live', date: dateKey });
+  }
+
+  return results;
+}
+
+// Get the USD/IDR rate in effect on a single date
+export async function getUsdToIdrRateAt(date: Date): Promise<FxRateResult> {
+  const rates = await getUsdToIdrRates([date]);
+  return rates.get(toJakartaDateKey(date))!;
+}
+
+// Split one CSV line, honouring double-quoted fields
+function splitCsvLine(line: string, separator: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === separator && !quoted) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+
+  return fields;
+}
+
+// Accepts YYYY-MM-DD, DD/MM/YYYY and DD-MM-YYYY
+function parseDateKey(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    return value;
+  }
+
+  const local = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (local) {
+    const [, day, month, year] = local;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+// Lowest plausible USD/IDR rate; anything below is a misread number
+const MIN_RATE_IDR = 1000;
+
+// Accepts 15731.5, 15,731.50 and Indonesian formatting (15.731,50 or 15.731)
+function parseRate(value: string): number | null {
+  const cleaned = value.replace(/\s|Rp/g, '');
+  const normalized = /,\d{1,2}$/.test(cleaned) || /^\d{1,3}(\.\d{3})+$/.test(cleaned)
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+
+  const rate = Number(normalized);
+  return Number.isFinite(rate) && rate >= MIN_RATE_IDR ? rate : null;
+}
+
+const DATE_COLUMNS = ['effective_from', 'date', 'tanggal', 'berlaku_mulai'];
+const END_DATE_COLUMNS = ['effective_to', 'berlaku_sampai', 'sampai'];
+const RATE_COLUMNS = ['rate', 'rate_idr', 'kurs', 'kurs_tengah', 'usd'];
+
+// Parse a CSV of official USD/IDR rates.
+// Expected header: effective_from[,effective_to],rate (Indonesian names and
+// ';' separators are accepted as well). Rows without an end date cover one
+// week for KMK and one day for JISDOR.
+export function parseFxRatesCsv(csv: string, source: FxRateSource): NewFxRate[] {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) {
+    throw new Error('CSV must contain a header and at least one rate');
+  }
+
+  const separator = lines[0].includes(';') ? ';' : ',';
+  const header = splitCsvLine(lines[0], separator).map(column =>
+    column.toLowerCase().replace(/\s+/g, '_')
+  );
+
+  const dateIndex = header.findIndex(column => DATE_COLUMNS.includes(column));
+  const endDateIndex = header.findIndex(column => END_DATE_COLUMNS.includes(column));
+  const rateIndex = header.findIndex(column => RATE_COLUMNS.includes(column));
+
+  if (dateIndex === -1 || rateIndex === -1) {
+    throw new Error(
+      `CSV header must contain a date column (${DATE_COLUMNS.join('/')}) and a rate column (${RATE_COLUMNS.join('/')})`
+    );
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const lineNumber = index + 2;
+    const fields = splitCsvLine(line, separator);
+
+    const effectiveFrom = parseDateKey(fields[dateIndex] || '');
+    if (!effectiveFrom) {
+      throw new Error(`Line ${lineNumber}: invalid date "${fields[dateIndex]}"`);
+    }
+
+    const rate = parseRate(fields[rateIndex] || '');
+    if (rate === null) {
+      throw new Error(`Line ${lineNumber}: invalid rate "${fields[rateIndex]}"`);
+    }
+
+    const effectiveTo = endDateIndex !== -1 && fields[endDateIndex]
+      ? parseDateKey(fields[endDateIndex])
+      : source === 'kmk'
+        ? addDays(effectiveFrom, KMK_PERIOD_DAYS - 1)
+        : effectiveFrom;
+    if (!effectiveTo || effectiveTo < effectiveFrom) {
+      throw new Error(`Line ${lineNumber}: invalid end date "${fields[endDateIndex]}"`);
+    }
+
+    return {
+      currency: 'USD',
+      source,
+      effectiveFrom,
+      effectiveTo,
+      rateIdr: rate.toString(),
+    };
+  });
+}
+
+// Store official rates, replacing any previously imported rate for the same
+// period. Year-end lots of every wallet from the earliest imported year on
+// were valued at the rates in effect before, so their snapshots are dropped.
+export async function importFxRates(rates: NewFxRate[]): Promise<number> {
+  for (const rate of rates) {
+    await db
+      .insert(fxRates)
+      .values(rate)
+      .onConflictDoUpdate({
+        target: [fxRates.currency, fxRates.source, fxRates.effectiveFrom],
+        set: {
+          effectiveTo: sql`excluded.effective_to`,
+          rateIdr: sql`excluded.rate_idr`,
+        },
+      });
+  }
+
+  if (rates.length > 0) {
+    const fromYear = Math.min(...rates.map(rate => Number(rate.effectiveFrom.slice(0, 4))));
+    await db.delete(lotSnapshots).where(gte(lotSnapshots.year, fromYear));
+  }
+
+  return rates.length;
+}
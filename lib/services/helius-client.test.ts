@@ -0,0 +1,56 @@
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createHeliusMockServer } from '@/scripts/helius-mock';
+import { createHeliusClient, type HeliusClient } from './helius-client';
+
+const WALLET = '3tvFuVizovMvVmmwDME2ip5H3ufXdhuKpQmM4XWrXD6D';
+const EMPTY_WALLET = '1kZnKwLF33jNGdd7GKuPfHy7Mrh1hKjssamtpGuYp4rf';
+
+const server = createHeliusMockServer({
+  fixturesDir: path.resolve('fixtures/helius'),
+  log: () => {},
+});
+let baseUrl: string;
+let client: HeliusClient;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/`;
+  client = createHeliusClient({ apiKey: 'test', baseUrl });
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const signatures = (page: { signature: string }[]) => page.map(tx => tx.signature.slice(0, 8));
+
+describe('createHeliusClient', () => {
+  it('pages through a wallet\'s history with `before`, newest first', async () => {
+    const first = await client.getTransactionsPage(WALLET);
+    expect(signatures(first)).toEqual(['MWHqsDhm', 'mxaRwdyG', 'T1N7GTM6', 'fd85u2Zr']);
+
+    const second = await client.getTransactionsPage(WALLET, { before: first[first.length - 1].signature });
+    expect(signatures(second)).toEqual(['YAZiRyjL', 'MoGcWwkv', '6Rm4Sjks']);
+
+    const third = await client.getTransactionsPage(WALLET, { before: second[second.length - 1].signature });
+    expect(third).toEqual([]);
+  });
+
+  it('stops at `until`', async () => {
+    const page = await client.getTransactionsPage(WALLET, {
+      until: 'mxaRwdyGwAqGAzHrVR9xR7gbARrpqMc7RRQde1P1bVfLPxjPmfmdXgcGYZAJxgtKME25Wcy15rjK3xfFN816bHJb',
+    });
+    expect(signatures(page)).toEqual(['MWHqsDhm']);
+  });
+
+  it('returns an empty page for a wallet without transactions', async () => {
+    expect(await client.getTransactionsPage(EMPTY_WALLET)).toEqual([]);
+  });
+
+  it('throws on an error response', async () => {
+    const unauthenticated = createHeliusClient({ apiKey: '', baseUrl });
+    await expect(unauthenticated.getTransactionsPage(WALLET)).rejects.toThrow('Helius request failed: 401');
+  });
+});
@@ -0,0 +1,45 @@
+import type { HeliusTransaction } from './transaction-parser';
+
+const DEFAULT_HELIUS_API_URL = 'https://api.helius.xyz';
+
+// Pagination cursors, both exclusive
+export interface TransactionPageCursor {
+  before?: string; // only transactions older than this signature
+  until?: string; // only transactions newer than this signature
+}
+
+// Source of a wallet's enhanced transactions, newest first
+export interface HeliusClient {
+  getTransactionsPage(walletAddress: string, cursor?: TransactionPageCursor): Promise<HeliusTransaction[]>;
+}
+
+export interface HeliusClientOptions {
+  apiKey: string;
+  // Helius API or a stand-in serving the same routes, e.g. the mock server
+  baseUrl?: string;
+}
+
+// Client for the Helius enhanced transactions API. The base URL defaults to
+// HELIUS_API_URL, then the public API.
+export function createHeliusClient({ apiKey, baseUrl }: HeliusClientOptions): HeliusClient {
+  const root = (baseUrl || process.env.HELIUS_API_URL || DEFAULT_HELIUS_API_URL).replace(/\/+$/, '');
+
+  return {
+    async getTransactionsPage(walletAddress, { before, until } = {}) {
+      let url = `${root}/v0/addresses/${walletAddress}/transactions?api-key=${apiKey}`;
+      if (before) {
+        url += `&before=${before}`;
+      }
+      if (until) {
+        url += `&until=${until}`;
+      }
+
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Helius request failed: ${response.status} ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+  };
+}
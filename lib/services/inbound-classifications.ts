@@ -0,0 +1,64 @@
+import { db, inboundClassifications, transactions, type InboundClassification, type Transaction } from '@/lib/db';
+import { and, eq, inArray } from 'drizzle-orm';
+import type { InboundKind } from './airdrops';
+
+// Transaction types an inbound transfer is stored as
+const INBOUND_TYPES = ['transfer_in', 'airdrop'];
+
+// Classifications for one or more wallets, keyed by transfer signature
+export async function getInboundClassifications(
+  walletAddresses: string[]
+): Promise<Map<string, InboundClassification>> {
+  const rows = await db
+    .select()
+    .from(inboundClassifications)
+    .where(inArray(inboundClassifications.walletAddress, walletAddresses));
+
+  return new Map(rows.map(row => [row.signature, row]));
+}
+
+// Classify an inbound transfer of a wallet. Choosing what the parser detected
+// removes the user's classification. Returns the transfer, or null when the
+// wallet has no inbound transfer with that signature.
+export async function classifyInboundTransfer(
+  walletAddress: string,
+  signature: string,
+  kind: InboundKind
+): Promise<Transaction | null> {
+  const [transfer] = await db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.walletAddress, walletAddress),
+        eq(transactions.signature, signature),
+        inArray(transactions.type, INBOUND_TYPES)
+      )
+    )
+    .limit(1);
+  if (!transfer) {
+    return null;
+  }
+
+  const detected: InboundKind = transfer.type === 'airdrop' ? 'airdrop' : 'transfer';
+  if (kind === detected) {
+    await db
+      .delete(inboundClassifications)
+      .where(
+        and(
+          eq(inboundClassifications.walletAddress, walletAddress),
+          eq(inboundClassifications.signature, signature)
+        )
+      );
+  } else {
+    await db
+      .insert(inboundClassifications)
+      .values({ walletAddress, signature, kind })
+      .onConflictDoUpdate({
+        target: [inboundClassifications.walletAddress, inboundClassifications.signature],
+        set: { kind, updatedAt: new Date() },
+      });
+  }
+
+  return transfer;
+}
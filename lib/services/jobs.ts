@@ -0,0 +1,315 @@
+import { db, jobs, type Job } from '@/lib/db';
+import { and, asc, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import superjson, { type SuperJSONResult } from 'superjson';
+import { createHeliusClient } from './helius-client';
+import { syncWalletTransactions } from './sync';
+import { calculateTaxYear, getTaxSubject, viewOnlyTaxSubject } from './tax-year';
+import type { InboundCostBasis, TaxSummary, ValuationMode } from './tax-calculator';
+import type { ExchangeType } from './tax-rules';
+import type { CostBasisMethod } from './cost-basis';
+
+export const JOB_TYPES = ['sync', 'calculate'] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_STATUSES = ['pending', 'running', 'completed', 'failed', 'cancelled'] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+const ACTIVE_STATUSES: JobStatus[] = ['pending', 'running'];
+
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 10_000;
+// A running job without a heartbeat for this long is resumed by the runner
+const STALE_JOB_MS = 60_000;
+// Runs before a job that keeps getting interrupted is given up
+const MAX_ATTEMPTS = 3;
+
+const SYNC_MAX_PAGES = 50;
+
+export interface SyncJobInput {
+  walletAddress: string;
+  year: number;
+}
+
+export interface SyncJobResult {
+  fetched: number;
+  parsed: number; // stored swaps and transfers within `year`
+  year: number;
+  historyComplete: boolean;
+}
+
+export interface CalculateJobInput {
+  walletAddress: string;
+  year: number;
+  valuation?: ValuationMode;
+  exchangeType?: ExchangeType;
+  method?: CostBasisMethod;
+  inboundCostBasis?: InboundCostBasis;
+  groupId?: string;
+  viewOnly?: boolean; // started by someone who does not own the wallet
+}
+
+interface JobTypes {
+  sync: { input: SyncJobInput; result: SyncJobResult };
+  calculate: { input: CalculateJobInput; result: TaxSummary };
+}
+
+// Progress as reported by the job so far
+export interface JobProgress {
+  pagesFetched?: number;
+  maxPages?: number;
+  transactionsFetched?: number;
+  transactionsParsed?: number;
+  pricesResolved?: number;
+  pricesTotal?: number;
+}
+
+// A job with its input and result typed by job type
+export type JobView = {
+  [T in JobType]: Omit<Job, 'type' | 'input' | 'status' | 'progress' | 'result'> & {
+    type: T;
+    input: JobTypes[T]['input'];
+    status: JobStatus;
+    progress: JobProgress | null;
+    result: JobTypes[T]['result'] | null;
+  };
+}[JobType];
+
+class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+  }
+}
+
+interface JobContext {
+  // Store progress; throws once the job was asked to cancel
+  reportProgress(progress: JobProgress): Promise<void>;
+}
+
+type JobHandlers = {
+  [T in JobType]: (input: JobTypes[T]['input'], context: JobContext) => Promise<JobTypes[T]['result']>;
+};
+
+const JOB_HANDLERS: JobHandlers = {
+  // Sync a wallet from Helius. An interrupted sync resumes from the stored
+  // cursors, so a resumed job only fetches what is still missing.
+  async sync({ walletAddress, year }, { reportProgress }) {
+    const apiKey = process.env.HELIUS_API_KEY;
+    if (!apiKey) {
+      throw new Error('HELIUS_API_KEY is not set');
+    }
+
+    const result = await syncWalletTransactions(createHeliusClient({ apiKey }), walletAddress, {
+      maxPages: SYNC_MAX_PAGES,
+      onProgress: ({ pages, fetched, stored }) =>
+        reportProgress({
+          pagesFetched: pages,
+          maxPages: SYNC_MAX_PAGES,
+          transactionsFetched: fetched,
+          transactionsParsed: stored,
+        }),
+    });
+
+    const startDate = new Date(year, 0, 1);
+    const endDate = new Date(year, 11, 31, 23, 59, 59);
+    return {
+      fetched: result.fetched,
+      parsed: result.stored.filter(timestamp => timestamp >= startDate && timestamp <= endDate).length,
+      year,
+      historyComplete: result.historyComplete,
+    };
+  },
+
+  // Calculate one tax year, reporting price lookups as they resolve
+  async calculate({ walletAddress, year, groupId, viewOnly, ...options }, { reportProgress }) {
+    const subject = viewOnly ? viewOnlyTaxSubject(walletAddress) : await getTaxSubject(walletAddress, groupId);
+    if (!subject) {
+      throw new Error('Wallet is not a member of this group');
+    }
+
+    return calculateTaxYear(subject, year, {
+      ...options,
+      onPriceProgress: (resolved, total) => reportProgress({ pricesResolved: resolved, pricesTotal: total }),
+    });
+  },
+};
+
+function toJobView(job: Job): JobView {
+  return {
+    ...job,
+    result: job.result ? superjson.deserialize(job.result as SuperJSONResult) : null,
+  } as JobView;
+}
+
+// Queue a job; the runner starts it right away when idle
+export async function createJob<T extends JobType>(type: T, input: JobTypes[T]['input']): Promise<JobView> {
+  const [job] = await db
+    .insert(jobs)
+    .values({ type, walletAddress: input.walletAddress, input })
+    .returning();
+
+  void drainJobs();
+  return toJobView(job);
+}
+
+export async function getJob(id: string): Promise<JobView | null> {
+  const [job] = await db.select().from(jobs).where(eq(jobs.id, id)).limit(1);
+  return job ? toJobView(job) : null;
+}
+
+// Pending and running jobs of a wallet, oldest first
+export async function getActiveJobs(walletAddress: string, type?: JobType): Promise<JobView[]> {
+  const rows = await db
+    .select()
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.walletAddress, walletAddress),
+        inArray(jobs.status, ACTIVE_STATUSES),
+        type ? eq(jobs.type, type) : undefined
+      )
+    )
+    .orderBy(asc(jobs.createdAt));
+
+  return rows.map(toJobView);
+}
+
+// Cancel a job. A pending job stops right away, a running one at its next
+// progress report; work it already stored is kept.
+export async function cancelJob(id: string): Promise<JobView | null> {
+  const [pending] = await db
+    .update(jobs)
+    .set({ status: 'cancelled', cancelRequested: true, finishedAt: new Date() })
+    .where(and(eq(jobs.id, id), eq(jobs.status, 'pending')))
+    .returning();
+  if (pending) {
+    return toJobView(pending);
+  }
+
+  const [running] = await db
+    .update(jobs)
+    .set({ cancelRequested: true })
+    .where(and(eq(jobs.id, id), eq(jobs.status, 'running')))
+    .returning();
+
+  return running ? toJobView(running) : getJob(id);
+}
+
+// Claim the oldest pending job, or a running one whose runner went away.
+// SKIP LOCKED keeps two runners from claiming the same job.
+async function claimNextJob(): Promise<Job | null> {
+  const next = db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(
+      or(
+        eq(jobs.status, 'pending'),
+        and(eq(jobs.status, 'running'), lt(jobs.heartbeatAt, new Date(Date.now() - STALE_JOB_MS)))
+      )
+    )
+    .orderBy(asc(jobs.createdAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [job] = await db
+    .update(jobs)
+    .set({ status: 'running', heartbeatAt: new Date(), attempts: sql`${jobs.attempts} + 1` })
+    .where(inArray(jobs.id, next))
+    .returning();
+
+  return job || null;
+}
+
+async function finishJob(id: string, changes: Partial<Job>) {
+  await db
+    .update(jobs)
+    .set({ ...changes, finishedAt: new Date() })
+    .where(eq(jobs.id, id));
+}
+
+async function runJob(job: Job) {
+  if (job.cancelRequested) {
+    return finishJob(job.id, { status: 'cancelled' });
+  }
+  if (job.attempts > MAX_ATTEMPTS) {
+    return finishJob(job.id, { status: 'failed', error: `Interrupted ${MAX_ATTEMPTS} times` });
+  }
+
+  await db
+    .update(jobs)
+    .set({ startedAt: new Date() })
+    .where(and(eq(jobs.id, job.id), isNull(jobs.startedAt)));
+
+  // Keep the job claimed while the handler waits on slow providers
+  const heartbeat = setInterval(() => {
+    db.update(jobs)
+      .set({ heartbeatAt: new Date() })
+      .where(eq(jobs.id, job.id))
+      .catch(error => console.error(`Heartbeat failed for job ${job.id}:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const context: JobContext = {
+    async reportProgress(progress) {
+      const [row] = await db
+        .update(jobs)
+        .set({ progress, heartbeatAt: new Date() })
+        .where(eq(jobs.id, job.id))
+        .returning({ cancelRequested: jobs.cancelRequested });
+
+      if (row?.cancelRequested) {
+        throw new JobCancelledError();
+      }
+    },
+  };
+
+  try {
+    const handler = JOB_HANDLERS[job.type as JobType] as (input: unknown, context: JobContext) => Promise<unknown>;
+    const result = await handler(job.input, context);
+    await finishJob(job.id, { status: 'completed', result: superjson.serialize(result) });
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      await finishJob(job.id, { status: 'cancelled' });
+    } else {
+      console.error(`Job ${job.id} (${job.type}) failed:`, error);
+      await finishJob(job.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Runner state, shared by every copy of this module in the process
+const runner = globalThis as typeof globalThis & {
+  jobRunner?: { draining: boolean; timer?: NodeJS.Timeout };
+};
+
+// Run queued jobs one at a time until none are left
+async function drainJobs() {
+  const state = (runner.jobRunner ??= { draining: false });
+  if (state.draining) {
+    return;
+  }
+
+  state.draining = true;
+  try {
+    let job: Job | null;
+    while ((job = await claimNextJob())) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error('Job runner error:', error);
+  } finally {
+    state.draining = false;
+  }
+}
+
+// Poll for queued jobs, including those a previous server process left
+// running. Called once at server start.
+export function startJobRunner() {
+  const state = (runner.jobRunner ??= { draining: false });
+  if (state.timer) {
+    return;
+  }
+
+  state.timer = setInterval(() => void drainJobs(), POLL_INTERVAL_MS);
+  void drainJobs();
+}
@@ -0,0 +1,38 @@
+import { decodeBase58, type LendingInstruction, type LendingProgramParser, type RawInstruction } from './instruction';
+import { kamino } from './kamino';
+import { marginfi } from './marginfi';
+import { solend } from './solend';
+
+export { LENDING_ACTIONS, type LendingAction, type LendingInstruction } from './instruction';
+
+// Lending protocols the parser recognizes
+export const LENDING_PROTOCOLS = ['kamino', 'marginfi', 'solend'] as const;
+export type LendingProtocol = (typeof LENDING_PROTOCOLS)[number];
+
+export const LENDING_PROTOCOL_LABELS: Record<LendingProtocol, string> = {
+  kamino: 'Kamino',
+  marginfi: 'MarginFi',
+  solend: 'Solend',
+};
+
+const PARSERS: Record<LendingProtocol, LendingProgramParser> = { kamino, marginfi, solend };
+
+// First lending instruction among `instructions` (inner instructions
+// included), with the protocol it belongs to
+export function findLendingInstruction(
+  instructions: Array<RawInstruction & { innerInstructions?: RawInstruction[] }>
+): (LendingInstruction & { protocol: LendingProtocol }) | null {
+  const all = instructions.flatMap(instruction => [instruction, ...(instruction.innerInstructions || [])]);
+  for (const instruction of all) {
+    for (const protocol of LENDING_PROTOCOLS) {
+      const parser = PARSERS[protocol];
+      if (instruction.programId !== parser.programId || !instruction.data) continue;
+
+      const parsed = parser.parseInstruction(decodeBase58(instruction.data), instruction.accounts || []);
+      if (parsed) {
+        return { ...parsed, protocol };
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,64 @@
+// Lending actions the protocol parsers recognize:
+// - deposit / withdraw: the wallet supplies an asset to its lending account,
+//   or takes it back
+// - borrow / repay: the wallet takes out a loan against the account, or pays
+//   it back
+// - liquidation: someone else repaid part of the account's loan and took
+//   collateral from it in return
+export const LENDING_ACTIONS = ['deposit', 'withdraw', 'borrow', 'repay', 'liquidation'] as const;
+export type LendingAction = (typeof LENDING_ACTIONS)[number];
+
+// An instruction as Helius reports it, with base58 instruction data
+export interface RawInstruction {
+  programId: string;
+  accounts?: string[];
+  data?: string;
+}
+
+// A lending instruction: what it does, and to which lending account (Kamino
+// obligation, MarginFi account, Solend obligation)
+export interface LendingInstruction {
+  action: LendingAction;
+  account: string;
+}
+
+// Recognizes the lending instructions of one program
+export interface LendingProgramParser {
+  programId: string;
+  parseInstruction(data: Uint8Array, accounts: string[]): LendingInstruction | null;
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Bytes of base58 instruction data; empty when it is not valid base58
+export function decodeBase58(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) return new Uint8Array();
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // Leading '1's are leading zero bytes
+  for (let i = 0; i < value.length && value[i] === '1'; i++) {
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
+
+// Anchor instruction discriminator (first 8 bytes of the data) as hex
+export function anchorDiscriminator(data: Uint8Array): string {
+  return Array.from(data.subarray(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Account at `index`, when the instruction has one there
+export function accountAt(accounts: string[], index: number): string | null {
+  return accounts[index] || null;
+}
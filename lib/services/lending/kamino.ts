@@ -0,0 +1,27 @@
+import { accountAt, anchorDiscriminator, type LendingAction, type LendingProgramParser } from './instruction';
+
+// Kamino Lend instructions by Anchor discriminator. The obligation is the
+// second account of each, v2 variants included.
+const INSTRUCTIONS: Record<string, LendingAction> = {
+  '81c70402de271a2e': 'deposit', // deposit_reserve_liquidity_and_obligation_collateral
+  'd8e0bf1bcc9766af': 'deposit', // deposit_reserve_liquidity_and_obligation_collateral_v2
+  '4b5d5ddc2296dac4': 'withdraw', // withdraw_obligation_collateral_and_redeem_reserve_collateral
+  'eb34779895c51407': 'withdraw', // withdraw_obligation_collateral_and_redeem_reserve_collateral_v2
+  '797f12cc49f5e141': 'borrow', // borrow_obligation_liquidity
+  'a1808ff5abc7c206': 'borrow', // borrow_obligation_liquidity_v2
+  '91b20de14cf09348': 'repay', // repay_obligation_liquidity
+  '74aed54cb435d290': 'repay', // repay_obligation_liquidity_v2
+  'b1479abce2854a37': 'liquidation', // liquidate_obligation_and_redeem_reserve_collateral
+  'a2a1238f1ebbb967': 'liquidation', // liquidate_obligation_and_redeem_reserve_collateral_v2
+};
+
+const OBLIGATION_INDEX = 1;
+
+export const kamino: LendingProgramParser = {
+  programId: 'KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD',
+  parseInstruction(data, accounts) {
+    const action = INSTRUCTIONS[anchorDiscriminator(data)];
+    const account = accountAt(accounts, OBLIGATION_INDEX);
+    return action && account ? { action, account } : null;
+  },
+};
@@ -0,0 +1,20 @@
+import { accountAt, anchorDiscriminator, type LendingAction, type LendingProgramParser } from './instruction';
+
+// MarginFi v2 instructions by Anchor discriminator, with the position of the
+// MarginFi account among their accounts (the liquidated one for liquidations)
+const INSTRUCTIONS: Record<string, { action: LendingAction; accountIndex: number }> = {
+  'ab5eeb675240d48c': { action: 'deposit', accountIndex: 1 }, // lending_account_deposit
+  '24484a13d2d2c0c0': { action: 'withdraw', accountIndex: 1 }, // lending_account_withdraw
+  '047e74353005d41f': { action: 'borrow', accountIndex: 1 }, // lending_account_borrow
+  '4fd1acb1de33ad97': { action: 'repay', accountIndex: 1 }, // lending_account_repay
+  'd6a997d5fba756db': { action: 'liquidation', accountIndex: 5 }, // lending_account_liquidate
+};
+
+export const marginfi: LendingProgramParser = {
+  programId: 'MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FZnsebVacA',
+  parseInstruction(data, accounts) {
+    const instruction = INSTRUCTIONS[anchorDiscriminator(data)];
+    const account = instruction && accountAt(accounts, instruction.accountIndex);
+    return instruction && account ? { action: instruction.action, account } : null;
+  },
+};
@@ -0,0 +1,21 @@
+import { accountAt, type LendingAction, type LendingProgramParser } from './instruction';
+
+// Solend instructions by their tag (first byte of the data), with the
+// position of the obligation among their accounts
+const INSTRUCTIONS: Record<number, { action: LendingAction; accountIndex: number }> = {
+  10: { action: 'borrow', accountIndex: 4 }, // BorrowObligationLiquidity
+  11: { action: 'repay', accountIndex: 3 }, // RepayObligationLiquidity
+  12: { action: 'liquidation', accountIndex: 6 }, // LiquidateObligation
+  14: { action: 'deposit', accountIndex: 8 }, // DepositReserveLiquidityAndObligationCollateral
+  15: { action: 'withdraw', accountIndex: 3 }, // WithdrawObligationCollateralAndRedeemReserveCollateral
+  17: { action: 'liquidation', accountIndex: 10 }, // LiquidateObligationAndRedeemReserveCollateral
+};
+
+export const solend: LendingProgramParser = {
+  programId: 'So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo',
+  parseInstruction(data, accounts) {
+    const instruction = data.length > 0 ? INSTRUCTIONS[data[0]] : undefined;
+    const account = instruction && accountAt(accounts, instruction.accountIndex);
+    return instruction && account ? { action: instruction.action, account } : null;
+  },
+};
@@ -0,0 +1,38 @@
+// Liquidity pool protocols the parser recognizes
+export const LP_PROTOCOLS = ['raydium', 'orca', 'meteora'] as const;
+export type LpProtocol = (typeof LP_PROTOCOLS)[number];
+
+export const LP_PROTOCOL_LABELS: Record<LpProtocol, string> = {
+  raydium: 'Raydium',
+  orca: 'Orca Whirlpools',
+  meteora: 'Meteora',
+};
+
+// Pool programs. Swaps routed through them carry a swap event and are not
+// liquidity changes.
+const LP_PROGRAMS: Record<string, LpProtocol> = {
+  '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8': 'raydium', // AMM v4
+  'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C': 'raydium', // CPMM
+  'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK': 'raydium', // CLMM
+  'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc': 'orca',
+  'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YtTaVQeh': 'meteora', // DLMM
+  'Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB': 'meteora', // dynamic pools
+  'cpamdpZCGKUy5JxQXB4dcpGPiikHawvSWAd6mEn1sGG': 'meteora', // DAMM v2
+};
+
+// Liquidity protocol of the first pool program among `programIds`, if any
+export function lpProtocolOf(programIds: string[]): LpProtocol | null {
+  for (const programId of programIds) {
+    if (LP_PROGRAMS[programId]) {
+      return LP_PROGRAMS[programId];
+    }
+  }
+  return null;
+}
+
+// Position a liquidity transaction changes, as found by the parser
+export interface ParsedLpPosition {
+  position: string; // LP token mint, or pool address
+  protocol: LpProtocol;
+  mints: string[]; // pool tokens moved
+}
@@ -0,0 +1,49 @@
+import { db, lpPositions, type LpPosition } from '@/lib/db';
+import { asc, inArray, sql } from 'drizzle-orm';
+import type { ParsedLpPosition } from './liquidity';
+
+// Database handle or an open transaction
+type Executor = Pick<typeof db, 'insert'>;
+
+// Record the position of a stored liquidity transaction, widening its known
+// activity and tokens. Safe to repeat, e.g. when re-parsing.
+export async function saveLpPosition(
+  walletAddress: string,
+  timestamp: Date,
+  parsed: ParsedLpPosition,
+  executor: Executor = db
+) {
+  await executor
+    .insert(lpPositions)
+    .values({
+      walletAddress,
+      position: parsed.position,
+      protocol: parsed.protocol,
+      mints: parsed.mints,
+      openedAt: timestamp,
+      lastActivityAt: timestamp,
+    })
+    .onConflictDoUpdate({
+      target: [lpPositions.walletAddress, lpPositions.position],
+      set: {
+        protocol: parsed.protocol,
+        mints: sql`(SELECT jsonb_agg(DISTINCT mint) FROM jsonb_array_elements_text(${lpPositions.mints} || excluded.mints) AS mint)`,
+        openedAt: sql`LEAST(${lpPositions.openedAt}, excluded.opened_at)`,
+        lastActivityAt: sql`GREATEST(${lpPositions.lastActivityAt}, excluded.last_activity_at)`,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+// Positions of the wallets, oldest first
+export async function getLpPositions(walletAddresses: string[]): Promise<LpPosition[]> {
+  if (walletAddresses.length === 0) {
+    return [];
+  }
+
+  return db
+    .select()
+    .from(lpPositions)
+    .where(inArray(lpPositions.walletAddress, walletAddresses))
+    .orderBy(asc(lpPositions.openedAt));
+}
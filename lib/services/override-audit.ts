@@ -0,0 +1,22 @@
+import { db, overrideAudit, type NewOverrideAudit, type OverrideAudit } from '@/lib/db';
+import { desc, eq } from 'drizzle-orm';
+
+// Kinds of user-provided data that are audited
+export type OverrideType = 'price' | 'cost_basis';
+
+// Database handle or an open transaction
+type Executor = Pick<typeof db, 'insert'>;
+
+// Record one change to an override (who, when, old value, new value)
+export async function recordOverrideAudit(entry: NewOverrideAudit, executor: Executor = db) {
+  await executor.insert(overrideAudit).values(entry);
+}
+
+// Audit trail for a wallet, newest first
+export async function getOverrideAudit(walletAddress: string): Promise<OverrideAudit[]> {
+  return db
+    .select()
+    .from(overrideAudit)
+    .where(eq(overrideAudit.walletAddress, walletAddress))
+    .orderBy(desc(overrideAudit.changedAt));
+}
@@ -0,0 +1,163 @@
+import { db, priceOverrides, type PriceOverride } from '@/lib/db';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { recordOverrideAudit } from './override-audit';
+
+// Timestamp overrides apply to lookups within the same 15-minute candle
+const OVERRIDE_MATCH_WINDOW_MS = 15 * 60 * 1000;
+
+export interface SetPriceOverrideInput {
+  walletAddress: string;
+  tokenAddress: string;
+  signature?: string; // either a transaction...
+  timestamp?: Date; // ...or a point in time
+  priceUsd: number;
+  note?: string;
+}
+
+// A price lookup that may be covered by an override
+export interface PriceOverrideLookup {
+  walletAddress: string;
+  tokenAddress: string;
+  timestamp: Date;
+  signature?: string;
+}
+
+// Overrides for one or more wallets
+export async function getPriceOverrides(walletAddresses: string[]): Promise<PriceOverride[]> {
+  if (walletAddresses.length === 0) {
+    return [];
+  }
+
+  return db
+    .select()
+    .from(priceOverrides)
+    .where(inArray(priceOverrides.walletAddress, walletAddresses));
+}
+
+// Find the override for a lookup: a transaction override wins over the
+// nearest timestamp override in the same candle
+export function findPriceOverride(
+  overrides: PriceOverride[],
+  lookup: PriceOverrideLookup
+): PriceOverride | null {
+  const candidates = overrides.filter(
+    override =>
+      override.walletAddress === lookup.walletAddress &&
+      override.tokenAddress === lookup.tokenAddress
+  );
+
+  if (lookup.signature) {
+    const bySignature = candidates.find(override => override.signature === lookup.signature);
+    if (bySignature) {
+      return bySignature;
+    }
+  }
+
+  const time = lookup.timestamp.getTime();
+  return candidates
+    .filter(override => override.timestamp && Math.abs(override.timestamp.getTime() - time) < OVERRIDE_MATCH_WINDOW_MS)
+    .sort((a, b) => Math.abs(a.timestamp!.getTime() - time) - Math.abs(b.timestamp!.getTime() - time))[0] || null;
+}
+
+// Create or update an override, recording the change
+export async function setPriceOverride(
+  input: SetPriceOverrideInput,
+  changedBy: string
+): Promise<PriceOverride> {
+  const signature = input.signature || null;
+  const timestamp = signature ? null : input.timestamp || null;
+  if (!signature && !timestamp) {
+    throw new Error('A price override needs a signature or a timestamp');
+  }
+
+  return db.transaction(async tx => {
+    const [existing] = await tx
+      .select()
+      .from(priceOverrides)
+      .where(
+        and(
+          eq(priceOverrides.walletAddress, input.walletAddress),
+          eq(priceOverrides.tokenAddress, input.tokenAddress),
+          signature ? eq(priceOverrides.signature, signature) : isNull(priceOverrides.signature),
+          timestamp ? eq(priceOverrides.timestamp, timestamp) : isNull(priceOverrides.timestamp)
+        )
+      )
+      .limit(1);
+
+    const [override] = existing
+      ? await tx
+        .update(priceOverrides)
+        .set({
+          priceUsd: input.priceUsd.toString(),
+          note: input.note || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(priceOverrides.id, existing.id))
+        .returning()
+      : await tx
+        .insert(priceOverrides)
+        .values({
+          walletAddress: input.walletAddress,
+          tokenAddress: input.tokenAddress,
+          signature,
+          timestamp,
+          priceUsd: input.priceUsd.toString(),
+          note: input.note || null,
+          createdBy: changedBy,
+        })
+        .returning();
+
+    await recordOverrideAudit({
+      overrideType: 'price',
+      overrideId: override.id,
+      walletAddress: override.walletAddress,
+      tokenAddress: override.tokenAddress,
+      signature: override.signature,
+      timestamp: override.timestamp,
+      action: existing ? 'update' : 'create',
+      oldValue: existing?.priceUsd ?? null,
+      newValue: override.priceUsd,
+      changedBy,
+    }, tx);
+
+    return override;
+  });
+}
+
+// Overrides for a wallet
+export async function listPriceOverrides(walletAddress: string): Promise<PriceOverride[]> {
+  return getPriceOverrides([walletAddress]);
+}
+
+// Delete an override, recording the change. Returns false if it did not exist.
+export async function deletePriceOverride(
+  walletAddress: string,
+  id: string,
+  changedBy: string
+): Promise<boolean> {
+  return db.transaction(async tx => {
+    const [deleted] = await tx
+      .delete(priceOverrides)
+      .where(and(eq(priceOverrides.id, id), eq(priceOverrides.walletAddress, walletAddress)))
+      .returning();
+
+    if (!deleted) {
+      return false;
+    }
+
+    await recordOverrideAudit({
+      overrideType: 'price',
+      overrideId: deleted.id,
+      walletAddress: deleted.walletAddress,
+      tokenAddress: deleted.tokenAddress,
+      signature: deleted.signature,
+      timestamp: deleted.timestamp,
+      action: 'delete',
+      oldValue: deleted.priceUsd,
+      newValue: null,
+      changedBy,
+    }, tx);
+
+    return true;
+  });
+}
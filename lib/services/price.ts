@@ -1,5 +1,7 @@
 import { db, tokenPrices } from '@/lib/db';
-import { and, eq, gte, lte } from 'drizzle-orm';
+import { and, asc, eq, gte, lte, sql } from 'drizzle-orm';
+import type { PriceOverride } from '@/lib/db/schema';
+import { findPriceOverride, getPriceOverrides } from './price-overrides';
 
 // Major tokens that should be cached (3 hours)
 const MAJOR_TOKENS = new Set([
@@ -14,20 +16,62 @@ const MAJOR_TOKENS = new Set([
 
 const CACHE_DURATION_MS = 3 * 60 * 60 * 1000; // 3 hours for major tokens
 
-interface PriceResult {
+// Lookups older than this are resolved from price history, not spot prices
+const LIVE_PRICE_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+
+// Historical prices are resolved per 15-minute candle
+const HISTORICAL_RESOLUTION_MS = 15 * 60 * 1000;
+
+// Source reported for prices entered by the user
+export const MANUAL_PRICE_SOURCE = 'manual';
+
+export interface PriceResult {
   priceUsd: number | null;
   source: string;
   cached: boolean;
 }
 
+// A price lookup for one token at one point in time
+export interface PriceRequest {
+  tokenAddress: string;
+  timestamp: Date;
+  signature?: string;
+  walletAddress?: string; // applies this wallet's manual price overrides
+}
+
+// Source of historical prices (OHLCV / price history endpoints)
+export interface HistoricalPriceProvider {
+  name: string;
+  fetchPrice(tokenAddress: string, timestamp: Date): Promise<number | null>;
+}
+
+interface DexScreenerPair {
+  priceUsd?: string;
+  liquidity?: {
+    usd?: number;
+  };
+}
+
+// Key used to look up the result of a PriceRequest
+export function priceRequestKey(request: PriceRequest): string {
+  return `${request.tokenAddress}:${request.signature ?? request.timestamp.getTime()}`;
+}
+
+function isHistorical(timestamp: Date): boolean {
+  return Date.now() - timestamp.getTime() > LIVE_PRICE_WINDOW_MS;
+}
+
 // Check cache for price
 async function checkCache(tokenAddress: string, timestamp: Date): Promise<PriceResult | null> {
-  // Only check cache for major tokens
-  if (!MAJOR_TOKENS.has(tokenAddress)) {
+  // Historical prices never change, so they are cached for every token.
+  // Spot prices are only cached for major tokens.
+  const historical = isHistorical(timestamp);
+  if (!historical && !MAJOR_TOKENS.has(tokenAddress)) {
     return null;
   }
 
-  const cacheWindow = new Date(timestamp.getTime() - CACHE_DURATION_MS);
+  const windowMs = historical ? HISTORICAL_RESOLUTION_MS : CACHE_DURATION_MS;
+  const cacheWindow = new Date(timestamp.getTime() - windowMs);
 
   const cached = await db
     .select()
@@ -36,9 +80,11 @@ async function checkCache(tokenAddress: string, timestamp: Date): Promise<PriceR
       and(
         eq(tokenPrices.tokenAddress, tokenAddress),
         gte(tokenPrices.timestamp, cacheWindow),
-        lte(tokenPrices.timestamp, new Date(timestamp.getTime() + CACHE_DURATION_MS))
+        lte(tokenPrices.timestamp, new Date(timestamp.getTime() + windowMs))
       )
     )
+    // The price closest to the requested time, not any in the window
+    .orderBy(asc(sql`abs(extract(epoch from ${tokenPrices.timestamp} - ${timestamp.toISOString()}::timestamp))`))
     .limit(1);
 
   if (cached.length > 0 && cached[0].priceUsd) {
@@ -118,10 +164,10 @@ async function fetchDexScreenerPrice(tokenAddress: string): Promise<number | nul
     // Get the first pair with the highest liquidity
     if (data.pairs && data.pairs.length > 0) {
       // Sort by liquidity and get the best price
-      const sortedPairs = data.pairs.sort(
-        (a: any, b: any) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0)
+      const sortedPairs = (data.pairs as DexScreenerPair[]).sort(
+        (a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0)
       );
-      return parseFloat(sortedPairs[0].priceUsd) || null;
+      return parseFloat(sortedPairs[0].priceUsd || '') || null;
     }
 
     return null;
@@ -131,46 +177,185 @@ async function fetchDexScreenerPrice(tokenAddress: string): Promise<number | nul
   }
 }
 
-// Main function: get token price with waterfall approach
+// Birdeye OHLCV: close of the 15m candle the timestamp falls into
+const birdeyeOhlcvProvider: HistoricalPriceProvider = {
+  name: 'birdeye',
+  async fetchPrice(tokenAddress, timestamp) {
+    const apiKey = process.env.BIRDEYE_API_KEY;
+    if (!apiKey || apiKey === 'your_birdeye_api_key_here') {
+      return null;
+    }
+
+    const time = Math.floor(timestamp.getTime() / 1000);
+    const timeFrom = time - 60 * 60;
+    const timeTo = time + HISTORICAL_RESOLUTION_MS / 1000;
+
+    try {
+      const response = await fetch(
+        `https://public-api.birdeye.so/defi/ohlcv?address=${tokenAddress}&type=15m&time_from=${timeFrom}&time_to=${timeTo}`,
+        {
+          headers: {
+            'X-API-KEY': apiKey,
+            'x-chain': 'solana',
+          },
+        }
+      );
+
+      if (!response.ok) {
+        console.log(`Birdeye OHLCV error: ${response.status}`);
+        return null;
+      }
+
+      const data = await response.json();
+      const candles: Array<{ c: number; unixTime: number }> = data.data?.items || [];
+
+      // Latest candle that opened at or before the transaction
+      const candle = candles
+        .filter(item => item.unixTime <= time)
+        .sort((a, b) => b.unixTime - a.unixTime)[0];
+
+      return candle?.c || null;
+    } catch (error) {
+      console.error('Birdeye OHLCV fetch error:', error);
+      return null;
+    }
+  },
+};
+
+// CoinGecko market chart range: closest point to the timestamp
+const coinGeckoHistoryProvider: HistoricalPriceProvider = {
+  name: 'coingecko',
+  async fetchPrice(tokenAddress, timestamp) {
+    const time = Math.floor(timestamp.getTime() / 1000);
+    const from = time - 12 * 60 * 60;
+    const to = time + 12 * 60 * 60;
+
+    const apiKey = process.env.COINGECKO_API_KEY;
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+      headers['x-cg-demo-api-key'] = apiKey;
+    }
+
+    try {
+      const response = await fetch(
+        `https://api.coingecko.com/api/v3/coins/solana/contract/${tokenAddress}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`,
+        { headers }
+      );
+
+      if (!response.ok) {
+        console.log(`CoinGecko API error: ${response.status}`);
+        return null;
+      }
+
+      const data = await response.json();
+      const points: Array<[number, number]> = data.prices || [];
+      if (points.length === 0) {
+        return null;
+      }
+
+      const closest = points.reduce((best, point) =>
+        Math.abs(point[0] - timestamp.getTime()) < Math.abs(best[0] - timestamp.getTime())
+          ? point
+          : best
+      );
+
+      return closest[1] || null;
+    } catch (error) {
+      console.error('CoinGecko fetch error:', error);
+      return null;
+    }
+  },
+};
+
+// Historical providers in order of preference
+const HISTORICAL_PROVIDERS: HistoricalPriceProvider[] = [
+  birdeyeOhlcvProvider,
+  coinGeckoHistoryProvider,
+];
+
+// Spot price waterfall, only valid for "now"
+async function fetchSpotPrice(
+  tokenAddress: string
+): Promise<{ priceUsd: number; source: string } | null> {
+  // Birdeye (best for Solana)
+  const birdeyePrice = await fetchBirdeyePrice(tokenAddress);
+  if (birdeyePrice !== null) {
+    return { priceUsd: birdeyePrice, source: 'birdeye' };
+  }
+
+  // DexScreener (good for micro-caps)
+  const dexScreenerPrice = await fetchDexScreenerPrice(tokenAddress);
+  if (dexScreenerPrice !== null) {
+    return { priceUsd: dexScreenerPrice, source: 'dexscreener' };
+  }
+
+  return null;
+}
+
+// Price history waterfall across the historical providers
+async function fetchHistoricalPrice(
+  tokenAddress: string,
+  timestamp: Date
+): Promise<{ priceUsd: number; source: string } | null> {
+  for (const provider of HISTORICAL_PROVIDERS) {
+    const price = await provider.fetchPrice(tokenAddress, timestamp);
+    if (price !== null) {
+      return { priceUsd: price, source: provider.name };
+    }
+  }
+
+  return null;
+}
+
+function manualPrice(override: PriceOverride): PriceResult {
+  return {
+    priceUsd: Number(override.priceUsd),
+    source: MANUAL_PRICE_SOURCE,
+    cached: false,
+  };
+}
+
+// Main function: get token price at a point in time with waterfall approach.
+// With a wallet, that wallet's manual overrides take priority over providers.
 export async function getTokenPrice(
   tokenAddress: string,
-  timestamp: Date = new Date()
+  timestamp: Date = new Date(),
+  context?: { walletAddress: string; signature?: string }
 ): Promise<PriceResult> {
-  // 1. Check cache first (for major tokens only)
+  // 0. User-provided price
+  if (context) {
+    const overrides = await getPriceOverrides([context.walletAddress]);
+    const override = findPriceOverride(overrides, { ...context, tokenAddress, timestamp });
+    if (override) {
+      return manualPrice(override);
+    }
+  }
+
+  // 1. Check cache first
   const cached = await checkCache(tokenAddress, timestamp);
   if (cached) {
     return cached;
   }
 
-  // 2. Try Birdeye (best for Solana)
-  const birdeyePrice = await fetchBirdeyePrice(tokenAddress);
-  if (birdeyePrice !== null) {
-    // Save to cache for major tokens
-    if (MAJOR_TOKENS.has(tokenAddress)) {
-      await saveToCache(tokenAddress, timestamp, birdeyePrice, 'birdeye');
-    }
-    return {
-      priceUsd: birdeyePrice,
-      source: 'birdeye',
-      cached: false,
-    };
-  }
+  // 2. Historical providers for past timestamps, spot providers for "now"
+  const historical = isHistorical(timestamp);
+  const price = historical
+    ? await fetchHistoricalPrice(tokenAddress, timestamp)
+    : await fetchSpotPrice(tokenAddress);
 
-  // 3. Try DexScreener (good for micro-caps)
-  const dexScreenerPrice = await fetchDexScreenerPrice(tokenAddress);
-  if (dexScreenerPrice !== null) {
-    // Save to cache for major tokens
-    if (MAJOR_TOKENS.has(tokenAddress)) {
-      await saveToCache(tokenAddress, timestamp, dexScreenerPrice, 'dexscreener');
+  if (price) {
+    // Historical prices are cached for every token, spot prices for major tokens
+    if (historical || MAJOR_TOKENS.has(tokenAddress)) {
+      await saveToCache(tokenAddress, timestamp, price.priceUsd, price.source);
     }
     return {
-      priceUsd: dexScreenerPrice,
-      source: 'dexscreener',
+      priceUsd: price.priceUsd,
+      source: price.source,
       cached: false,
     };
   }
 
-  // 4. No price found
+  // 3. No price found
   return {
     priceUsd: null,
     source: 'none',
@@ -207,6 +392,65 @@ export async function getTokenPrices(
   return results;
 }
 
+// Called after each batch of provider lookups with the lookups done so far
+export type PriceProgressCallback = (resolved: number, total: number) => Promise<void>;
+
+// Get prices for many (token, timestamp) pairs, e.g. every swap leg of a year.
+// Requests falling into the same 15m candle share one provider lookup.
+// Requests with a wallet use its manual overrides first (loaded unless given).
+export async function getHistoricalTokenPrices(
+  requests: PriceRequest[],
+  overrides?: PriceOverride[],
+  onProgress?: PriceProgressCallback
+): Promise<Map<string, PriceResult>> {
+  const results = new Map<string, PriceResult>();
+
+  const walletAddresses = [
+    ...new Set(requests.map(request => request.walletAddress).filter((address): address is string => !!address)),
+  ];
+  const userPrices = overrides ?? await getPriceOverrides(walletAddresses);
+
+  // Group requests by token and candle
+  const groups = new Map<string, PriceRequest[]>();
+  for (const request of requests) {
+    const override = request.walletAddress
+      ? findPriceOverride(userPrices, { ...request, walletAddress: request.walletAddress })
+      : null;
+    if (override) {
+      results.set(priceRequestKey(request), manualPrice(override));
+      continue;
+    }
+
+    const bucket = Math.floor(request.timestamp.getTime() / HISTORICAL_RESOLUTION_MS);
+    const groupKey = `${request.tokenAddress}:${bucket}`;
+    if (!groups.has(groupKey)) {
+      groups.set(groupKey, []);
+    }
+    groups.get(groupKey)!.push(request);
+  }
+
+  const uniqueGroups = [...groups.values()];
+
+  // Fetch prices in parallel (with some rate limiting)
+  const batchSize = 5;
+  for (let i = 0; i < uniqueGroups.length; i += batchSize) {
+    const batch = uniqueGroups.slice(i, i + batchSize);
+    const promises = batch.map(async (group) => {
+      const price = await getTokenPrice(group[0].tokenAddress, group[0].timestamp);
+      group.forEach(request => results.set(priceRequestKey(request), price));
+    });
+    await Promise.all(promises);
+    await onProgress?.(Math.min(i + batchSize, uniqueGroups.length), uniqueGroups.length);
+
+    // Small delay between batches to avoid rate limiting
+    if (i + batchSize < uniqueGroups.length) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+  }
+
+  return results;
+}
+
 // Get USD to IDR exchange rate
 export async function getUsdToIdrRate(): Promise<number> {
   try {
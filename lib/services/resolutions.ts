@@ -0,0 +1,130 @@
+import { db, costBasisResolutions, transactions, type CostBasisResolution } from '@/lib/db';
+import { and, eq, inArray } from 'drizzle-orm';
+import type { ResolutionKind } from './cost-basis';
+import { recordOverrideAudit } from './override-audit';
+
+export interface ResolveDisposalInput {
+  walletAddress: string;
+  signature: string;
+  tokenAddress: string;
+  kind: ResolutionKind;
+  costBasisIdr?: number; // ignored for airdrops
+  acquiredAt?: Date;
+  reference?: string;
+}
+
+// Key of the resolution for one token disposed of in a transaction
+export function resolutionKey(signature: string, tokenAddress: string): string {
+  return `${signature}:${tokenAddress}`;
+}
+
+// Resolutions for one or more wallets, by `resolutionKey`
+export async function getResolutions(walletAddresses: string[]): Promise<Map<string, CostBasisResolution>> {
+  const rows = await db
+    .select()
+    .from(costBasisResolutions)
+    .where(inArray(costBasisResolutions.walletAddress, walletAddresses));
+
+  return new Map(rows.map(row => [resolutionKey(row.signature, row.tokenAddress), row]));
+}
+
+// Year of a wallet's disposal, from which its resolution changes year-end
+// lots; null when the transaction is not stored
+export async function getDisposalYear(walletAddress: string, signature: string): Promise<number | null> {
+  const [disposal] = await db
+    .select({ timestamp: transactions.timestamp })
+    .from(transactions)
+    .where(and(eq(transactions.walletAddress, walletAddress), eq(transactions.signature, signature)))
+    .limit(1);
+  return disposal ? disposal.timestamp.getFullYear() : null;
+}
+
+// Create or replace the resolution for a disposal, recording the change
+export async function resolveDisposal(
+  input: ResolveDisposalInput,
+  changedBy: string
+): Promise<CostBasisResolution> {
+  const values = {
+    walletAddress: input.walletAddress,
+    signature: input.signature,
+    tokenAddress: input.tokenAddress,
+    kind: input.kind,
+    costBasisIdr: (input.kind === 'airdrop' ? 0 : input.costBasisIdr || 0).toString(),
+    acquiredAt: input.kind === 'external' ? input.acquiredAt || null : null,
+    reference: input.reference || null,
+  };
+
+  return db.transaction(async tx => {
+    const [existing] = await tx
+      .select()
+      .from(costBasisResolutions)
+      .where(
+        and(
+          eq(costBasisResolutions.walletAddress, input.walletAddress),
+          eq(costBasisResolutions.signature, input.signature),
+          eq(costBasisResolutions.tokenAddress, input.tokenAddress)
+        )
+      )
+      .limit(1);
+
+    const [resolution] = await tx
+      .insert(costBasisResolutions)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [costBasisResolutions.walletAddress, costBasisResolutions.signature, costBasisResolutions.tokenAddress],
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    await recordOverrideAudit({
+      overrideType: 'cost_basis',
+      overrideId: resolution.id,
+      walletAddress: resolution.walletAddress,
+      tokenAddress: resolution.tokenAddress,
+      signature: resolution.signature,
+      timestamp: resolution.acquiredAt,
+      action: existing ? 'update' : 'create',
+      oldValue: existing?.costBasisIdr ?? null,
+      newValue: resolution.costBasisIdr,
+      changedBy,
+    }, tx);
+
+    return resolution;
+  });
+}
+
+// Remove a resolution, marking the token's disposal as unmatched again
+export async function deleteResolution(
+  walletAddress: string,
+  signature: string,
+  tokenAddress: string,
+  changedBy: string
+) {
+  await db.transaction(async tx => {
+    const [deleted] = await tx
+      .delete(costBasisResolutions)
+      .where(
+        and(
+          eq(costBasisResolutions.walletAddress, walletAddress),
+          eq(costBasisResolutions.signature, signature),
+          eq(costBasisResolutions.tokenAddress, tokenAddress)
+        )
+      )
+      .returning();
+
+    if (deleted) {
+      await recordOverrideAudit({
+        overrideType: 'cost_basis',
+        overrideId: deleted.id,
+        walletAddress: deleted.walletAddress,
+        tokenAddress: deleted.tokenAddress,
+        signature: deleted.signature,
+        timestamp: deleted.acquiredAt,
+        action: 'delete',
+        oldValue: deleted.costBasisIdr,
+        newValue: null,
+        changedBy,
+      }, tx);
+    }
+  });
+}
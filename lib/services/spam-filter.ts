@@ -0,0 +1,283 @@
+import {
+  db,
+  hiddenTokens,
+  tokenMarkets,
+  transactionLegs,
+  transactions,
+  type NewTokenMarket,
+  type Transaction,
+} from '@/lib/db';
+import { and, eq, inArray, isNull, lt, min, ne, or, sql } from 'drizzle-orm';
+import { getTokenMetadata } from './token-metadata';
+import { getHistoricalTokenPrices, priceRequestKey, type PriceRequest } from './price';
+import {
+  SPAM_FILTERED_TYPES,
+  isDustCandidate,
+  spamReasonOf,
+  transferTokenOf,
+  type SpamContext,
+  type SpamReason,
+} from './spam';
+
+const DEXSCREENER_TOKENS_URL = 'https://api.dexscreener.com/latest/dex/tokens';
+
+// Mints per DexScreener lookup (the most the endpoint takes)
+const MARKET_BATCH_SIZE = 30;
+
+// Most tokens checked per sync; the rest wait for the next one
+const MAX_MARKET_CHECKS = 300;
+
+// Markets are checked again after a week: a new token can gain liquidity
+const MARKET_CHECK_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface DexScreenerPair {
+  baseToken?: { address?: string };
+  quoteToken?: { address?: string };
+  priceUsd?: string;
+  liquidity?: { usd?: number };
+}
+
+// Token a transfer moved
+const transferToken = sql<string>`coalesce(${transactions.toToken}, ${transactions.fromToken})`;
+
+// Look the mints' pools up on DexScreener: liquidity of every pool the mint
+// is in, and the current price in its most liquid pool as the base token.
+// Mints of a failed lookup are left out.
+async function fetchTokenMarkets(mints: string[]): Promise<NewTokenMarket[]> {
+  const results: NewTokenMarket[] = [];
+
+  for (let i = 0; i < mints.length; i += MARKET_BATCH_SIZE) {
+    const batch = mints.slice(i, i + MARKET_BATCH_SIZE);
+    try {
+      const response = await fetch(`${DEXSCREENER_TOKENS_URL}/${batch.join(',')}`);
+      if (!response.ok) {
+        console.log(`DexScreener API error: ${response.status}`);
+        continue;
+      }
+
+      const data = await response.json();
+      const pairs = (data.pairs || []) as DexScreenerPair[];
+      const checkedAt = new Date();
+      for (const mint of batch) {
+        const pools = pairs.filter(pair => pair.baseToken?.address === mint || pair.quoteToken?.address === mint);
+        const liquidityUsd = pools.reduce((sum, pair) => sum + (pair.liquidity?.usd || 0), 0);
+        const [best] = pools
+          .filter(pair => pair.baseToken?.address === mint && pair.priceUsd)
+          .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0));
+
+        results.push({
+          mint,
+          liquidityUsd: liquidityUsd.toString(),
+          priceUsd: best?.priceUsd ?? null,
+          checkedAt,
+        });
+      }
+    } catch (error) {
+      console.error('DexScreener market fetch error:', error);
+    }
+  }
+
+  return results;
+}
+
+// Check the markets of tokens the wallet transferred that were not checked
+// yet, or not recently. Returns the year of the oldest transfer of a checked
+// token, whose hidden status may have changed, or null when none was checked.
+export async function checkTransferMarkets(walletAddress: string): Promise<number | null> {
+  const staleBefore = new Date(Date.now() - MARKET_CHECK_MAX_AGE_MS);
+  const unchecked = await db
+    .selectDistinct({ mint: transferToken })
+    .from(transactions)
+    .leftJoin(tokenMarkets, eq(tokenMarkets.mint, transferToken))
+    .where(
+      and(
+        eq(transactions.walletAddress, walletAddress),
+        inArray(transactions.type, SPAM_FILTERED_TYPES),
+        or(isNull(tokenMarkets.checkedAt), lt(tokenMarkets.checkedAt, staleBefore))
+      )
+    )
+    .limit(MAX_MARKET_CHECKS);
+
+  const markets = await fetchTokenMarkets(unchecked.map(row => row.mint).filter(Boolean));
+  if (markets.length === 0) {
+    return null;
+  }
+
+  await db
+    .insert(tokenMarkets)
+    .values(markets)
+    .onConflictDoUpdate({
+      target: tokenMarkets.mint,
+      set: {
+        liquidityUsd: sql`excluded.liquidity_usd`,
+        priceUsd: sql`excluded.price_usd`,
+        checkedAt: sql`excluded.checked_at`,
+      },
+    });
+
+  const [oldest] = await db
+    .select({ timestamp: min(transactions.timestamp) })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.walletAddress, walletAddress),
+        inArray(transactions.type, SPAM_FILTERED_TYPES),
+        inArray(transferToken, markets.map(market => market.mint))
+      )
+    );
+  return oldest?.timestamp ? oldest.timestamp.getFullYear() : null;
+}
+
+// The wallets' own choices, by `${walletAddress}:${tokenAddress}`
+export async function getTokenChoices(walletAddresses: string[]): Promise<Map<string, boolean>> {
+  const rows = await db
+    .select()
+    .from(hiddenTokens)
+    .where(inArray(hiddenTokens.walletAddress, walletAddresses));
+
+  return new Map(rows.map(row => [`${row.walletAddress}:${row.tokenAddress}`, row.hidden]));
+}
+
+// Hide a token's transfers for a wallet, or show them whatever the spam
+// filter finds
+export async function setTokenHidden(walletAddress: string, tokenAddress: string, hidden: boolean) {
+  await db
+    .insert(hiddenTokens)
+    .values({ walletAddress, tokenAddress, hidden })
+    .onConflictDoUpdate({
+      target: [hiddenTokens.walletAddress, hiddenTokens.tokenAddress],
+      set: { hidden, updatedAt: new Date() },
+    });
+}
+
+// Tokens among `mints` the wallets used themselves: anything but receiving
+// them in a plain transfer, by `${walletAddress}:${tokenAddress}`
+async function getUsedTokens(walletAddresses: string[], mints: string[]): Promise<Set<string>> {
+  const ownActivity = and(
+    inArray(transactions.walletAddress, walletAddresses),
+    ne(transactions.type, 'transfer_in')
+  );
+  const [sides, legs] = await Promise.all([
+    db
+      .selectDistinct({
+        walletAddress: transactions.walletAddress,
+        fromToken: transactions.fromToken,
+        toToken: transactions.toToken,
+      })
+      .from(transactions)
+      .where(and(ownActivity, or(inArray(transactions.fromToken, mints), inArray(transactions.toToken, mints)))),
+    db
+      .selectDistinct({ walletAddress: transactions.walletAddress, mint: transactionLegs.mint })
+      .from(transactionLegs)
+      .innerJoin(transactions, eq(transactionLegs.transactionId, transactions.id))
+      .where(and(ownActivity, inArray(transactionLegs.mint, mints))),
+  ]);
+
+  return new Set([
+    ...sides.flatMap(row => [row.fromToken, row.toToken]
+      .filter(Boolean)
+      .map(mint => `${row.walletAddress}:${mint}`)),
+    ...legs.map(row => `${row.walletAddress}:${row.mint}`),
+  ]);
+}
+
+type ClassifiedTransaction = Pick<
+  Transaction,
+  'id' | 'walletAddress' | 'type' | 'fromToken' | 'toToken' | 'toAmount' | 'receiptPriceUsd'
+>;
+
+// What the filter knows about the tokens of the wallets' transfers
+async function loadSpamContext(
+  transfers: ClassifiedTransaction[],
+  includeChoices: boolean
+): Promise<SpamContext> {
+  const walletAddresses = [...new Set(transfers.map(tx => tx.walletAddress))];
+  const mints = [...new Set(transfers.map(transferTokenOf).filter((mint): mint is string => !!mint))];
+  const [marketRows, metadata, used, choices] = await Promise.all([
+    mints.length > 0 ? db.select().from(tokenMarkets).where(inArray(tokenMarkets.mint, mints)) : [],
+    getTokenMetadata(mints),
+    mints.length > 0 ? getUsedTokens(walletAddresses, mints) : new Set<string>(),
+    includeChoices ? getTokenChoices(walletAddresses) : new Map<string, boolean>(),
+  ]);
+
+  return {
+    markets: new Map(marketRows.map(row => [row.mint, { liquidityUsd: Number(row.liquidityUsd) }])),
+    verified: new Set([...metadata.values()].filter(token => token.verified).map(token => token.mint)),
+    used,
+    choices,
+  };
+}
+
+// Transactions hidden as spam, by id, with the reason. Dust is judged on the
+// prices stored when syncing, so listing and calculating never fetch prices.
+// The wallets' own choices are left out for view-only use.
+export async function getSpamReasons(
+  txs: ClassifiedTransaction[],
+  { includeChoices = true }: { includeChoices?: boolean } = {}
+): Promise<Map<string, SpamReason>> {
+  const transfers = txs.filter(tx => SPAM_FILTERED_TYPES.includes(tx.type || ''));
+  const reasons = new Map<string, SpamReason>();
+  if (transfers.length === 0) {
+    return reasons;
+  }
+
+  const context = await loadSpamContext(transfers, includeChoices);
+  for (const tx of transfers) {
+    const reason = spamReasonOf(tx, context);
+    if (reason) {
+      reasons.set(tx.id, reason);
+    }
+  }
+  return reasons;
+}
+
+// Value the wallet's inbound transfers the dust rule could hide at their
+// historical price on receipt, once: transfers without a price found are
+// stored as valued too, so they are not looked up again. Owner's manual
+// prices are not used, the verdict being the same for every viewer.
+export async function priceInboundTransfers(walletAddress: string) {
+  const unpriced = await db
+    .select({
+      id: transactions.id,
+      walletAddress: transactions.walletAddress,
+      signature: transactions.signature,
+      timestamp: transactions.timestamp,
+      type: transactions.type,
+      fromToken: transactions.fromToken,
+      toToken: transactions.toToken,
+      toAmount: transactions.toAmount,
+      receiptPriceUsd: transactions.receiptPriceUsd,
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.walletAddress, walletAddress),
+        eq(transactions.type, 'transfer_in'),
+        isNull(transactions.receiptPricedAt)
+      )
+    );
+  if (unpriced.length === 0) {
+    return;
+  }
+
+  const context = await loadSpamContext(unpriced, false);
+  const candidates = unpriced.filter(tx => isDustCandidate(tx, context));
+  if (candidates.length === 0) {
+    return;
+  }
+
+  const requests: PriceRequest[] = candidates.map(tx => ({
+    tokenAddress: transferTokenOf(tx)!,
+    timestamp: tx.timestamp,
+    signature: tx.signature,
+  }));
+  const prices = await getHistoricalTokenPrices(requests);
+  const pricedAt = new Date();
+  for (const [index, tx] of candidates.entries()) {
+    const priceUsd = prices.get(priceRequestKey(requests[index]))?.priceUsd ?? null;
+    await db
+      .update(transactions)
+      .set({ receiptPriceUsd: priceUsd === null ? null : priceUsd.toString(), receiptPricedAt: pricedAt })
+      .where(eq(transactions.id, tx.id));
+  }
+}
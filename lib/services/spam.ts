@@ -0,0 +1,114 @@
+import spamTokenList from '@/lib/data/spam-tokens.json';
+
+// Why a transfer is hidden as spam:
+// - hidden: the wallet hid the token
+// - known_spam: the token is on the known spam list (lib/data/spam-tokens.json)
+// - no_liquidity: no DEX pool holds a meaningful amount of the token
+// - dust: received for less than the dust threshold, e.g. address poisoning
+export const SPAM_REASONS = ['hidden', 'known_spam', 'no_liquidity', 'dust'] as const;
+export type SpamReason = (typeof SPAM_REASONS)[number];
+
+export const SPAM_REASON_LABELS: Record<SpamReason, string> = {
+  hidden: 'Disembunyikan',
+  known_spam: 'Spam',
+  no_liquidity: 'Tanpa Likuiditas',
+  dust: 'Dust',
+};
+
+// Pools holding less than this are treated as no liquidity at all
+export const NO_LIQUIDITY_USD = 100;
+
+// Transfers received for less than this, at the price on receipt, are dust
+export const DUST_THRESHOLD_USD = 0.01;
+
+// Entry of the known spam list
+interface SpamListEntry {
+  mint: string;
+  note?: string;
+}
+
+const KNOWN_SPAM_MINTS = new Set((spamTokenList as SpamListEntry[]).map(entry => entry.mint));
+
+// SOL, USDC, USDT: never treated as lacking liquidity, and dust of them is
+// hidden even when the wallet trades them, since they carry no lots
+const MAJOR_TOKENS = new Set([
+  'So11111111111111111111111111111111111111112',
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+]);
+
+// Only transfers are filtered: a swap or any other activity of the wallet is
+// real, even in a token without liquidity today
+export const SPAM_FILTERED_TYPES = ['transfer_in', 'transfer_out', 'airdrop'];
+const FILTERED_TYPES = new Set(SPAM_FILTERED_TYPES);
+
+// What the filter knows about the tokens of the transactions it classifies
+export interface SpamContext {
+  // DEX liquidity of checked tokens; unchecked tokens are not judged on it
+  markets: Map<string, { liquidityUsd: number }>;
+  verified: Set<string>; // tokens the registry marks verified
+  // Tokens the wallets used themselves (swapped, sent out, deposited...), by
+  // `${walletAddress}:${tokenAddress}`: never hidden automatically
+  used: Set<string>;
+  // The wallets' own choices, by `${walletAddress}:${tokenAddress}`: true
+  // hides the token, false shows it whatever the filter finds
+  choices: Map<string, boolean>;
+}
+
+type ClassifiedTransaction = {
+  walletAddress: string;
+  type: string | null;
+  fromToken: string | null;
+  toToken: string | null;
+  toAmount: string | null;
+  // USD price on receipt, valued when syncing; transfers without one are not
+  // judged as dust
+  receiptPriceUsd: string | null;
+};
+
+// Token a transfer moved
+export function transferTokenOf(tx: Pick<ClassifiedTransaction, 'fromToken' | 'toToken'>): string | null {
+  return tx.toToken || tx.fromToken;
+}
+
+// Whether the filter could still hide a transaction as dust, once its value
+// on receipt is known: an unsolicited inbound transfer of a token with a
+// checked market that the other rules keep
+export function isDustCandidate(tx: ClassifiedTransaction, context: SpamContext): boolean {
+  return automaticRulesApply(tx, context) && context.markets.has(transferTokenOf(tx) || '') &&
+    spamReasonOf({ ...tx, receiptPriceUsd: null }, { ...context, choices: new Map() }) === null;
+}
+
+// Automatic rules only judge plain inbound transfers of tokens the wallet
+// never used itself: what it sent out, swapped or claimed was not spam to it
+function automaticRulesApply(tx: ClassifiedTransaction, context: SpamContext): boolean {
+  const tokenAddress = transferTokenOf(tx) || '';
+  return tx.type === 'transfer_in' &&
+    (MAJOR_TOKENS.has(tokenAddress) || !context.used.has(`${tx.walletAddress}:${tokenAddress}`));
+}
+
+// Reason to hide a transaction as spam, or null to keep it
+export function spamReasonOf(tx: ClassifiedTransaction, context: SpamContext): SpamReason | null {
+  if (!FILTERED_TYPES.has(tx.type || '')) return null;
+  const tokenAddress = transferTokenOf(tx);
+  if (!tokenAddress) return null;
+
+  const choice = context.choices.get(`${tx.walletAddress}:${tokenAddress}`);
+  if (choice !== undefined) {
+    return choice ? 'hidden' : null;
+  }
+  if (!automaticRulesApply(tx, context)) return null;
+
+  if (KNOWN_SPAM_MINTS.has(tokenAddress)) return 'known_spam';
+
+  const market = context.markets.get(tokenAddress);
+  if (market && !MAJOR_TOKENS.has(tokenAddress) && !context.verified.has(tokenAddress) &&
+    market.liquidityUsd < NO_LIQUIDITY_USD) {
+    return 'no_liquidity';
+  }
+
+  if (tx.receiptPriceUsd !== null && Number(tx.toAmount) * Number(tx.receiptPriceUsd) < DUST_THRESHOLD_USD) {
+    return 'dust';
+  }
+  return null;
+}
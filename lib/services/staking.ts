@@ -0,0 +1,42 @@
+// Staking protocols the parser recognizes
+export const STAKING_PROTOCOLS = ['native', 'marinade', 'jito', 'sanctum', 'stake_pool'] as const;
+export type StakingProtocol = (typeof STAKING_PROTOCOLS)[number];
+
+export const STAKING_PROTOCOL_LABELS: Record<StakingProtocol, string> = {
+  native: 'Native Stake',
+  marinade: 'Marinade',
+  jito: 'Jito',
+  sanctum: 'Sanctum',
+  stake_pool: 'Stake Pool',
+};
+
+export const NATIVE_STAKE_PROGRAM = 'Stake11111111111111111111111111111111111111';
+
+// Programs that deposit SOL into, or withdraw it from, a stake
+const STAKING_PROGRAMS: Record<string, StakingProtocol> = {
+  [NATIVE_STAKE_PROGRAM]: 'native',
+  'MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD': 'marinade',
+  'SPoo1Ku8WFXoNDMHPsrGSTSG1Y47rzgn41SLUNakuHy': 'stake_pool', // SPL stake pool, e.g. Jito
+  'SP12tWFxD9oJsVWNavTTBZvMbA6gkAmxtVgxdqvyvhY': 'sanctum', // single-validator pools
+  'SPMBzsVUuoHA4Jm6KunbsotaahvVikZs1JyTW6iJvbn': 'sanctum', // multi-validator pools
+  '5ocnV1qiCgaQR8Jb8xWnVbApfaygJ8tNoZfgPwsgx9kx': 'sanctum', // Infinity
+  'stkitrT1Uoy18Dk1fTrgPw8W6MVzoCfYoAFT4MLsmhq': 'sanctum', // router
+};
+
+// Liquid staking tokens with their symbol and issuer
+export const LIQUID_STAKING_TOKENS: Record<string, { symbol: string; protocol: StakingProtocol }> = {
+  'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So': { symbol: 'mSOL', protocol: 'marinade' },
+  'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn': { symbol: 'JitoSOL', protocol: 'jito' },
+  '5oVNBeEEQvYi1cX3ir8Dx5n1P7pdxydbGF2X4TxVusJm': { symbol: 'INF', protocol: 'sanctum' },
+  'jupSoLaHXQiZZTSfEWMTRRgpnyFm8f6sZdosWBjx93v': { symbol: 'JupSOL', protocol: 'sanctum' },
+};
+
+// Staking protocol of the first staking program among `programIds`, if any
+export function stakingProtocolOf(programIds: string[]): StakingProtocol | null {
+  for (const programId of programIds) {
+    if (STAKING_PROGRAMS[programId]) {
+      return STAKING_PROGRAMS[programId];
+    }
+  }
+  return null;
+}
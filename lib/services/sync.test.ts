@@ -0,0 +1,228 @@
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SyncState } from '@/lib/db';
+import { createHeliusMockServer } from '@/scripts/helius-mock';
+import { createHeliusClient, type HeliusClient, type TransactionPageCursor } from './helius-client';
+import type { ParsedTransaction } from './transaction-parser';
+import { syncWalletTransactions } from './sync';
+import { getLendingAccounts, saveParsedTransaction } from './transaction-store';
+import { invalidateLotSnapshots } from './tax-year';
+
+// The sync state row of the wallet under test, standing in for the database
+const store = vi.hoisted(() => ({ state: null as SyncState | null }));
+
+vi.mock('@/lib/db', async () => ({
+  ...(await import('@/lib/db/schema')),
+  db: {
+    insert: () => ({
+      values: (values: Partial<SyncState>) => ({
+        onConflictDoNothing: async () => {
+          store.state ??= {
+            id: 'sync-state',
+            walletAddress: '',
+            newestSignature: null,
+            oldestSignature: null,
+            pendingNewestSignature: null,
+            gapBeforeSignature: null,
+            backfillComplete: false,
+            lendingAccountCursors: {},
+            lastSyncedAt: null,
+            updatedAt: null,
+            ...values,
+          };
+        },
+      }),
+    }),
+    select: () => ({
+      from: () => ({ where: () => ({ limit: async () => (store.state ? [store.state] : []) }) }),
+    }),
+    update: () => ({
+      set: (changes: Partial<SyncState>) => ({
+        where: async () => {
+          Object.assign(store.state!, changes);
+        },
+      }),
+    }),
+  },
+}));
+
+vi.mock('./transaction-store', async importOriginal => ({
+  ...(await importOriginal<typeof import('./transaction-store')>()),
+  getLendingAccounts: vi.fn(async () => new Set<string>()),
+  saveParsedTransaction: vi.fn(async () => {}),
+}));
+
+vi.mock('./token-metadata', async importOriginal => ({
+  ...(await importOriginal<typeof import('./token-metadata')>()),
+  resolveTokenMetadata: vi.fn(async () => new Map()),
+}));
+
+vi.mock('./tax-year', () => ({ invalidateLotSnapshots: vi.fn(async () => {}) }));
+
+vi.mock('./spam-filter', () => ({
+  checkTransferMarkets: vi.fn(async () => null),
+  priceInboundTransfers: vi.fn(async () => {}),
+}));
+
+const WALLET = '3tvFuVizovMvVmmwDME2ip5H3ufXdhuKpQmM4XWrXD6D';
+const EMPTY_WALLET = '1kZnKwLF33jNGdd7GKuPfHy7Mrh1hKjssamtpGuYp4rf';
+
+const server = createHeliusMockServer({
+  fixturesDir: path.resolve('fixtures/helius'),
+  log: () => {},
+});
+let client: HeliusClient;
+let requests: TransactionPageCursor[];
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  const helius = createHeliusClient({
+    apiKey: 'test',
+    baseUrl: `http://localhost:${(server.address() as AddressInfo).port}`,
+  });
+  // The fixture client, recording the cursors of every page requested
+  client = {
+    getTransactionsPage: (walletAddress, cursor = {}) => {
+      requests.push({ before: cursor.before?.slice(0, 8), until: cursor.until?.slice(0, 8) });
+      return helius.getTransactionsPage(walletAddress, cursor);
+    },
+  };
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  store.state = null;
+  requests = [];
+  vi.clearAllMocks();
+});
+
+// Signatures stored, by their first characters
+function storedSignatures(): string[] {
+  return vi
+    .mocked(saveParsedTransaction)
+    .mock.calls.map(([parsed]: [ParsedTransaction]) => parsed.transaction.signature.slice(0, 8));
+}
+
+describe('syncWalletTransactions', () => {
+  it('walks the whole history on the first sync and ends on the empty page', async () => {
+    const result = await syncWalletTransactions(client, WALLET, { pageDelayMs: 0 });
+
+    expect(requests).toEqual([
+      { before: undefined, until: undefined },
+      { before: 'fd85u2Zr', until: undefined },
+      { before: '6Rm4Sjks', until: undefined },
+    ]);
+    expect(result.fetched).toBe(7);
+    expect(result.historyComplete).toBe(true);
+    // The NFT mint moves none of the wallet's tokens and is not stored
+    expect(storedSignatures()).toEqual(['MWHqsDhm', 'mxaRwdyG', 'T1N7GTM6', 'YAZiRyjL', 'MoGcWwkv', '6Rm4Sjks']);
+    expect(store.state).toMatchObject({
+      newestSignature: expect.stringMatching(/^MWHqsDhm/),
+      oldestSignature: expect.stringMatching(/^6Rm4Sjks/),
+      backfillComplete: true,
+      lastSyncedAt: expect.any(Date),
+    });
+    expect(invalidateLotSnapshots).toHaveBeenCalledWith(WALLET, 2024);
+  });
+
+  it('stops at the page limit on the 2025/2024 boundary and resumes on the next page', async () => {
+    const first = await syncWalletTransactions(client, WALLET, { maxPages: 1, pageDelayMs: 0 });
+
+    // The first page holds 2025 only; nothing from 2024 is fetched yet
+    expect(requests).toEqual([{ before: undefined, until: undefined }]);
+    expect(first.historyComplete).toBe(false);
+    expect(first.stored.map(timestamp => timestamp.getFullYear())).toEqual([2025, 2025, 2025]);
+    expect(store.state?.oldestSignature).toMatch(/^fd85u2Zr/);
+    expect(store.state?.backfillComplete).toBe(false);
+    expect(invalidateLotSnapshots).toHaveBeenLastCalledWith(WALLET, 2025);
+
+    // New transactions first (none), then the backfill from the boundary
+    const second = await syncWalletTransactions(client, WALLET, { maxPages: 2, pageDelayMs: 0 });
+
+    expect(requests.slice(1)).toEqual([
+      { before: undefined, until: 'MWHqsDhm' },
+      { before: 'fd85u2Zr', until: undefined },
+    ]);
+    expect(second.historyComplete).toBe(false);
+    expect(second.stored.map(timestamp => timestamp.getFullYear())).toEqual([2025, 2024, 2024]);
+    expect(store.state?.oldestSignature).toMatch(/^6Rm4Sjks/);
+    expect(invalidateLotSnapshots).toHaveBeenLastCalledWith(WALLET, 2024);
+
+    // Only the empty page is left: it completes the history
+    vi.mocked(invalidateLotSnapshots).mockClear();
+    const third = await syncWalletTransactions(client, WALLET, { maxPages: 2, pageDelayMs: 0 });
+
+    expect(requests.slice(3)).toEqual([
+      { before: undefined, until: 'MWHqsDhm' },
+      { before: '6Rm4Sjks', until: undefined },
+    ]);
+    expect(third).toEqual({ fetched: 0, stored: [], historyComplete: true });
+    expect(store.state?.backfillComplete).toBe(true);
+    expect(invalidateLotSnapshots).not.toHaveBeenCalled();
+    expect(storedSignatures()).toHaveLength(6);
+  });
+
+  it('only asks for new transactions once the history is complete', async () => {
+    await syncWalletTransactions(client, WALLET, { pageDelayMs: 0 });
+    requests = [];
+    vi.mocked(saveParsedTransaction).mockClear();
+
+    const result = await syncWalletTransactions(client, WALLET, { pageDelayMs: 0 });
+
+    expect(requests).toEqual([{ before: undefined, until: 'MWHqsDhm' }]);
+    expect(result).toEqual({ fetched: 0, stored: [], historyComplete: true });
+    expect(saveParsedTransaction).not.toHaveBeenCalled();
+  });
+
+  it('resumes an interrupted lending account walk where it stopped', async () => {
+    // The fixture wallet's history stands in for a busy lending account
+    vi.mocked(getLendingAccounts)
+      .mockResolvedValueOnce(new Set([WALLET]))
+      .mockResolvedValueOnce(new Set([WALLET]));
+
+    await syncWalletTransactions(client, EMPTY_WALLET, { maxPages: 2, pageDelayMs: 0 });
+
+    expect(requests).toEqual([
+      { before: undefined, until: undefined },
+      { before: undefined, until: undefined },
+    ]);
+    expect(store.state?.lendingAccountCursors[WALLET]).toEqual({
+      pendingNewest: expect.stringMatching(/^MWHqsDhm/),
+      gapBefore: expect.stringMatching(/^fd85u2Zr/),
+    });
+
+    requests = [];
+    await syncWalletTransactions(client, EMPTY_WALLET, { maxPages: 2, pageDelayMs: 0 });
+
+    // Older pages, not the newest again; the empty page completes the walk
+    expect(requests).toEqual([
+      { before: 'fd85u2Zr', until: undefined },
+      { before: '6Rm4Sjks', until: undefined },
+    ]);
+    expect(store.state?.lendingAccountCursors[WALLET]).toEqual({
+      newest: expect.stringMatching(/^MWHqsDhm/),
+    });
+
+    // Only liquidations are stored from an account's history
+    expect(saveParsedTransaction).not.toHaveBeenCalled();
+  });
+
+  it('ends cleanly when the first page is empty', async () => {
+    const result = await syncWalletTransactions(client, EMPTY_WALLET, { pageDelayMs: 0 });
+
+    expect(requests).toEqual([{ before: undefined, until: undefined }]);
+    expect(result).toEqual({ fetched: 0, stored: [], historyComplete: true });
+    expect(store.state).toMatchObject({
+      newestSignature: null,
+      oldestSignature: null,
+      backfillComplete: true,
+      lastSyncedAt: expect.any(Date),
+    });
+    expect(saveParsedTransaction).not.toHaveBeenCalled();
+    expect(invalidateLotSnapshots).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,219 @@
+import { db, syncState, type SyncState } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import type { HeliusClient, TransactionPageCursor } from './helius-client';
+import {
+  parseHeliusTransaction,
+  transactionMints,
+  type HeliusTransaction,
+  type ParsedTransaction,
+} from './transaction-parser';
+import { resolveTokenMetadata, tokenSymbols } from './token-metadata';
+import { getLendingAccounts, ownLendingAccount, saveParsedTransaction } from './transaction-store';
+import { invalidateLotSnapshots } from './tax-year';
+import { checkTransferMarkets, priceInboundTransfers } from './spam-filter';
+
+export interface SyncProgress {
+  pages: number;
+  fetched: number;
+  stored: number;
+}
+
+export interface SyncOptions {
+  maxPages?: number; // Helius pages per sync, shared by new transactions and backfill
+  pageDelayMs?: number;
+  // Called after each page is stored; throwing stops the sync
+  onProgress?: (progress: SyncProgress) => Promise<void>;
+}
+
+export interface SyncResult {
+  fetched: number;
+  stored: Date[]; // timestamps of the swaps and transfers stored
+  historyComplete: boolean; // false while older transactions remain to backfill
+}
+
+// Sync state of a wallet, creating it on the first sync
+async function getOrCreateSyncState(walletAddress: string): Promise<SyncState> {
+  await db.insert(syncState).values({ walletAddress }).onConflictDoNothing();
+  const [state] = await db
+    .select()
+    .from(syncState)
+    .where(eq(syncState.walletAddress, walletAddress))
+    .limit(1);
+  return state;
+}
+
+async function updateSyncState(walletAddress: string, changes: Partial<SyncState>) {
+  await db
+    .update(syncState)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(syncState.walletAddress, walletAddress));
+}
+
+// Fetch new transactions since the last sync, then continue the backfill of
+// older history, then look for liquidations in the history of the wallet's
+// lending accounts. Every page is stored before the cursors move past it, so
+// an interrupted sync (page limit, Helius or database error) resumes where it
+// stopped on the next call.
+export async function syncWalletTransactions(
+  client: HeliusClient,
+  walletAddress: string,
+  { maxPages = 50, pageDelayMs = 100, onProgress }: SyncOptions = {}
+): Promise<SyncResult> {
+  const state = await getOrCreateSyncState(walletAddress);
+  const result: SyncResult = { fetched: 0, stored: [], historyComplete: state.backfillComplete };
+  let pagesLeft = maxPages;
+  const lendingAccounts = await getLendingAccounts(walletAddress);
+
+  // Walk the pages of an address's history from `cursor.before` down to
+  // `cursor.until` (or the start of the history), storing the transactions
+  // `accept` takes. Returns false when the page limit ran out first.
+  const walkPages = async (
+    address: string,
+    cursor: TransactionPageCursor,
+    onPage: (page: HeliusTransaction[]) => Promise<void>,
+    accept: (parsed: ParsedTransaction) => boolean = () => true
+  ): Promise<boolean> => {
+    let before = cursor.before;
+    while (pagesLeft > 0) {
+      const page = await client.getTransactionsPage(address, { before, until: cursor.until });
+      pagesLeft--;
+
+      if (page.length === 0) {
+        return true;
+      }
+
+      result.fetched += page.length;
+      const symbols = tokenSymbols(await resolveTokenMetadata(page.flatMap(transactionMints)));
+      for (const tx of page) {
+        const parsed = parseHeliusTransaction(tx, walletAddress, symbols, lendingAccounts);
+        if (parsed && accept(parsed)) {
+          await saveParsedTransaction(parsed);
+          result.stored.push(parsed.transaction.timestamp);
+
+          const account = ownLendingAccount(parsed.transaction);
+          if (account) {
+            lendingAccounts.add(account);
+          }
+        }
+      }
+      await onPage(page);
+      before = page[page.length - 1].signature;
+      await onProgress?.({
+        pages: maxPages - pagesLeft,
+        fetched: result.fetched,
+        stored: result.stored.length,
+      });
+
+      // Small delay to avoid rate limiting
+      if (pagesLeft > 0 && pageDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, pageDelayMs));
+      }
+    }
+    return false;
+  };
+
+  let marketsYear: number | null = null;
+  try {
+    // New transactions: everything newer than the newest synced signature,
+    // resuming an earlier interrupted run inside the gap
+    if (state.newestSignature) {
+      let pendingNewest = state.pendingNewestSignature;
+      const caughtUp = await walkPages(
+        walletAddress,
+        { before: state.gapBeforeSignature || undefined, until: state.newestSignature },
+        async page => {
+          pendingNewest = pendingNewest || page[0].signature;
+          await updateSyncState(walletAddress, {
+            pendingNewestSignature: pendingNewest,
+            gapBeforeSignature: page[page.length - 1].signature,
+          });
+        }
+      );
+
+      if (caughtUp) {
+        await updateSyncState(walletAddress, {
+          newestSignature: pendingNewest || state.newestSignature,
+          pendingNewestSignature: null,
+          gapBeforeSignature: null,
+        });
+      }
+    }
+
+    // Backfill: older history, starting from the newest transaction on the
+    // first sync
+    if (!state.backfillComplete && pagesLeft > 0) {
+      let newest = state.newestSignature;
+      result.historyComplete = await walkPages(
+        walletAddress,
+        { before: state.oldestSignature || undefined },
+        async page => {
+          newest = newest || page[0].signature;
+          await updateSyncState(walletAddress, {
+            newestSignature: newest,
+            oldestSignature: page[page.length - 1].signature,
+          });
+        }
+      );
+
+      if (result.historyComplete) {
+        await updateSyncState(walletAddress, { backfillComplete: true });
+      }
+    }
+
+    // Liquidations: a liquidator's transaction names the lending account but
+    // not its owner, so it is only in the account's history. Each account is
+    // walked down to the newest signature of its last complete walk, resuming
+    // an interrupted walk where it stopped.
+    const cursors = { ...state.lendingAccountCursors };
+    for (const account of lendingAccounts) {
+      if (pagesLeft <= 0) break;
+
+      const cursor = { ...cursors[account] };
+      const scanned = await walkPages(
+        account,
+        { before: cursor.gapBefore, until: cursor.newest },
+        async page => {
+          cursor.pendingNewest = cursor.pendingNewest || page[0].signature;
+          cursor.gapBefore = page[page.length - 1].signature;
+          cursors[account] = { ...cursor };
+          await updateSyncState(walletAddress, { lendingAccountCursors: { ...cursors } });
+        },
+        parsed => parsed.transaction.type === 'lend_liquidation'
+      );
+      if (scanned && cursor.pendingNewest) {
+        cursors[account] = { newest: cursor.pendingNewest };
+        await updateSyncState(walletAddress, { lendingAccountCursors: { ...cursors } });
+      }
+    }
+
+    // DEX markets of transferred tokens and values of inbound transfers on
+    // receipt, for the spam filter
+    marketsYear = await checkTransferMarkets(walletAddress);
+    await priceInboundTransfers(walletAddress);
+
+    await updateSyncState(walletAddress, { lastSyncedAt: new Date() });
+  } finally {
+    // Year-end lots from the oldest stored year onwards may have changed,
+    // also when the sync stopped early. So may those from the oldest
+    // transfer of a token whose market was checked.
+    const years = result.stored.map(timestamp => timestamp.getFullYear());
+    if (marketsYear !== null) {
+      years.push(marketsYear);
+    }
+    if (years.length > 0) {
+      await invalidateLotSnapshots(walletAddress, Math.min(...years));
+    }
+  }
+
+  return result;
+}
+
+// Sync progress of a wallet, if it was ever synced
+export async function getSyncState(walletAddress: string): Promise<SyncState | null> {
+  const [state] = await db
+    .select()
+    .from(syncState)
+    .where(eq(syncState.walletAddress, walletAddress))
+    .limit(1);
+  return state || null;
+}
@@ -0,0 +1,212 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CostBasisResolution, Transaction, TransactionLeg } from '@/lib/db/schema';
+import { toJakartaDateKey } from '@/lib/utils';
+import { calculateTaxes } from './tax-calculator';
+import { inventoryKey, type LotInventory } from './cost-basis';
+import { resolutionKey } from './resolutions';
+
+const WALLET = '3tvFuVizovMvVmmwDME2ip5H3ufXdhuKpQmM4XWrXD6D';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const { BONK_MINT } = vi.hoisted(() => ({ BONK_MINT: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' }));
+const LP_MINT = '8HoQnePLqPj4M7PUDzfw8e3Ymdwgc7NLGnaTUapubyvu';
+const USD_IDR = 16000;
+
+vi.mock('@/lib/db', async () => ({ ...(await import('@/lib/db/schema')), db: {} }));
+
+// BONK at $2, every other token without a market price
+vi.mock('./price', async importOriginal => {
+  const price = await importOriginal<typeof import('./price')>();
+  return {
+    ...price,
+    getHistoricalTokenPrices: vi.fn(async (requests: import('./price').PriceRequest[]) => new Map(
+      requests.map(request => [
+        price.priceRequestKey(request),
+        {
+          priceUsd: request.tokenAddress === BONK_MINT ? 2 : null,
+          source: 'test',
+          cached: true,
+        },
+      ])
+    )),
+  };
+});
+
+vi.mock('./price-overrides', async importOriginal => ({
+  ...(await importOriginal<typeof import('./price-overrides')>()),
+  getPriceOverrides: vi.fn(async () => []),
+}));
+
+// One official rate for every date
+vi.mock('./fx-rate', () => ({
+  getUsdToIdrRates: vi.fn(async (dates: Date[]) => new Map(
+    dates.map(date => [toJakartaDateKey(date), { rate: 16000, source: 'kmk', date: toJakartaDateKey(date) }])
+  )),
+}));
+
+function transaction(fields: Partial<Transaction> & Pick<Transaction, 'signature' | 'timestamp' | 'type'>): Transaction {
+  return {
+    id: fields.signature,
+    walletAddress: WALLET,
+    fromToken: null,
+    fromAmount: null,
+    fromAmountRaw: null,
+    fromDecimals: null,
+    fromSymbol: null,
+    toToken: null,
+    toAmount: null,
+    toAmountRaw: null,
+    toDecimals: null,
+    toSymbol: null,
+    dex: null,
+    counterparty: null,
+    networkFeeLamports: null,
+    priorityFeeLamports: null,
+    platformFeeAmount: null,
+    platformFeeAmountRaw: null,
+    platformFeeDecimals: null,
+    platformFeeToken: null,
+    parserVersion: null,
+    receiptPriceUsd: null,
+    receiptPricedAt: null,
+    rawData: null,
+    createdAt: null,
+    ...fields,
+  };
+}
+
+// A swap of `fromAmount` of one token for `toAmount` of another
+function swap(signature: string, date: string, from: [string, string], to: [string, string]): Transaction {
+  return transaction({
+    signature,
+    timestamp: new Date(date),
+    type: 'swap',
+    fromToken: from[1],
+    fromAmount: from[0],
+    toToken: to[1],
+    toAmount: to[0],
+  });
+}
+
+function leg(transactionId: string, direction: 'in' | 'out', mint: string, amount: string): TransactionLeg {
+  return {
+    id: `${transactionId}:${mint}`,
+    transactionId,
+    direction,
+    mint,
+    symbol: null,
+    amount,
+    amountRaw: null,
+    decimals: null,
+    createdAt: null,
+  };
+}
+
+// Cost basis in IDR of the lots left open, oldest first
+function openLotsIdr(inventory: LotInventory, tokenAddress: string): number[] {
+  return (inventory.get(inventoryKey(WALLET, tokenAddress)) || [])
+    .filter(lot => lot.amount.gt(0))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .map(lot => lot.costBasisIdr.toNumber());
+}
+
+describe('calculateTaxes', () => {
+  // 100 BONK bought at $1, 100 more at $3, then 100 sold at $2.50
+  const trades = [
+    swap('buy-cheap', '2025-01-10T12:00:00Z', ['100', USDC_MINT], ['100', BONK_MINT]),
+    swap('buy-dear', '2025-02-10T12:00:00Z', ['300', USDC_MINT], ['100', BONK_MINT]),
+    swap('sell', '2025-03-10T12:00:00Z', ['100', BONK_MINT], ['250', USDC_MINT]),
+  ];
+
+  it.each([
+    { method: 'fifo' as const, costBasisIdr: 100 * USD_IDR, gainLossIdr: 150 * USD_IDR, leftIdr: 300 * USD_IDR },
+    { method: 'hifo' as const, costBasisIdr: 300 * USD_IDR, gainLossIdr: -50 * USD_IDR, leftIdr: 100 * USD_IDR },
+  ])('matches a sale against lots by $method', async ({ method, costBasisIdr, gainLossIdr, leftIdr }) => {
+    const inventory: LotInventory = new Map();
+    const summary = await calculateTaxes(trades, { method, inventory });
+
+    expect(summary.transactions.find(result => result.signature === 'sell')).toMatchObject({
+      type: 'sell',
+      transactionValueIdr: 250 * USD_IDR,
+      costBasisIdr,
+      gainLossIdr,
+      unmatchedAmount: 0,
+      warningCode: null,
+    });
+    expect(summary.netGainLossIdr).toBe(gainLossIdr);
+    expect(openLotsIdr(inventory, BONK_MINT)).toEqual([leftIdr]);
+  });
+
+  describe('liquidity pool deposit', () => {
+    // 50 BONK bought, then 100 BONK and 200 USDC deposited for 10 LP tokens
+    const buy = swap('buy', '2025-01-10T12:00:00Z', ['50', USDC_MINT], ['50', BONK_MINT]);
+    const deposit = transaction({
+      signature: 'deposit',
+      timestamp: new Date('2025-02-10T12:00:00Z'),
+      type: 'lp_deposit',
+      dex: 'raydium',
+      fromToken: BONK_MINT,
+      fromAmount: '100',
+      toToken: LP_MINT,
+      toAmount: '10',
+      counterparty: LP_MINT,
+    });
+    const legs = new Map([[deposit.id, [
+      leg(deposit.id, 'out', BONK_MINT, '100'),
+      leg(deposit.id, 'out', USDC_MINT, '200'),
+      leg(deposit.id, 'in', LP_MINT, '10'),
+    ]]]);
+    const resolution: CostBasisResolution = {
+      id: 'resolution',
+      walletAddress: WALLET,
+      signature: deposit.signature,
+      tokenAddress: BONK_MINT,
+      kind: 'manual',
+      costBasisIdr: '800000',
+      acquiredAt: null,
+      reference: null,
+      createdAt: null,
+      updatedAt: null,
+    };
+
+    it('takes the basis of BONK without lots from its resolution', async () => {
+      const inventory: LotInventory = new Map();
+      const summary = await calculateTaxes([buy, deposit], {
+        inventory,
+        legs,
+        resolutions: new Map([[resolutionKey(deposit.signature, BONK_MINT), resolution]]),
+      });
+
+      // 50 BONK from the lot ($50), 50 resolved (Rp 800.000) and 200 USDC ($200)
+      expect(summary.transactions.find(result => result.signature === 'deposit')).toMatchObject({
+        type: 'lp_deposit',
+        transactionValueIdr: 400 * USD_IDR,
+        costBasisIdr: 4_800_000,
+        unmatchedAmount: 50,
+        resolution: 'manual',
+        warningCode: null,
+      });
+      expect(summary.unmatchedDisposals).toEqual([expect.objectContaining({
+        signature: 'deposit',
+        tokenAddress: BONK_MINT,
+        amount: 100,
+        unmatchedAmount: 50,
+        proceedsIdr: 100 * USD_IDR,
+        resolution: 'manual',
+        resolvedCostBasisIdr: 800000,
+      })]);
+      expect(openLotsIdr(inventory, LP_MINT)).toEqual([4_800_000]);
+      expect(openLotsIdr(inventory, BONK_MINT)).toEqual([]);
+    });
+
+    it('counts BONK without lots or a resolution at Rp 0 with a warning', async () => {
+      const summary = await calculateTaxes([buy, deposit], { legs });
+
+      expect(summary.transactions.find(result => result.signature === 'deposit')).toMatchObject({
+        costBasisIdr: 4_000_000,
+        unmatchedAmount: 50,
+        resolution: null,
+        warningCode: 'unmatched_disposal',
+      });
+    });
+  });
+});
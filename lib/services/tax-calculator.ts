@@ -1,26 +1,128 @@
-import type { Transaction } from '@/lib/db/schema';
-import { getTokenPrices, getUsdToIdrRate } from './price';
+import type { CostBasisResolution, InboundClassification, Transaction, TransactionLeg } from '@/lib/db/schema';
+import { toJakartaDateKey } from '@/lib/utils';
+import { Decimal, toDecimal, ZERO } from '@/lib/decimal';
+import {
+  getHistoricalTokenPrices,
+  MANUAL_PRICE_SOURCE,
+  priceRequestKey,
+  type PriceProgressCallback,
+  type PriceRequest,
+} from './price';
+import { findPriceOverride, getPriceOverrides } from './price-overrides';
+import { getUsdToIdrRates, type FxRateResult } from './fx-rate';
+import { resolutionKey } from './resolutions';
+import { getTaxRuleSet, type ExchangeType, type TaxRuleSet } from './tax-rules';
+import {
+  addLot,
+  consumeLots,
+  moveLots,
+  inventoryKey,
+  DEFAULT_COST_BASIS_METHOD,
+  type CostBasisMethod,
+  type LotInventory,
+  type ResolutionKind,
+  type TokenLot,
+} from './cost-basis';
+import type { StakingProtocol } from './staking';
+import type { LpProtocol } from './liquidity';
+import type { LendingProtocol } from './lending';
+import type { IncomeKind } from './airdrops';
+import type { SpamReason } from './spam';
 
-// Indonesian tax rates for DEX (unregistered exchange)
-const TAX_RATES = {
-  PPH_SELL: 0.002, // 0.2% on sell transactions
-  PPN_BUY: 0.0022, // 0.22% on buy transactions (before Aug 2025)
-};
+const SOL_TOKEN = 'So11111111111111111111111111111111111111112';
 
-// Token lot for FIFO tracking
-interface TokenLot {
-  tokenAddress: string;
-  amount: number;
-  costBasisUsd: number;
-  costBasisIdr: number;
-  timestamp: Date;
+// Stablecoins valued at $1
+const STABLE_TOKENS = new Set([
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+]);
+
+// How swap legs are valued:
+// - market: every leg priced from price providers
+// - implied: value taken from the SOL/USDC/USDT side of the trade, providers
+//   are only used for SOL and for token-to-token swaps
+export const VALUATION_MODES = ['market', 'implied'] as const;
+export type ValuationMode = (typeof VALUATION_MODES)[number];
+export const DEFAULT_VALUATION_MODE: ValuationMode = 'implied';
+
+// Cost basis of tokens transferred in (CEX withdrawals, other wallets), except
+// airdrops and rewards, which cost their market value on receipt:
+// - zero: Rp 0, the whole sale price becomes gain
+// - market: market value at the time of the transfer
+export const INBOUND_COST_BASIS_MODES = ['zero', 'market'] as const;
+export type InboundCostBasis = (typeof INBOUND_COST_BASIS_MODES)[number];
+export const DEFAULT_INBOUND_COST_BASIS: InboundCostBasis = 'zero';
+
+// Transaction types that move tokens without a taxable event. An airdrop is
+// one when the user classified it as a plain transfer.
+const TRANSFER_TYPES = new Set(['transfer_in', 'transfer_out', 'airdrop']);
+
+// Staking deposits and withdrawals: not trades, but a withdrawal can realize
+// staking income
+const STAKING_TYPES = new Set(['stake', 'unstake']);
+
+// Liquidity pool deposits and withdrawals: the position carries the cost
+// basis of the tokens put in, and a withdrawal realizes the pool's result
+export const LIQUIDITY_TYPES = new Set(['lp_deposit', 'lp_withdraw']);
+
+// Lending deposits, withdrawals, loans and liquidations
+const LENDING_TYPES = new Set(['lend_deposit', 'lend_withdraw', 'lend_borrow', 'lend_repay', 'lend_liquidation']);
+
+export interface CalculateTaxesOptions {
+  valuation?: ValuationMode;
+  exchangeType?: ExchangeType;
+  method?: CostBasisMethod;
+  inboundCostBasis?: InboundCostBasis;
+  // Wallets of the same owner: transfers between them move lots instead of
+  // disposing and re-acquiring
+  groupWallets?: string[];
+  // Lots still open before the first transaction (e.g. carried over from
+  // the previous year). Updated in place to the closing inventory.
+  inventory?: LotInventory;
+  // Loans still open before the first transaction, as lots of the borrowed
+  // token held by the borrowing wallet. Updated in place like `inventory`.
+  loans?: LotInventory;
+  // User-supplied cost basis for disposals without known lots, by
+  // `resolutionKey` (signature and token)
+  resolutions?: Map<string, CostBasisResolution>;
+  // User classification of inbound transfers (airdrop, reward or transfer),
+  // by signature
+  classifications?: Map<string, InboundClassification>;
+  // Transactions hidden as spam or dust, by id. Left out of every total.
+  hidden?: Map<string, SpamReason>;
+  // Leave out the wallets' manual prices, e.g. for view-only reports
+  publicDataOnly?: boolean;
+  // Legs of liquidity transactions, by transaction id
+  legs?: Map<string, TransactionLeg[]>;
+  onPriceProgress?: PriceProgressCallback;
 }
 
+// Problems that make a result less reliable
+// - unmatched_disposal: more was sold than known acquisitions cover, and
+//   the missing cost basis has not been resolved (counted as Rp 0)
+export type TaxWarningCode = 'unmatched_disposal';
+
 // Result for each transaction
 export interface TransactionTaxResult {
   signature: string;
   timestamp: Date;
-  type: 'buy' | 'sell';
+  type:
+    | 'buy'
+    | 'sell'
+    | 'transfer_in'
+    | 'transfer_out'
+    | 'self_transfer'
+    | 'stake'
+    | 'unstake'
+    | 'lp_deposit'
+    | 'lp_withdraw'
+    | 'lend_deposit'
+    | 'lend_withdraw'
+    | 'lend_borrow'
+    | 'lend_repay'
+    | 'lend_liquidation'
+    | 'airdrop'
+    | 'reward';
   fromToken: string;
   fromSymbol: string;
   fromAmount: number;
@@ -32,29 +134,150 @@ export interface TransactionTaxResult {
   // Prices
   fromPriceUsd: number | null;
   toPriceUsd: number | null;
-  usdIdrRate: number;
+  valuation: ValuationMode; // how the prices above were obtained
+  userProvidedPrice: boolean; // a leg was priced from a manual override
+  usdIdrRate: number; // rate in effect on the transaction date
+  usdIdrRateSource: FxRateResult['source'];
 
   // Values
   transactionValueUsd: number;
   transactionValueIdr: number;
 
-  // FIFO calculation (for sells)
+  // Network, priority and platform fees not already in the values above:
+  // added to the cost basis of buys, deducted from the proceeds of sells
+  feeUsd: number;
+  feeIdr: number;
+
+  // Cost basis calculation (for sells)
   costBasisUsd: number;
   costBasisIdr: number;
   gainLossUsd: number;
   gainLossIdr: number;
+  unmatchedAmount: number; // amount sold without a known acquisition
+  resolution: ResolutionKind | null; // how the unmatched amount was resolved
+  warningCode: TaxWarningCode | null;
 
   // Taxes
+  taxRuleId: string; // rule set in effect on the transaction date
+  pphRate: number;
+  ppnRate: number;
   pphTax: number; // IDR
   ppnTax: number; // IDR
   totalTax: number; // IDR
 }
 
-// Summary of all calculations
+// Lot open before the first transaction, as listed in the summary
+export interface OpeningLot {
+  walletAddress: string;
+  tokenAddress: string;
+  amount: number;
+  costBasisUsd: number;
+  costBasisIdr: number;
+  timestamp: Date;
+}
+
+// Disposal with missing acquisition history
+export interface UnmatchedDisposal {
+  walletAddress: string; // the wallet that sold, when calculating for a group
+  signature: string;
+  timestamp: Date;
+  tokenAddress: string;
+  symbol: string;
+  amount: number; // total amount sold
+  unmatchedAmount: number;
+  proceedsIdr: number; // proceeds of the unmatched amount
+  resolution: ResolutionKind | null;
+  resolvedCostBasisIdr: number | null;
+}
+
+// Staking income realized by a withdrawal, valued when it was received. For
+// a native stake account it is the SOL withdrawn beyond what was staked; for
+// a liquid staking token, the SOL received beyond the tokens' cost basis.
+export interface StakingIncome {
+  walletAddress: string;
+  signature: string;
+  timestamp: Date;
+  protocol: StakingProtocol;
+  stakeAddress: string; // liquid staking token mint, or native stake account
+  symbol: string;
+  incomeUsd: number;
+  incomeIdr: number;
+}
+
+// Result realized by a liquidity withdrawal: what the pool paid out against
+// the cost basis of the position it returned, so fees earned and impermanent
+// loss are both in it
+export interface LpResult {
+  walletAddress: string;
+  signature: string;
+  timestamp: Date;
+  protocol: LpProtocol;
+  position: string; // LP token mint, or pool address
+  symbols: string; // tokens paid out, e.g. 'SOL/USDC'
+  proceedsIdr: number; // value paid out, fees deducted
+  costBasisIdr: number;
+  gainLossUsd: number;
+  gainLossIdr: number;
+}
+
+// Interest earned on a lending deposit: what withdrawals return beyond the
+// amount deposited, valued when received
+export interface LendingInterest {
+  walletAddress: string;
+  signature: string;
+  timestamp: Date;
+  protocol: LendingProtocol;
+  account: string; // lending account, e.g. a Kamino obligation
+  tokenAddress: string;
+  symbol: string;
+  amount: number;
+  incomeUsd: number;
+  incomeIdr: number; // fees deducted
+}
+
+// Loan still open at the end of the calculation
+export interface LendingLiability {
+  walletAddress: string;
+  tokenAddress: string;
+  symbol: string;
+  amount: number;
+  borrowedValueIdr: number; // value when borrowed
+}
+
+// Airdrop or reward received: income at its market value on receipt, which
+// is also the cost basis of the tokens
+export interface IncomeReceipt {
+  walletAddress: string;
+  signature: string;
+  timestamp: Date;
+  kind: IncomeKind;
+  classifiedByUser: boolean; // false when detected from the distributor program
+  source: string; // airdrop distributor, or the sending address
+  tokenAddress: string;
+  symbol: string;
+  amount: number;
+  priceUsd: number | null;
+  incomeUsd: number;
+  incomeIdr: number; // fees deducted
+}
+
+// Summary of all calculations. Amounts and values are calculated with exact
+// decimals and only converted to numbers here; the report rounds them.
 export interface TaxSummary {
-  totalTransactions: number;
+  totalTransactions: number; // hidden transactions not included
+  totalHiddenTransactions: number; // spam and dust transfers left out
   totalBuys: number;
   totalSells: number;
+  totalTransfersIn: number;
+  totalTransfersOut: number;
+  totalSelfTransfers: number;
+  totalStakes: number;
+  totalUnstakes: number;
+  totalLpDeposits: number;
+  totalLpWithdrawals: number;
+  totalLendingTransactions: number; // liquidations included
+  totalLiquidations: number; // also counted as sells
+  totalIncomeReceipts: number; // airdrops and rewards, not counted as transfers
 
   totalBuyValueIdr: number;
   totalSellValueIdr: number;
@@ -67,17 +290,132 @@ export interface TaxSummary {
   totalPpnTax: number;
   totalTax: number;
 
+  totalFeesIdr: number; // fees counted in cost basis and proceeds
+
+  // Staking rewards are income, separate from trading gains and their
+  // final PPh
+  totalStakingIncomeIdr: number;
+  stakingIncome: StakingIncome[];
+
+  // Liquidity pool results, also outside the final PPh
+  totalLpGainLossIdr: number;
+  lpResults: LpResult[];
+
+  // Lending interest is income like staking rewards; loans are liabilities
+  totalLendingInterestIdr: number;
+  lendingInterest: LendingInterest[];
+  lendingLiabilities: LendingLiability[];
+
+  // Airdrops and rewards, income like staking rewards
+  totalIncomeIdr: number;
+  income: IncomeReceipt[];
+
+  valuation: ValuationMode;
+  exchangeType: ExchangeType;
+  costBasisMethod: CostBasisMethod;
+  inboundCostBasis: InboundCostBasis;
+  publicDataOnly: boolean; // manual prices and cost basis were left out
+  openingLots: OpeningLot[]; // lots carried in from before the first transaction
+  taxRules: TaxRuleSet[]; // rule sets applied, oldest first
+  unmatchedDisposals: UnmatchedDisposal[];
   transactions: TransactionTaxResult[];
 }
 
+// True when the token's USD value is known without a price lookup for the
+// token itself (stablecoins at $1, SOL from its own historical price)
+function isQuoteToken(tokenAddress: string): boolean {
+  return STABLE_TOKENS.has(tokenAddress) || tokenAddress === SOL_TOKEN;
+}
+
+// Open loans, with the symbols seen for their tokens
+function toLendingLiabilities(loans: LotInventory, symbols: Map<string, string>): LendingLiability[] {
+  return [...loans.values()].flat().filter(lot => lot.amount.gt(0)).map(lot => ({
+    walletAddress: lot.walletAddress,
+    tokenAddress: lot.tokenAddress,
+    symbol: symbols.get(lot.tokenAddress) || '',
+    amount: lot.amount.toNumber(),
+    borrowedValueIdr: lot.costBasisIdr.toNumber(),
+  }));
+}
+
+function toOpeningLot(lot: TokenLot): OpeningLot {
+  return {
+    walletAddress: lot.walletAddress,
+    tokenAddress: lot.tokenAddress,
+    amount: lot.amount.toNumber(),
+    costBasisUsd: lot.costBasisUsd.toNumber(),
+    costBasisIdr: lot.costBasisIdr.toNumber(),
+    timestamp: lot.timestamp,
+  };
+}
+
 export async function calculateTaxes(
-  transactions: Transaction[]
+  allTransactions: Transaction[],
+  options: CalculateTaxesOptions = {}
 ): Promise<TaxSummary> {
+  const {
+    valuation = DEFAULT_VALUATION_MODE,
+    exchangeType = 'unregistered',
+    method = DEFAULT_COST_BASIS_METHOD,
+    inboundCostBasis = DEFAULT_INBOUND_COST_BASIS,
+    publicDataOnly = false,
+  } = options;
+  const legsByTransaction = options.legs || new Map<string, TransactionLeg[]>();
+
+  // Spam and dust transfers are counted, then left out
+  const hidden = options.hidden || new Map<string, SpamReason>();
+  const transactions = allTransactions.filter(tx => !hidden.has(tx.id));
+  const totalHiddenTransactions = allTransactions.length - transactions.length;
+
+  // Pool tokens of a liquidity transaction: every leg but the LP token or
+  // position NFT (the `to` side of a deposit, the `from` side of a withdrawal)
+  const poolLegs = (tx: Transaction): Array<{ mint: string; symbol: string; amount: Decimal }> => {
+    const positionToken = tx.type === 'lp_deposit' ? tx.toToken : tx.fromToken;
+    const legs = legsByTransaction.get(tx.id);
+    if (!legs) {
+      const mint = tx.type === 'lp_deposit' ? tx.fromToken : tx.toToken;
+      const symbol = tx.type === 'lp_deposit' ? tx.fromSymbol : tx.toSymbol;
+      const amount = tx.type === 'lp_deposit' ? tx.fromAmount : tx.toAmount;
+      return mint ? [{ mint, symbol: symbol || '', amount: toDecimal(amount) }] : [];
+    }
+    return legs
+      .filter(leg => leg.mint !== positionToken)
+      .map(leg => ({ mint: leg.mint, symbol: leg.symbol || '', amount: toDecimal(leg.amount) }));
+  };
+
+  // Income kind of an inbound transfer: the wallet's own classification, or
+  // an airdrop the parser detected. Null for plain transfers.
+  const classifications = options.classifications || new Map<string, InboundClassification>();
+  const incomeKindOf = (tx: Transaction): IncomeKind | null => {
+    if (tx.type !== 'transfer_in' && tx.type !== 'airdrop') return null;
+    const classification = classifications.get(tx.signature);
+    const kind = classification?.walletAddress === tx.walletAddress
+      ? classification.kind
+      : tx.type;
+    return kind === 'airdrop' || kind === 'reward' ? kind : null;
+  };
+
+  // Open lots per token
+  const inventory: LotInventory = options.inventory || new Map();
+  const openingLots = [...inventory.values()].flat().map(toOpeningLot);
+  const loans: LotInventory = options.loans || new Map();
+
   if (transactions.length === 0) {
     return {
       totalTransactions: 0,
+      totalHiddenTransactions,
       totalBuys: 0,
       totalSells: 0,
+      totalTransfersIn: 0,
+      totalTransfersOut: 0,
+      totalSelfTransfers: 0,
+      totalStakes: 0,
+      totalUnstakes: 0,
+      totalLpDeposits: 0,
+      totalLpWithdrawals: 0,
+      totalLendingTransactions: 0,
+      totalLiquidations: 0,
+      totalIncomeReceipts: 0,
       totalBuyValueIdr: 0,
       totalSellValueIdr: 0,
       totalGainIdr: 0,
@@ -86,27 +424,170 @@ export async function calculateTaxes(
       totalPphTax: 0,
       totalPpnTax: 0,
       totalTax: 0,
+      totalFeesIdr: 0,
+      totalStakingIncomeIdr: 0,
+      stakingIncome: [],
+      totalLpGainLossIdr: 0,
+      lpResults: [],
+      totalLendingInterestIdr: 0,
+      lendingInterest: [],
+      lendingLiabilities: toLendingLiabilities(loans, new Map()),
+      totalIncomeIdr: 0,
+      income: [],
+      valuation,
+      exchangeType,
+      costBasisMethod: method,
+      inboundCostBasis,
+      publicDataOnly,
+      openingLots,
+      taxRules: [],
+      unmatchedDisposals: [],
       transactions: [],
     };
   }
 
-  // Get USD/IDR rate
-  const usdIdrRate = await getUsdToIdrRate();
+  // Get the USD/IDR rate in effect on each transaction date
+  const usdIdrRates = await getUsdToIdrRates(transactions.map(tx => new Date(tx.timestamp)));
+
+  // Manual price overrides take priority over providers and implied values
+  const overrides = publicDataOnly
+    ? []
+    : await getPriceOverrides([...new Set(transactions.map(tx => tx.walletAddress))]);
+  const hasOverride = (tokenAddress: string, tx: Transaction) =>
+    !!findPriceOverride(overrides, {
+      walletAddress: tx.walletAddress,
+      tokenAddress,
+      timestamp: new Date(tx.timestamp),
+      signature: tx.signature,
+    });
 
-  // Collect all unique token addresses
-  const tokenAddresses = new Set<string>();
+  // Price swap legs at the time of their own transaction. In implied mode
+  // only SOL legs, token-to-token swaps and overridden legs need a lookup.
+  const priceRequests: PriceRequest[] = [];
   transactions.forEach(tx => {
-    if (tx.fromToken) tokenAddresses.add(tx.fromToken);
-    if (tx.toToken) tokenAddresses.add(tx.toToken);
+    const timestamp = new Date(tx.timestamp);
+
+    // Income is valued at the market price of the token received, fees in SOL
+    if (incomeKindOf(tx)) {
+      const tokens = new Set([SOL_TOKEN, tx.toToken]);
+      tokens.forEach(tokenAddress => {
+        if (tokenAddress && (!STABLE_TOKENS.has(tokenAddress) || hasOverride(tokenAddress, tx))) {
+          priceRequests.push({ tokenAddress, timestamp, signature: tx.signature, walletAddress: tx.walletAddress });
+        }
+      });
+      return;
+    }
+
+    // Transfers are only valued when inbound lots take the market value
+    // (or the user entered a price for them)
+    if (TRANSFER_TYPES.has(tx.type || '')) {
+      const token = tx.toToken;
+      if (tx.type !== 'transfer_out' && token && !isQuoteToken(token) &&
+        (inboundCostBasis === 'market' || hasOverride(token, tx))) {
+        priceRequests.push({ tokenAddress: token, timestamp, signature: tx.signature, walletAddress: tx.walletAddress });
+      }
+      return;
+    }
+
+    // Staking is valued from the SOL side, fees included
+    if (STAKING_TYPES.has(tx.type || '')) {
+      priceRequests.push({ tokenAddress: SOL_TOKEN, timestamp, signature: tx.signature, walletAddress: tx.walletAddress });
+      return;
+    }
+
+    // Lending is valued at the market price of the asset, fees in SOL
+    if (LENDING_TYPES.has(tx.type || '')) {
+      const tokens = new Set([SOL_TOKEN, tx.fromToken, tx.toToken]);
+      tokens.forEach(tokenAddress => {
+        if (tokenAddress && (!STABLE_TOKENS.has(tokenAddress) || hasOverride(tokenAddress, tx))) {
+          priceRequests.push({ tokenAddress, timestamp, signature: tx.signature, walletAddress: tx.walletAddress });
+        }
+      });
+      return;
+    }
+
+    // Liquidity is valued at the market price of each pool token, fees in SOL
+    if (LIQUIDITY_TYPES.has(tx.type || '')) {
+      const tokens = new Set([SOL_TOKEN, ...poolLegs(tx).map(leg => leg.mint)]);
+      tokens.forEach(tokenAddress => {
+        if (!STABLE_TOKENS.has(tokenAddress) || hasOverride(tokenAddress, tx)) {
+          priceRequests.push({ tokenAddress, timestamp, signature: tx.signature, walletAddress: tx.walletAddress });
+        }
+      });
+      return;
+    }
+
+    const legs = [tx.fromToken, tx.toToken].filter((token): token is string => !!token);
+    const hasStableLeg = legs.some(token => STABLE_TOKENS.has(token));
+    const hasQuoteLeg = legs.some(isQuoteToken);
+
+    legs.forEach(tokenAddress => {
+      const needsLookup =
+        valuation === 'market' ||
+        (tokenAddress === SOL_TOKEN && !hasStableLeg) ||
+        !hasQuoteLeg ||
+        hasOverride(tokenAddress, tx);
+
+      if (needsLookup) {
+        priceRequests.push({
+          tokenAddress,
+          timestamp,
+          signature: tx.signature,
+          walletAddress: tx.walletAddress,
+        });
+      }
+    });
+
+    // Fees paid in a token that is not a leg of the swap
+    const feeTokens = [
+      (tx.networkFeeLamports || 0) + (tx.priorityFeeLamports || 0) > 0 ? SOL_TOKEN : null,
+      tx.platformFeeToken,
+    ];
+    feeTokens.forEach(tokenAddress => {
+      if (tokenAddress && !legs.includes(tokenAddress)) {
+        priceRequests.push({
+          tokenAddress,
+          timestamp,
+          signature: tx.signature,
+          walletAddress: tx.walletAddress,
+        });
+      }
+    });
   });
 
   // Fetch all prices
-  const prices = await getTokenPrices([...tokenAddresses]);
+  const prices = await getHistoricalTokenPrices(priceRequests, overrides, options.onPriceProgress);
+  const priceResultAt = (tokenAddress: string, tx: Transaction) =>
+    prices.get(priceRequestKey({
+      tokenAddress,
+      timestamp: new Date(tx.timestamp),
+      signature: tx.signature,
+    }));
+  const priceAt = (tokenAddress: string, tx: Transaction) =>
+    toDecimal(priceResultAt(tokenAddress, tx)?.priceUsd);
+  const isUserPrice = (tokenAddress: string, tx: Transaction) =>
+    priceResultAt(tokenAddress, tx)?.source === MANUAL_PRICE_SOURCE;
+
+  // Known USD price of a SOL/USDC/USDT leg
+  const quotePriceAt = (tokenAddress: string, tx: Transaction) =>
+    STABLE_TOKENS.has(tokenAddress) && !isUserPrice(tokenAddress, tx) ? new Decimal(1) : priceAt(tokenAddress, tx);
 
-  // FIFO lots per token
-  const tokenLots = new Map<string, TokenLot[]>();
+  // Fees in USD, not already reflected in the legs' values
+  const feeUsdAt = (tx: Transaction, legPrice: (tokenAddress: string) => Decimal, quoteToken: string | null) => {
+    const feeLamports = (tx.networkFeeLamports || 0) + (tx.priorityFeeLamports || 0);
+    let feeUsd = new Decimal(feeLamports).div(1e9).mul(legPrice(SOL_TOKEN));
 
-  // Sort transactions by timestamp (oldest first for FIFO)
+    // A platform fee in the input token was part of the amount paid, and one
+    // in the token an implied value came from is already netted out of it
+    const platformFeeToken = tx.platformFeeToken;
+    if (platformFeeToken && platformFeeToken !== tx.fromToken && platformFeeToken !== quoteToken) {
+      feeUsd = feeUsd.plus(toDecimal(tx.platformFeeAmount).mul(legPrice(platformFeeToken)));
+    }
+
+    return feeUsd;
+  };
+
+  // Sort transactions by timestamp (oldest first, lots depend on order)
   const sortedTransactions = [...transactions].sort(
     (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
   );
@@ -114,186 +595,845 @@ export async function calculateTaxes(
   const results: TransactionTaxResult[] = [];
   let totalBuys = 0;
   let totalSells = 0;
-  let totalBuyValueIdr = 0;
-  let totalSellValueIdr = 0;
-  let totalGainIdr = 0;
-  let totalLossIdr = 0;
-  let totalPphTax = 0;
-  let totalPpnTax = 0;
+  let totalTransfersIn = 0;
+  let totalTransfersOut = 0;
+  let totalSelfTransfers = 0;
+  let totalStakes = 0;
+  let totalUnstakes = 0;
+  let totalLpDeposits = 0;
+  let totalLpWithdrawals = 0;
+  let totalLendingTransactions = 0;
+  let totalLiquidations = 0;
+  let totalIncomeReceipts = 0;
+  let totalBuyValueIdr = ZERO;
+  let totalSellValueIdr = ZERO;
+  let totalGainIdr = ZERO;
+  let totalLossIdr = ZERO;
+  let totalPphTax = ZERO;
+  let totalPpnTax = ZERO;
+  let totalFeesIdr = ZERO;
+  let totalStakingIncomeIdr = ZERO;
+  const stakingIncome: StakingIncome[] = [];
+  let totalLpGainLossIdr = ZERO;
+  const lpResults: LpResult[] = [];
+  let totalLendingInterestIdr = ZERO;
+  const lendingInterest: LendingInterest[] = [];
+  const lendingSymbols = new Map<string, string>();
+  let totalIncomeIdr = ZERO;
+  const income: IncomeReceipt[] = [];
+  const taxRulesApplied = new Map<string, TaxRuleSet>();
+  const unmatchedDisposals: UnmatchedDisposal[] = [];
+  const groupWallets = new Set(options.groupWallets || []);
+
+  // Sending sides of transfers, to pair self-transfers stored for both wallets
+  const outboundTransfers = new Set(
+    transactions
+      .filter(tx => tx.type === 'transfer_out')
+      .map(tx => `${tx.walletAddress}:${tx.signature}`)
+  );
+  const resolutions = options.resolutions || new Map<string, CostBasisResolution>();
+
+  // Match a disposal of the transaction's `from` token (or `token`) against
+  // open lots. Any amount not covered by a lot takes its cost basis from the
+  // user's resolution, or Rp 0 with a warning.
+  const matchDisposal = (
+    tx: Transaction,
+    amount: Decimal,
+    proceedsUsd: Decimal,
+    usdIdrRate: Decimal,
+    token: { mint: string; symbol: string } = { mint: tx.fromToken || '', symbol: tx.fromSymbol || '' }
+  ) => {
+    const tokenAddress = token.mint;
+    const match = consumeLots(inventory, tx.walletAddress, tokenAddress, amount, method);
+    let { costBasisUsd, costBasisIdr } = match;
+    let resolution: ResolutionKind | null = null;
+    let warningCode: TaxWarningCode | null = null;
+
+    if (match.unmatchedAmount.gt(0)) {
+      const resolved = resolutions.get(resolutionKey(tx.signature, tokenAddress));
+      if (resolved) {
+        resolution = resolved.kind as ResolutionKind;
+        costBasisIdr = costBasisIdr.plus(toDecimal(resolved.costBasisIdr));
+        costBasisUsd = costBasisUsd.plus(toDecimal(resolved.costBasisIdr).div(usdIdrRate));
+      } else {
+        warningCode = 'unmatched_disposal';
+      }
+
+      unmatchedDisposals.push({
+        walletAddress: tx.walletAddress,
+        signature: tx.signature,
+        timestamp: new Date(tx.timestamp),
+        tokenAddress,
+        symbol: token.symbol,
+        amount: amount.toNumber(),
+        unmatchedAmount: match.unmatchedAmount.toNumber(),
+        proceedsIdr: amount.gt(0)
+          ? proceedsUsd.mul(usdIdrRate).mul(match.unmatchedAmount).div(amount).toNumber()
+          : 0,
+        resolution,
+        resolvedCostBasisIdr: resolved ? Number(resolved.costBasisIdr) : null,
+      });
+    }
+
+    return {
+      costBasisUsd,
+      costBasisIdr,
+      unmatchedAmount: match.unmatchedAmount,
+      resolution,
+      warningCode,
+    };
+  };
 
   for (const tx of sortedTransactions) {
     const fromToken = tx.fromToken || '';
     const toToken = tx.toToken || '';
-    const fromAmount = Number(tx.fromAmount) || 0;
-    const toAmount = Number(tx.toAmount) || 0;
+    const fromAmount = toDecimal(tx.fromAmount);
+    const toAmount = toDecimal(tx.toAmount);
+    const fxRate = usdIdrRates.get(toJakartaDateKey(new Date(tx.timestamp)))!;
+    const usdIdrRate = new Decimal(fxRate.rate);
+
+    // Airdrops and rewards are income at their market value on receipt, and
+    // that value is the cost basis of the tokens received
+    const incomeKind = incomeKindOf(tx);
+    if (incomeKind) {
+      const priceUsd = quotePriceAt(toToken, tx);
+      const valueUsd = toAmount.mul(priceUsd);
+      const valueIdr = valueUsd.mul(usdIdrRate);
+      const feeUsd = feeUsdAt(tx, token => quotePriceAt(token, tx), null);
+      const incomeUsd = valueUsd.minus(feeUsd);
+      const incomeIdr = incomeUsd.mul(usdIdrRate);
+      totalIncomeReceipts++;
+      totalFeesIdr = totalFeesIdr.plus(feeUsd.mul(usdIdrRate));
+      totalIncomeIdr = totalIncomeIdr.plus(incomeIdr);
+      income.push({
+        walletAddress: tx.walletAddress,
+        signature: tx.signature,
+        timestamp: new Date(tx.timestamp),
+        kind: incomeKind,
+        classifiedByUser: incomeKind !== tx.type,
+        source: (tx.type === 'airdrop' ? tx.dex : tx.counterparty) || '',
+        tokenAddress: toToken,
+        symbol: tx.toSymbol || '',
+        amount: toAmount.toNumber(),
+        priceUsd: priceUsd.gt(0) ? priceUsd.toNumber() : null,
+        incomeUsd: incomeUsd.toNumber(),
+        incomeIdr: incomeIdr.toNumber(),
+      });
+
+      if (!isQuoteToken(toToken)) {
+        addLot(inventory, {
+          walletAddress: tx.walletAddress,
+          tokenAddress: toToken,
+          amount: toAmount,
+          costBasisUsd: valueUsd,
+          costBasisIdr: valueIdr,
+          timestamp: new Date(tx.timestamp),
+        }, method);
+      }
+
+      results.push({
+        signature: tx.signature,
+        timestamp: new Date(tx.timestamp),
+        type: incomeKind,
+        fromToken,
+        fromSymbol: tx.fromSymbol || '',
+        fromAmount: fromAmount.toNumber(),
+        toToken,
+        toSymbol: tx.toSymbol || '',
+        toAmount: toAmount.toNumber(),
+        dex: tx.dex || incomeKind,
+        fromPriceUsd: null,
+        toPriceUsd: priceUsd.gt(0) ? priceUsd.toNumber() : null,
+        valuation: 'market',
+        userProvidedPrice: isUserPrice(toToken, tx),
+        usdIdrRate: fxRate.rate,
+        usdIdrRateSource: fxRate.source,
+        transactionValueUsd: valueUsd.toNumber(),
+        transactionValueIdr: valueIdr.toNumber(),
+        feeUsd: feeUsd.toNumber(),
+        feeIdr: feeUsd.mul(usdIdrRate).toNumber(),
+        costBasisUsd: valueUsd.toNumber(),
+        costBasisIdr: valueIdr.toNumber(),
+        gainLossUsd: 0,
+        gainLossIdr: 0,
+        unmatchedAmount: 0,
+        resolution: null,
+        warningCode: null,
+        taxRuleId: getTaxRuleSet(new Date(tx.timestamp), exchangeType).id,
+        pphRate: 0,
+        ppnRate: 0,
+        pphTax: 0,
+        ppnTax: 0,
+        totalTax: 0,
+      });
+      continue;
+    }
+
+    // Transfers move lots without a taxable event. SOL and stablecoins are
+    // not lot-tracked, so their transfers are only listed.
+    if (TRANSFER_TYPES.has(tx.type || '')) {
+      const inbound = tx.type !== 'transfer_out';
+      const tokenAddress = inbound ? toToken : fromToken;
+      const amount = inbound ? toAmount : fromAmount;
+      const priceUsd = inbound ? priceAt(tokenAddress, tx) : ZERO;
+      let costBasisUsd = ZERO;
+      let costBasisIdr = ZERO;
+
+      // Transfer between the owner's wallets: the sending side moves the lots
+      // with their acquisition date and cost, the receiving side is skipped.
+      // Without the sending side, the receiving side is a normal inbound transfer.
+      const selfTransfer = !!tx.counterparty && groupWallets.has(tx.counterparty);
+      if (selfTransfer && inbound && outboundTransfers.has(`${tx.counterparty}:${tx.signature}`)) {
+        continue;
+      }
+      const selfTransferOut = selfTransfer && !inbound;
+
+      if (selfTransferOut) {
+        totalSelfTransfers++;
+        if (!isQuoteToken(tokenAddress)) {
+          const match = moveLots(inventory, tx.walletAddress, tx.counterparty!, tokenAddress, amount, method);
+          costBasisUsd = match.costBasisUsd;
+          costBasisIdr = match.costBasisIdr;
+        }
+      } else if (inbound) {
+        totalTransfersIn++;
+        costBasisUsd = inboundCostBasis === 'market' || isUserPrice(tokenAddress, tx) ? amount.mul(priceUsd) : ZERO;
+        costBasisIdr = costBasisUsd.mul(usdIdrRate);
+        if (!isQuoteToken(tokenAddress)) {
+          addLot(inventory, {
+            walletAddress: tx.walletAddress,
+            tokenAddress,
+            amount,
+            costBasisUsd,
+            costBasisIdr,
+            timestamp: new Date(tx.timestamp),
+          }, method);
+        }
+      } else {
+        totalTransfersOut++;
+        if (!isQuoteToken(tokenAddress)) {
+          const match = consumeLots(inventory, tx.walletAddress, tokenAddress, amount, method);
+          costBasisUsd = match.costBasisUsd;
+          costBasisIdr = match.costBasisIdr;
+        }
+      }
+
+      const valueUsd = amount.mul(priceUsd);
+      results.push({
+        signature: tx.signature,
+        timestamp: new Date(tx.timestamp),
+        type: selfTransferOut ? 'self_transfer' : inbound ? 'transfer_in' : 'transfer_out',
+        fromToken,
+        fromSymbol: tx.fromSymbol || '',
+        fromAmount: fromAmount.toNumber(),
+        toToken,
+        toSymbol: tx.toSymbol || '',
+        toAmount: toAmount.toNumber(),
+        dex: tx.dex || 'transfer',
+        fromPriceUsd: null,
+        toPriceUsd: inbound && priceUsd.gt(0) ? priceUsd.toNumber() : null,
+        valuation: 'market',
+        userProvidedPrice: inbound && isUserPrice(tokenAddress, tx),
+        usdIdrRate: fxRate.rate,
+        usdIdrRateSource: fxRate.source,
+        transactionValueUsd: valueUsd.toNumber(),
+        transactionValueIdr: valueUsd.mul(usdIdrRate).toNumber(),
+        feeUsd: 0,
+        feeIdr: 0,
+        costBasisUsd: costBasisUsd.toNumber(),
+        costBasisIdr: costBasisIdr.toNumber(),
+        gainLossUsd: 0,
+        gainLossIdr: 0,
+        unmatchedAmount: 0,
+        resolution: null,
+        warningCode: null,
+        taxRuleId: getTaxRuleSet(new Date(tx.timestamp), exchangeType).id,
+        pphRate: 0,
+        ppnRate: 0,
+        pphTax: 0,
+        ppnTax: 0,
+        totalTax: 0,
+      });
+      continue;
+    }
 
-    const fromPrice = prices.get(fromToken)?.priceUsd || 0;
-    const toPrice = prices.get(toToken)?.priceUsd || 0;
+    // Staking: the stake (liquid staking token, or the native stake account)
+    // is a lot costing the SOL put in. A withdrawal returns that lot; what it
+    // returns beyond the lot is staking income, not a trade gain.
+    if (STAKING_TYPES.has(tx.type || '')) {
+      const staking = tx.type === 'stake';
+      const native = staking ? !toToken : !fromToken;
+      const stakeAddress = (native ? tx.counterparty : staking ? toToken : fromToken) || '';
+      const solAmount = staking ? fromAmount : toAmount;
+      const stakeAmount = native ? solAmount : staking ? toAmount : fromAmount;
+      const solPrice = priceAt(SOL_TOKEN, tx);
+      const valueUsd = solAmount.mul(solPrice);
+      const feeUsd = feeUsdAt(tx, tokenAddress => quotePriceAt(tokenAddress, tx), null);
+      let costBasisUsd = ZERO;
+      let costBasisIdr = ZERO;
+      let unmatchedAmount = ZERO;
+      let resolution: ResolutionKind | null = null;
+      let warningCode: TaxWarningCode | null = null;
+      let incomeUsd = ZERO;
+      let incomeIdr = ZERO;
+
+      if (staking) {
+        totalStakes++;
+        costBasisUsd = valueUsd.plus(feeUsd);
+        costBasisIdr = costBasisUsd.mul(usdIdrRate);
+        addLot(inventory, {
+          walletAddress: tx.walletAddress,
+          tokenAddress: stakeAddress,
+          amount: stakeAmount,
+          costBasisUsd,
+          costBasisIdr,
+          timestamp: new Date(tx.timestamp),
+        }, method);
+      } else if (native) {
+        // SOL beyond the staked lots is the rewards the account earned
+        totalUnstakes++;
+        const match = consumeLots(inventory, tx.walletAddress, stakeAddress, stakeAmount, method);
+        costBasisUsd = match.costBasisUsd;
+        costBasisIdr = match.costBasisIdr;
+        incomeUsd = match.unmatchedAmount.gt(0) ? match.unmatchedAmount.mul(solPrice).minus(feeUsd) : ZERO;
+        incomeIdr = incomeUsd.mul(usdIdrRate);
+      } else {
+        // Tokens redeemed without a known deposit are resolved like a sale
+        totalUnstakes++;
+        const proceedsUsd = valueUsd.minus(feeUsd);
+        ({ costBasisUsd, costBasisIdr, unmatchedAmount, resolution, warningCode } =
+          matchDisposal(tx, stakeAmount, proceedsUsd, usdIdrRate));
+        incomeUsd = proceedsUsd.minus(costBasisUsd);
+        incomeIdr = proceedsUsd.mul(usdIdrRate).minus(costBasisIdr);
+      }
+
+      if (!incomeIdr.isZero()) {
+        totalStakingIncomeIdr = totalStakingIncomeIdr.plus(incomeIdr);
+        stakingIncome.push({
+          walletAddress: tx.walletAddress,
+          signature: tx.signature,
+          timestamp: new Date(tx.timestamp),
+          protocol: (tx.dex || 'native') as StakingProtocol,
+          stakeAddress,
+          symbol: native ? 'SOL' : tx.fromSymbol || '',
+          incomeUsd: incomeUsd.toNumber(),
+          incomeIdr: incomeIdr.toNumber(),
+        });
+      }
+      if (staking || !incomeIdr.isZero()) {
+        totalFeesIdr = totalFeesIdr.plus(feeUsd.mul(usdIdrRate));
+      }
+
+      results.push({
+        signature: tx.signature,
+        timestamp: new Date(tx.timestamp),
+        type: staking ? 'stake' : 'unstake',
+        fromToken,
+        fromSymbol: tx.fromSymbol || '',
+        fromAmount: fromAmount.toNumber(),
+        toToken,
+        toSymbol: tx.toSymbol || '',
+        toAmount: toAmount.toNumber(),
+        dex: tx.dex || 'native',
+        fromPriceUsd: staking ? solPrice.toNumber() : null,
+        toPriceUsd: staking ? null : solPrice.toNumber(),
+        valuation: 'market',
+        userProvidedPrice: isUserPrice(SOL_TOKEN, tx),
+        usdIdrRate: fxRate.rate,
+        usdIdrRateSource: fxRate.source,
+        transactionValueUsd: valueUsd.toNumber(),
+        transactionValueIdr: valueUsd.mul(usdIdrRate).toNumber(),
+        feeUsd: feeUsd.toNumber(),
+        feeIdr: feeUsd.mul(usdIdrRate).toNumber(),
+        costBasisUsd: costBasisUsd.toNumber(),
+        costBasisIdr: costBasisIdr.toNumber(),
+        gainLossUsd: 0,
+        gainLossIdr: 0,
+        unmatchedAmount: unmatchedAmount.toNumber(),
+        resolution,
+        warningCode,
+        taxRuleId: getTaxRuleSet(new Date(tx.timestamp), exchangeType).id,
+        pphRate: 0,
+        ppnRate: 0,
+        pphTax: 0,
+        ppnTax: 0,
+        totalTax: 0,
+      });
+      continue;
+    }
+
+    // Lending: a deposit moves the asset's lots to the lending account and a
+    // withdrawal moves them back; SOL and stablecoins are lots there too. What
+    // comes back beyond the deposits is interest, income valued when received.
+    // A loan is a lot in `loans`, and borrowed tokens are acquired at market
+    // value. A liquidation disposes of the seized collateral like a sale and
+    // pays off the loan it covered.
+    if (LENDING_TYPES.has(tx.type || '')) {
+      const account = tx.counterparty || '';
+      const outbound = tx.type === 'lend_deposit' || tx.type === 'lend_repay' || tx.type === 'lend_liquidation';
+      const tokenAddress = outbound ? fromToken : toToken;
+      const amount = outbound ? fromAmount : toAmount;
+      const priceUsd = quotePriceAt(tokenAddress, tx);
+      const valueUsd = amount.mul(priceUsd);
+      const valueIdr = valueUsd.mul(usdIdrRate);
+      const feeUsd = feeUsdAt(tx, token => quotePriceAt(token, tx), null);
+      const taxRule = getTaxRuleSet(new Date(tx.timestamp), exchangeType);
+      let costBasisUsd = ZERO;
+      let costBasisIdr = ZERO;
+      let gainLossUsd = ZERO;
+      let gainLossIdr = ZERO;
+      let pphTax = ZERO;
+      totalLendingTransactions++;
+      lendingSymbols.set(tokenAddress, (outbound ? tx.fromSymbol : tx.toSymbol) || '');
+
+      if (tx.type === 'lend_deposit') {
+        if (isQuoteToken(tokenAddress)) {
+          costBasisUsd = valueUsd;
+          costBasisIdr = valueIdr;
+          addLot(inventory, {
+            walletAddress: account,
+            tokenAddress,
+            amount,
+            costBasisUsd,
+            costBasisIdr,
+            timestamp: new Date(tx.timestamp),
+          }, method);
+        } else {
+          // Tokens without known lots still count towards the deposit
+          const match = moveLots(inventory, tx.walletAddress, account, tokenAddress, amount, method);
+          costBasisUsd = match.costBasisUsd;
+          costBasisIdr = match.costBasisIdr;
+          if (match.unmatchedAmount.gt(0)) {
+            addLot(inventory, {
+              walletAddress: account,
+              tokenAddress,
+              amount: match.unmatchedAmount,
+              costBasisUsd: ZERO,
+              costBasisIdr: ZERO,
+              timestamp: new Date(tx.timestamp),
+            }, method);
+          }
+        }
+      } else if (tx.type === 'lend_withdraw') {
+        const match = isQuoteToken(tokenAddress)
+          ? consumeLots(inventory, account, tokenAddress, amount, method)
+          : moveLots(inventory, account, tx.walletAddress, tokenAddress, amount, method);
+        costBasisUsd = match.costBasisUsd;
+        costBasisIdr = match.costBasisIdr;
+
+        if (match.unmatchedAmount.gt(0)) {
+          const interestUsd = match.unmatchedAmount.mul(priceUsd);
+          const incomeUsd = interestUsd.minus(feeUsd);
+          const incomeIdr = incomeUsd.mul(usdIdrRate);
+          totalFeesIdr = totalFeesIdr.plus(feeUsd.mul(usdIdrRate));
+          totalLendingInterestIdr = totalLendingInterestIdr.plus(incomeIdr);
+          lendingInterest.push({
+            walletAddress: tx.walletAddress,
+            signature: tx.signature,
+            timestamp: new Date(tx.timestamp),
+            protocol: (tx.dex || 'kamino') as LendingProtocol,
+            account,
+            tokenAddress,
+            symbol: tx.toSymbol || '',
+            amount: match.unmatchedAmount.toNumber(),
+            incomeUsd: incomeUsd.toNumber(),
+            incomeIdr: incomeIdr.toNumber(),
+          });
+
+          if (!isQuoteToken(tokenAddress)) {
+            addLot(inventory, {
+              walletAddress: tx.walletAddress,
+              tokenAddress,
+              amount: match.unmatchedAmount,
+              costBasisUsd: interestUsd,
+              costBasisIdr: interestUsd.mul(usdIdrRate),
+              timestamp: new Date(tx.timestamp),
+            }, method);
+          }
+        }
+      } else if (tx.type === 'lend_borrow') {
+        const lot = {
+          walletAddress: tx.walletAddress,
+          tokenAddress,
+          amount,
+          costBasisUsd: valueUsd,
+          costBasisIdr: valueIdr,
+          timestamp: new Date(tx.timestamp),
+        };
+        addLot(loans, lot, method);
+        if (!isQuoteToken(tokenAddress)) {
+          addLot(inventory, lot, method);
+        }
+      } else if (tx.type === 'lend_repay') {
+        // Repaid beyond the loan is interest paid, which is not deducted
+        const match = consumeLots(loans, tx.walletAddress, tokenAddress, amount, method);
+        costBasisUsd = match.costBasisUsd;
+        costBasisIdr = match.costBasisIdr;
+        if (!isQuoteToken(tokenAddress)) {
+          consumeLots(inventory, tx.walletAddress, tokenAddress, amount, method);
+        }
+      } else {
+        // Collateral taken without a known deposit has a cost basis of Rp 0
+        totalLiquidations++;
+        totalSells++;
+        taxRulesApplied.set(taxRule.id, taxRule);
+        totalSellValueIdr = totalSellValueIdr.plus(valueIdr);
+        const match = consumeLots(inventory, account, tokenAddress, amount, method);
+        costBasisUsd = match.costBasisUsd;
+        costBasisIdr = match.costBasisIdr;
+        gainLossUsd = valueUsd.minus(costBasisUsd);
+        gainLossIdr = valueIdr.minus(costBasisIdr);
+        if (gainLossIdr.gt(0)) {
+          totalGainIdr = totalGainIdr.plus(gainLossIdr);
+        } else {
+          totalLossIdr = totalLossIdr.plus(gainLossIdr.abs());
+        }
+        pphTax = valueIdr.mul(taxRule.pphSellRate);
+        totalPphTax = totalPphTax.plus(pphTax);
+
+        consumeLots(loans, tx.walletAddress, toToken, toAmount, method);
+        lendingSymbols.set(toToken, tx.toSymbol || '');
+      }
+
+      const liquidation = tx.type === 'lend_liquidation';
+      results.push({
+        signature: tx.signature,
+        timestamp: new Date(tx.timestamp),
+        type: tx.type as TransactionTaxResult['type'],
+        fromToken,
+        fromSymbol: tx.fromSymbol || '',
+        fromAmount: fromAmount.toNumber(),
+        toToken,
+        toSymbol: tx.toSymbol || '',
+        toAmount: toAmount.toNumber(),
+        dex: tx.dex || 'unknown',
+        fromPriceUsd: outbound ? priceUsd.toNumber() : null,
+        toPriceUsd: outbound ? null : priceUsd.toNumber(),
+        valuation: 'market',
+        userProvidedPrice: isUserPrice(tokenAddress, tx),
+        usdIdrRate: fxRate.rate,
+        usdIdrRateSource: fxRate.source,
+        transactionValueUsd: valueUsd.toNumber(),
+        transactionValueIdr: valueIdr.toNumber(),
+        feeUsd: feeUsd.toNumber(),
+        feeIdr: feeUsd.mul(usdIdrRate).toNumber(),
+        costBasisUsd: costBasisUsd.toNumber(),
+        costBasisIdr: costBasisIdr.toNumber(),
+        gainLossUsd: gainLossUsd.toNumber(),
+        gainLossIdr: gainLossIdr.toNumber(),
+        unmatchedAmount: 0,
+        resolution: null,
+        warningCode: null,
+        taxRuleId: taxRule.id,
+        pphRate: liquidation ? taxRule.pphSellRate : 0,
+        ppnRate: 0,
+        pphTax: pphTax.toNumber(),
+        ppnTax: 0,
+        totalTax: pphTax.toNumber(),
+      });
+      continue;
+    }
+
+    // Liquidity: the position (LP token, or the pool for positions without
+    // one) is a lot carrying the cost basis of the tokens put in. Positions
+    // without an LP token are counted in USD of value deposited, so a
+    // withdrawal returns the share of the basis matching the value it takes
+    // out, and closing the position (burning its NFT) returns all of it.
+    if (LIQUIDITY_TYPES.has(tx.type || '')) {
+      const deposit = tx.type === 'lp_deposit';
+      const position = tx.counterparty || '';
+      const positionToken = deposit ? toToken : fromToken;
+      const fungible = !!positionToken && positionToken === position;
+      const legs = poolLegs(tx);
+      const valueUsd = legs.reduce((sum, leg) => sum.plus(leg.amount.mul(quotePriceAt(leg.mint, tx))), ZERO);
+      const feeUsd = feeUsdAt(tx, tokenAddress => quotePriceAt(tokenAddress, tx), null);
+      const feeIdr = feeUsd.mul(usdIdrRate);
+      totalFeesIdr = totalFeesIdr.plus(feeIdr);
+      let costBasisUsd = ZERO;
+      let costBasisIdr = ZERO;
+      let gainLossUsd = ZERO;
+      let gainLossIdr = ZERO;
+      let unmatchedAmount = ZERO;
+      let resolution: ResolutionKind | null = null;
+      let warningCode: TaxWarningCode | null = null;
+
+      if (deposit) {
+        // Tokens carry their lots' basis into the position, like a transfer.
+        // Tokens without lots are flagged and resolved like a sale.
+        totalLpDeposits++;
+        for (const leg of legs) {
+          const legValueUsd = leg.amount.mul(quotePriceAt(leg.mint, tx));
+          if (isQuoteToken(leg.mint)) {
+            costBasisUsd = costBasisUsd.plus(legValueUsd);
+            costBasisIdr = costBasisIdr.plus(legValueUsd.mul(usdIdrRate));
+          } else {
+            const match = matchDisposal(tx, leg.amount, legValueUsd, usdIdrRate, leg);
+            costBasisUsd = costBasisUsd.plus(match.costBasisUsd);
+            costBasisIdr = costBasisIdr.plus(match.costBasisIdr);
+            if (match.unmatchedAmount.gt(0) && unmatchedAmount.isZero()) {
+              ({ unmatchedAmount, resolution, warningCode } = match);
+            }
+          }
+        }
+        costBasisUsd = costBasisUsd.plus(feeUsd);
+        costBasisIdr = costBasisIdr.plus(feeIdr);
+        addLot(inventory, {
+          walletAddress: tx.walletAddress,
+          tokenAddress: position,
+          amount: fungible ? toAmount : valueUsd,
+          costBasisUsd,
+          costBasisIdr,
+          timestamp: new Date(tx.timestamp),
+        }, method);
+      } else {
+        totalLpWithdrawals++;
+        const proceedsUsd = valueUsd.minus(feeUsd);
+        if (fungible) {
+          // LP tokens without a known deposit are resolved like a sale
+          ({ costBasisUsd, costBasisIdr, unmatchedAmount, resolution, warningCode } =
+            matchDisposal(tx, fromAmount, proceedsUsd, usdIdrRate));
+        } else {
+          const held = (inventory.get(inventoryKey(tx.walletAddress, position)) || [])
+            .reduce((sum, lot) => sum.plus(lot.amount), ZERO);
+          const closed = !!positionToken;
+          const match = consumeLots(inventory, tx.walletAddress, position,
+            closed ? held : Decimal.min(valueUsd, held), method);
+          costBasisUsd = match.costBasisUsd;
+          costBasisIdr = match.costBasisIdr;
+        }
+
+        gainLossUsd = proceedsUsd.minus(costBasisUsd);
+        gainLossIdr = proceedsUsd.mul(usdIdrRate).minus(costBasisIdr);
+        totalLpGainLossIdr = totalLpGainLossIdr.plus(gainLossIdr);
+        lpResults.push({
+          walletAddress: tx.walletAddress,
+          signature: tx.signature,
+          timestamp: new Date(tx.timestamp),
+          protocol: (tx.dex || 'raydium') as LpProtocol,
+          position,
+          symbols: legs.map(leg => leg.symbol).join('/'),
+          proceedsIdr: proceedsUsd.mul(usdIdrRate).toNumber(),
+          costBasisIdr: costBasisIdr.toNumber(),
+          gainLossUsd: gainLossUsd.toNumber(),
+          gainLossIdr: gainLossIdr.toNumber(),
+        });
+
+        // Tokens paid out start new lots at their market value
+        for (const leg of legs) {
+          if (isQuoteToken(leg.mint)) continue;
+          const legValueUsd = leg.amount.mul(quotePriceAt(leg.mint, tx));
+          addLot(inventory, {
+            walletAddress: tx.walletAddress,
+            tokenAddress: leg.mint,
+            amount: leg.amount,
+            costBasisUsd: legValueUsd,
+            costBasisIdr: legValueUsd.mul(usdIdrRate),
+            timestamp: new Date(tx.timestamp),
+          }, method);
+        }
+      }
+
+      results.push({
+        signature: tx.signature,
+        timestamp: new Date(tx.timestamp),
+        type: deposit ? 'lp_deposit' : 'lp_withdraw',
+        fromToken,
+        fromSymbol: tx.fromSymbol || '',
+        fromAmount: fromAmount.toNumber(),
+        toToken,
+        toSymbol: tx.toSymbol || '',
+        toAmount: toAmount.toNumber(),
+        dex: tx.dex || 'unknown',
+        fromPriceUsd: null,
+        toPriceUsd: null,
+        valuation: 'market',
+        userProvidedPrice: legs.some(leg => isUserPrice(leg.mint, tx)),
+        usdIdrRate: fxRate.rate,
+        usdIdrRateSource: fxRate.source,
+        transactionValueUsd: valueUsd.toNumber(),
+        transactionValueIdr: valueUsd.mul(usdIdrRate).toNumber(),
+        feeUsd: feeUsd.toNumber(),
+        feeIdr: feeIdr.toNumber(),
+        costBasisUsd: costBasisUsd.toNumber(),
+        costBasisIdr: costBasisIdr.toNumber(),
+        gainLossUsd: gainLossUsd.toNumber(),
+        gainLossIdr: gainLossIdr.toNumber(),
+        unmatchedAmount: unmatchedAmount.toNumber(),
+        resolution,
+        warningCode,
+        taxRuleId: getTaxRuleSet(new Date(tx.timestamp), exchangeType).id,
+        pphRate: 0,
+        ppnRate: 0,
+        pphTax: 0,
+        ppnTax: 0,
+        totalTax: 0,
+      });
+      continue;
+    }
+
+    const taxRule = getTaxRuleSet(new Date(tx.timestamp), exchangeType);
+    taxRulesApplied.set(taxRule.id, taxRule);
+
+    let fromPrice = priceAt(fromToken, tx);
+    let toPrice = priceAt(toToken, tx);
+    let txValuation: ValuationMode = 'market';
+    let quoteToken: string | null = null;
+
+    // Implied valuation: both legs are worth what the known side is worth.
+    // Stablecoin legs are preferred over SOL legs. A leg with a user-provided
+    // price keeps it.
+    if (valuation === 'implied') {
+      const quoteSide = STABLE_TOKENS.has(toToken) ? 'to'
+        : STABLE_TOKENS.has(fromToken) ? 'from'
+        : toToken === SOL_TOKEN ? 'to'
+        : fromToken === SOL_TOKEN ? 'from'
+        : null;
+      const derivedToken = quoteSide === 'from' ? toToken : fromToken;
+
+      if (quoteSide && isUserPrice(derivedToken, tx)) {
+        fromPrice = quotePriceAt(fromToken, tx);
+        toPrice = quotePriceAt(toToken, tx);
+      } else if (quoteSide === 'from') {
+        fromPrice = quotePriceAt(fromToken, tx);
+        const valueUsd = fromAmount.mul(fromPrice);
+        toPrice = toAmount.gt(0) ? valueUsd.div(toAmount) : ZERO;
+        txValuation = 'implied';
+        quoteToken = fromToken;
+      } else if (quoteSide === 'to') {
+        toPrice = quotePriceAt(toToken, tx);
+        const valueUsd = toAmount.mul(toPrice);
+        fromPrice = fromAmount.gt(0) ? valueUsd.div(fromAmount) : ZERO;
+        txValuation = 'implied';
+        quoteToken = toToken;
+      }
+    }
 
     // Calculate transaction value (use the "to" side as the value)
-    const transactionValueUsd = toAmount * toPrice;
-    const transactionValueIdr = transactionValueUsd * usdIdrRate;
+    const transactionValueUsd = toAmount.mul(toPrice);
+    const transactionValueIdr = transactionValueUsd.mul(usdIdrRate);
+
+    const legPrice = (tokenAddress: string) =>
+      tokenAddress === fromToken ? fromPrice
+        : tokenAddress === toToken ? toPrice
+        : quotePriceAt(tokenAddress, tx);
+    const feeUsd = feeUsdAt(tx, legPrice, quoteToken);
+    const feeIdr = feeUsd.mul(usdIdrRate);
+    totalFeesIdr = totalFeesIdr.plus(feeIdr);
 
     // Determine if this is a buy or sell
     // Buy = acquiring a non-stable token (SOL/USDC -> token)
     // Sell = disposing of a non-stable token (token -> SOL/USDC)
-    const stableTokens = new Set([
-      'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
-      'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
-    ]);
-    const solToken = 'So11111111111111111111111111111111111111112';
-
-    const fromIsStableOrSol = stableTokens.has(fromToken) || fromToken === solToken;
-    const toIsStableOrSol = stableTokens.has(toToken) || toToken === solToken;
+    const fromIsStableOrSol = isQuoteToken(fromToken);
+    const toIsStableOrSol = isQuoteToken(toToken);
 
     let type: 'buy' | 'sell';
-    let costBasisUsd = 0;
-    let costBasisIdr = 0;
-    let gainLossUsd = 0;
-    let gainLossIdr = 0;
-    let pphTax = 0;
-    let ppnTax = 0;
+    let costBasisUsd = ZERO;
+    let costBasisIdr = ZERO;
+    let gainLossUsd = ZERO;
+    let gainLossIdr = ZERO;
+    let unmatchedAmount = ZERO;
+    let resolution: ResolutionKind | null = null;
+    let warningCode: TaxWarningCode | null = null;
+    let pphTax = ZERO;
+    let ppnTax = ZERO;
 
     if (fromIsStableOrSol && !toIsStableOrSol) {
       // BUY: Acquiring a token with SOL/USDC
       type = 'buy';
       totalBuys++;
-      totalBuyValueIdr += transactionValueIdr;
+      totalBuyValueIdr = totalBuyValueIdr.plus(transactionValueIdr);
 
-      // Add to FIFO lots
-      const costUsd = fromAmount * fromPrice;
-      const costIdr = costUsd * usdIdrRate;
+      // Add to lots, fees included
+      const costUsd = fromAmount.mul(fromPrice).plus(feeUsd);
+      const costIdr = costUsd.mul(usdIdrRate);
 
-      const lot: TokenLot = {
+      addLot(inventory, {
+        walletAddress: tx.walletAddress,
         tokenAddress: toToken,
         amount: toAmount,
         costBasisUsd: costUsd,
         costBasisIdr: costIdr,
         timestamp: new Date(tx.timestamp),
-      };
-
-      if (!tokenLots.has(toToken)) {
-        tokenLots.set(toToken, []);
-      }
-      tokenLots.get(toToken)!.push(lot);
+      }, method);
 
       // PPN tax on buy
-      ppnTax = transactionValueIdr * TAX_RATES.PPN_BUY;
-      totalPpnTax += ppnTax;
+      ppnTax = transactionValueIdr.mul(taxRule.ppnBuyRate);
+      totalPpnTax = totalPpnTax.plus(ppnTax);
 
     } else if (!fromIsStableOrSol && toIsStableOrSol) {
       // SELL: Disposing a token for SOL/USDC
       type = 'sell';
       totalSells++;
-      totalSellValueIdr += transactionValueIdr;
-
-      // Calculate FIFO cost basis
-      const lots = tokenLots.get(fromToken) || [];
-      let remainingToSell = fromAmount;
-      let totalCostUsd = 0;
-      let totalCostIdr = 0;
-
-      while (remainingToSell > 0 && lots.length > 0) {
-        const lot = lots[0];
-
-        if (lot.amount <= remainingToSell) {
-          // Use entire lot
-          totalCostUsd += lot.costBasisUsd;
-          totalCostIdr += lot.costBasisIdr;
-          remainingToSell -= lot.amount;
-          lots.shift(); // Remove lot
-        } else {
-          // Use partial lot
-          const fraction = remainingToSell / lot.amount;
-          totalCostUsd += lot.costBasisUsd * fraction;
-          totalCostIdr += lot.costBasisIdr * fraction;
-          lot.amount -= remainingToSell;
-          lot.costBasisUsd *= (1 - fraction);
-          lot.costBasisIdr *= (1 - fraction);
-          remainingToSell = 0;
-        }
-      }
+      totalSellValueIdr = totalSellValueIdr.plus(transactionValueIdr);
 
-      costBasisUsd = totalCostUsd;
-      costBasisIdr = totalCostIdr;
+      // Match against open lots, fees deducted from the proceeds
+      const proceedsUsd = fromAmount.mul(fromPrice).minus(feeUsd);
+      ({ costBasisUsd, costBasisIdr, unmatchedAmount, resolution, warningCode } =
+        matchDisposal(tx, fromAmount, proceedsUsd, usdIdrRate));
 
-      // Calculate gain/loss
-      const proceedsUsd = fromAmount * fromPrice;
-      gainLossUsd = proceedsUsd - costBasisUsd;
-      gainLossIdr = gainLossUsd * usdIdrRate;
+      // Calculate gain/loss (IDR against the rates at acquisition)
+      gainLossUsd = proceedsUsd.minus(costBasisUsd);
+      gainLossIdr = proceedsUsd.mul(usdIdrRate).minus(costBasisIdr);
 
-      if (gainLossIdr > 0) {
-        totalGainIdr += gainLossIdr;
+      if (gainLossIdr.gt(0)) {
+        totalGainIdr = totalGainIdr.plus(gainLossIdr);
       } else {
-        totalLossIdr += Math.abs(gainLossIdr);
+        totalLossIdr = totalLossIdr.plus(gainLossIdr.abs());
       }
 
       // PPH tax on sell
-      pphTax = transactionValueIdr * TAX_RATES.PPH_SELL;
-      totalPphTax += pphTax;
+      pphTax = transactionValueIdr.mul(taxRule.pphSellRate);
+      totalPphTax = totalPphTax.plus(pphTax);
+
+    } else if (fromIsStableOrSol && toIsStableOrSol) {
+      // SOL/stablecoin to SOL/stablecoin: a sale for PPh Final, but quote
+      // tokens have no lots, so there is nothing to match and no gain is
+      // measured (like SOL spent on a buy)
+      type = 'sell';
+      totalSells++;
+      totalSellValueIdr = totalSellValueIdr.plus(transactionValueIdr);
+
+      costBasisUsd = transactionValueUsd.minus(feeUsd);
+      costBasisIdr = costBasisUsd.mul(usdIdrRate);
+
+      pphTax = transactionValueIdr.mul(taxRule.pphSellRate);
+      totalPphTax = totalPphTax.plus(pphTax);
 
     } else {
       // Token to token swap - treat as sell + buy
       // For simplicity, we'll treat this as a sell (taxable event)
       type = 'sell';
       totalSells++;
-      totalSellValueIdr += transactionValueIdr;
-
-      // FIFO for the from token
-      const lots = tokenLots.get(fromToken) || [];
-      let remainingToSell = fromAmount;
-      let totalCostUsd = 0;
-      let totalCostIdr = 0;
-
-      while (remainingToSell > 0 && lots.length > 0) {
-        const lot = lots[0];
-
-        if (lot.amount <= remainingToSell) {
-          totalCostUsd += lot.costBasisUsd;
-          totalCostIdr += lot.costBasisIdr;
-          remainingToSell -= lot.amount;
-          lots.shift();
-        } else {
-          const fraction = remainingToSell / lot.amount;
-          totalCostUsd += lot.costBasisUsd * fraction;
-          totalCostIdr += lot.costBasisIdr * fraction;
-          lot.amount -= remainingToSell;
-          lot.costBasisUsd *= (1 - fraction);
-          lot.costBasisIdr *= (1 - fraction);
-          remainingToSell = 0;
-        }
-      }
+      totalSellValueIdr = totalSellValueIdr.plus(transactionValueIdr);
 
-      costBasisUsd = totalCostUsd;
-      costBasisIdr = totalCostIdr;
+      // Match the from token against open lots, fees deducted from the proceeds
+      const proceedsUsd = transactionValueUsd.minus(feeUsd);
+      ({ costBasisUsd, costBasisIdr, unmatchedAmount, resolution, warningCode } =
+        matchDisposal(tx, fromAmount, proceedsUsd, usdIdrRate));
 
       // Gain/loss
-      gainLossUsd = transactionValueUsd - costBasisUsd;
-      gainLossIdr = gainLossUsd * usdIdrRate;
+      gainLossUsd = proceedsUsd.minus(costBasisUsd);
+      gainLossIdr = proceedsUsd.mul(usdIdrRate).minus(costBasisIdr);
 
-      if (gainLossIdr > 0) {
-        totalGainIdr += gainLossIdr;
+      if (gainLossIdr.gt(0)) {
+        totalGainIdr = totalGainIdr.plus(gainLossIdr);
       } else {
-        totalLossIdr += Math.abs(gainLossIdr);
+        totalLossIdr = totalLossIdr.plus(gainLossIdr.abs());
       }
 
       // Add the received token as a new lot
-      const newLot: TokenLot = {
+      addLot(inventory, {
+        walletAddress: tx.walletAddress,
         tokenAddress: toToken,
         amount: toAmount,
         costBasisUsd: transactionValueUsd,
         costBasisIdr: transactionValueIdr,
         timestamp: new Date(tx.timestamp),
-      };
-
-      if (!tokenLots.has(toToken)) {
-        tokenLots.set(toToken, []);
-      }
-      tokenLots.get(toToken)!.push(newLot);
+      }, method);
 
       // PPH tax on the sell portion
-      pphTax = transactionValueIdr * TAX_RATES.PPH_SELL;
-      totalPphTax += pphTax;
+      pphTax = transactionValueIdr.mul(taxRule.pphSellRate);
+      totalPphTax = totalPphTax.plus(pphTax);
     }
 
     results.push({
@@ -302,38 +1442,78 @@ export async function calculateTaxes(
       type,
       fromToken,
       fromSymbol: tx.fromSymbol || '',
-      fromAmount,
+      fromAmount: fromAmount.toNumber(),
       toToken,
       toSymbol: tx.toSymbol || '',
-      toAmount,
+      toAmount: toAmount.toNumber(),
       dex: tx.dex || 'unknown',
-      fromPriceUsd: fromPrice,
-      toPriceUsd: toPrice,
-      usdIdrRate,
-      transactionValueUsd,
-      transactionValueIdr,
-      costBasisUsd,
-      costBasisIdr,
-      gainLossUsd,
-      gainLossIdr,
-      pphTax,
-      ppnTax,
-      totalTax: pphTax + ppnTax,
+      fromPriceUsd: fromPrice.toNumber(),
+      toPriceUsd: toPrice.toNumber(),
+      valuation: txValuation,
+      userProvidedPrice: isUserPrice(fromToken, tx) || isUserPrice(toToken, tx),
+      usdIdrRate: fxRate.rate,
+      usdIdrRateSource: fxRate.source,
+      transactionValueUsd: transactionValueUsd.toNumber(),
+      transactionValueIdr: transactionValueIdr.toNumber(),
+      feeUsd: feeUsd.toNumber(),
+      feeIdr: feeIdr.toNumber(),
+      costBasisUsd: costBasisUsd.toNumber(),
+      costBasisIdr: costBasisIdr.toNumber(),
+      gainLossUsd: gainLossUsd.toNumber(),
+      gainLossIdr: gainLossIdr.toNumber(),
+      unmatchedAmount: unmatchedAmount.toNumber(),
+      resolution,
+      warningCode,
+      taxRuleId: taxRule.id,
+      pphRate: taxRule.pphSellRate,
+      ppnRate: taxRule.ppnBuyRate,
+      pphTax: pphTax.toNumber(),
+      ppnTax: ppnTax.toNumber(),
+      totalTax: pphTax.plus(ppnTax).toNumber(),
     });
   }
 
   return {
     totalTransactions: transactions.length,
+    totalHiddenTransactions,
     totalBuys,
     totalSells,
-    totalBuyValueIdr,
-    totalSellValueIdr,
-    totalGainIdr,
-    totalLossIdr,
-    netGainLossIdr: totalGainIdr - totalLossIdr,
-    totalPphTax,
-    totalPpnTax,
-    totalTax: totalPphTax + totalPpnTax,
+    totalTransfersIn,
+    totalTransfersOut,
+    totalSelfTransfers,
+    totalStakes,
+    totalUnstakes,
+    totalLpDeposits,
+    totalLpWithdrawals,
+    totalLendingTransactions,
+    totalLiquidations,
+    totalIncomeReceipts,
+    totalBuyValueIdr: totalBuyValueIdr.toNumber(),
+    totalSellValueIdr: totalSellValueIdr.toNumber(),
+    totalGainIdr: totalGainIdr.toNumber(),
+    totalLossIdr: totalLossIdr.toNumber(),
+    netGainLossIdr: totalGainIdr.minus(totalLossIdr).toNumber(),
+    totalPphTax: totalPphTax.toNumber(),
+    totalPpnTax: totalPpnTax.toNumber(),
+    totalTax: totalPphTax.plus(totalPpnTax).toNumber(),
+    totalFeesIdr: totalFeesIdr.toNumber(),
+    totalStakingIncomeIdr: totalStakingIncomeIdr.toNumber(),
+    stakingIncome,
+    totalLpGainLossIdr: totalLpGainLossIdr.toNumber(),
+    lpResults,
+    totalLendingInterestIdr: totalLendingInterestIdr.toNumber(),
+    lendingInterest,
+    lendingLiabilities: toLendingLiabilities(loans, lendingSymbols),
+    totalIncomeIdr: totalIncomeIdr.toNumber(),
+    income,
+    valuation,
+    exchangeType,
+    costBasisMethod: method,
+    inboundCostBasis,
+    publicDataOnly,
+    openingLots,
+    taxRules: [...taxRulesApplied.values()],
+    unmatchedDisposals,
     transactions: results,
   };
 }
@@ -0,0 +1,116 @@
+import { toJakartaDateKey } from '@/lib/utils';
+
+// Where the trade happened:
+// - registered: exchange registered with Bappebti / domestic PPMSE
+// - unregistered: everything else, including DEXes like Jupiter and Raydium
+export const EXCHANGE_TYPES = ['registered', 'unregistered'] as const;
+export type ExchangeType = (typeof EXCHANGE_TYPES)[number];
+
+// A set of crypto tax rates valid for a date range
+export interface TaxRuleSet {
+  id: string;
+  name: string;
+  regulation: string; // reference printed in reports
+  exchangeType: ExchangeType;
+  effectiveFrom: string | null; // YYYY-MM-DD (Jakarta), null = no start
+  effectiveTo: string | null; // YYYY-MM-DD (Jakarta), inclusive, null = still in effect
+  pphSellRate: number; // PPh final on sells
+  ppnBuyRate: number; // PPN on buys
+}
+
+// Indonesian crypto tax regimes. New regulations are added as new entries
+// with a start date; the previous entry gets an end date.
+export const TAX_RULE_SETS: TaxRuleSet[] = [
+  {
+    id: 'pre-pmk-68-2022-registered',
+    name: 'Sebelum PMK 68/2022',
+    regulation: 'Belum ada pajak final aset kripto sebelum 1 Mei 2022',
+    exchangeType: 'registered',
+    effectiveFrom: null,
+    effectiveTo: '2022-04-30',
+    pphSellRate: 0,
+    ppnBuyRate: 0,
+  },
+  {
+    id: 'pre-pmk-68-2022-unregistered',
+    name: 'Sebelum PMK 68/2022',
+    regulation: 'Belum ada pajak final aset kripto sebelum 1 Mei 2022',
+    exchangeType: 'unregistered',
+    effectiveFrom: null,
+    effectiveTo: '2022-04-30',
+    pphSellRate: 0,
+    ppnBuyRate: 0,
+  },
+  {
+    id: 'pmk-68-2022-registered',
+    name: 'PMK 68/2022 - Exchange Terdaftar Bappebti',
+    regulation: 'PMK Nomor 68/PMK.03/2022 Pasal 20 & 24',
+    exchangeType: 'registered',
+    effectiveFrom: '2022-05-01',
+    effectiveTo: '2025-07-31',
+    pphSellRate: 0.001,
+    ppnBuyRate: 0.0011,
+  },
+  {
+    id: 'pmk-68-2022-unregistered',
+    name: 'PMK 68/2022 - Exchange Tidak Terdaftar (DEX)',
+    regulation: 'PMK Nomor 68/PMK.03/2022 Pasal 20 & 24',
+    exchangeType: 'unregistered',
+    effectiveFrom: '2022-05-01',
+    effectiveTo: '2025-07-31',
+    pphSellRate: 0.002,
+    ppnBuyRate: 0.0022,
+  },
+  {
+    id: 'pmk-50-2025-registered',
+    name: 'PMK 50/2025 - PPMSE Dalam Negeri',
+    regulation: 'PMK Nomor 50 Tahun 2025 (penyerahan aset kripto tidak dipungut PPN)',
+    exchangeType: 'registered',
+    effectiveFrom: '2025-08-01',
+    effectiveTo: null,
+    pphSellRate: 0.0021,
+    ppnBuyRate: 0,
+  },
+  {
+    id: 'pmk-50-2025-unregistered',
+    name: 'PMK 50/2025 - PPMSE Luar Negeri / Penyetoran Sendiri (DEX)',
+    regulation: 'PMK Nomor 50 Tahun 2025 (penyerahan aset kripto tidak dipungut PPN)',
+    exchangeType: 'unregistered',
+    effectiveFrom: '2025-08-01',
+    effectiveTo: null,
+    pphSellRate: 0.01,
+    ppnBuyRate: 0,
+  },
+];
+
+// Get the rule set in effect on a transaction date
+export function getTaxRuleSet(date: Date, exchangeType: ExchangeType): TaxRuleSet {
+  const dateKey = toJakartaDateKey(date);
+
+  const ruleSet = TAX_RULE_SETS.find(
+    rule =>
+      rule.exchangeType === exchangeType &&
+      (rule.effectiveFrom === null || rule.effectiveFrom <= dateKey) &&
+      (rule.effectiveTo === null || rule.effectiveTo >= dateKey)
+  );
+
+  if (!ruleSet) {
+    throw new Error(`No tax rule set for ${exchangeType} exchanges on ${dateKey}`);
+  }
+
+  return ruleSet;
+}
+
+// Format a rate for display, e.g. 0.0022 -> "0.22%"
+export function formatTaxRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(4))}%`;
+}
+
+// Rates applied across several rule sets, e.g. "0.2%" or "0.2% / 1%"
+export function formatAppliedRates(
+  ruleSets: TaxRuleSet[],
+  rate: 'pphSellRate' | 'ppnBuyRate'
+): string {
+  const rates = [...new Set(ruleSets.map(rule => rule[rate]))];
+  return rates.map(formatTaxRate).join(' / ');
+}
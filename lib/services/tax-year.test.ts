@@ -0,0 +1,219 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { lotSnapshots, transactions, type Transaction } from '@/lib/db/schema';
+import { toJakartaDateKey } from '@/lib/utils';
+import { calculateTaxYear, walletTaxSubject } from './tax-year';
+
+const WALLET = '3tvFuVizovMvVmmwDME2ip5H3ufXdhuKpQmM4XWrXD6D';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const USD_IDR = 16000;
+
+type Row = Record<string, unknown>;
+type Predicate = (row: Row) => boolean;
+interface Order {
+  field: string;
+  direction: 1 | -1;
+}
+
+// Rows of each table, standing in for the database
+const tables = vi.hoisted(() => new Map<unknown, Array<Record<string, unknown>>>());
+
+// Conditions and orderings as plain functions over the rows of the fake tables
+vi.mock('drizzle-orm', async importOriginal => {
+  const orm = await importOriginal<typeof import('drizzle-orm')>();
+  const field = (column: import('drizzle-orm').Column) =>
+    Object.entries(orm.getTableColumns(column.table)).find(([, candidate]) => candidate === column)![0];
+  const compare = (test: (a: number, b: number) => boolean) =>
+    (column: import('drizzle-orm').Column, value: unknown): Predicate =>
+      row => test(Number(row[field(column)] as number | Date), Number(value as number | Date));
+
+  return {
+    ...orm,
+    eq: (column: import('drizzle-orm').Column, value: unknown): Predicate => row => row[field(column)] === value,
+    inArray: (column: import('drizzle-orm').Column, values: unknown[]): Predicate =>
+      row => values.includes(row[field(column)]),
+    lt: compare((a, b) => a < b),
+    lte: compare((a, b) => a <= b),
+    gte: compare((a, b) => a >= b),
+    and: (...conditions: Array<Predicate | undefined>): Predicate =>
+      row => conditions.every(condition => !condition || condition(row)),
+    asc: (column: import('drizzle-orm').Column): Order => ({ field: field(column), direction: 1 }),
+    desc: (column: import('drizzle-orm').Column): Order => ({ field: field(column), direction: -1 }),
+  };
+});
+
+vi.mock('@/lib/db', async () => {
+  const { getTableColumns } = await import('drizzle-orm');
+  const rowsOf = (table: unknown) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+
+  // A select, resolved when awaited
+  const select = (projection?: Record<string, import('drizzle-orm').Column>) => ({
+    from: (table: import('drizzle-orm').Table) => {
+      let condition: Predicate = () => true;
+      let orders: Order[] = [];
+      let limit = Infinity;
+      const run = () => {
+        const keys = Object.entries(getTableColumns(table));
+        return rowsOf(table)
+          .filter(condition)
+          .sort((a, b) => {
+            for (const { field, direction } of orders) {
+              const difference = Number(a[field]) - Number(b[field]);
+              if (difference !== 0) return difference * direction;
+            }
+            return 0;
+          })
+          .slice(0, limit)
+          .map(row => projection
+            ? Object.fromEntries(Object.entries(projection).map(([name, column]) =>
+              [name, row[keys.find(([, candidate]) => candidate === column)![0]]]))
+            : row);
+      };
+      const query = {
+        where: (where: Predicate) => ((condition = where), query),
+        orderBy: (...by: Order[]) => ((orders = by), query),
+        limit: (count: number) => ((limit = count), query),
+        then: (resolve: (rows: Row[]) => unknown, reject: (error: unknown) => unknown) =>
+          Promise.resolve().then(run).then(resolve, reject),
+      };
+      return query;
+    },
+  });
+
+  const db = {
+    select,
+    insert: (table: unknown) => ({
+      values: async (rows: Row[]) => {
+        rowsOf(table).push(...rows);
+      },
+    }),
+    delete: (table: unknown) => ({
+      where: async (condition: Predicate) => {
+        tables.set(table, rowsOf(table).filter(row => !condition(row)));
+      },
+    }),
+    transaction: async (run: (tx: unknown) => Promise<void>) => run(db),
+  };
+
+  return { ...(await import('@/lib/db/schema')), db };
+});
+
+vi.mock('./price', async importOriginal => ({
+  ...(await importOriginal<typeof import('./price')>()),
+  getHistoricalTokenPrices: vi.fn(async () => new Map()),
+}));
+
+vi.mock('./price-overrides', async importOriginal => ({
+  ...(await importOriginal<typeof import('./price-overrides')>()),
+  getPriceOverrides: vi.fn(async () => []),
+}));
+
+// One official rate for every date
+vi.mock('./fx-rate', () => ({
+  getUsdToIdrRates: vi.fn(async (dates: Date[]) => new Map(
+    dates.map(date => [toJakartaDateKey(date), { rate: 16000, source: 'kmk', date: toJakartaDateKey(date) }])
+  )),
+}));
+
+vi.mock('./resolutions', async importOriginal => ({
+  ...(await importOriginal<typeof import('./resolutions')>()),
+  getResolutions: vi.fn(async () => new Map()),
+}));
+
+vi.mock('./inbound-classifications', () => ({ getInboundClassifications: vi.fn(async () => new Map()) }));
+
+vi.mock('./spam-filter', () => ({ getSpamReasons: vi.fn(async () => new Map()) }));
+
+vi.mock('./wallet-groups', () => ({
+  getWalletGroup: vi.fn(async () => null),
+  getWalletGroupForWallet: vi.fn(async () => null),
+}));
+
+// A swap of `fromAmount` of one token for `toAmount` of another
+function swap(signature: string, date: string, from: [string, string], to: [string, string]): Transaction {
+  return {
+    id: signature,
+    walletAddress: WALLET,
+    signature,
+    timestamp: new Date(date),
+    type: 'swap',
+    fromToken: from[1],
+    fromAmount: from[0],
+    fromAmountRaw: null,
+    fromDecimals: null,
+    fromSymbol: null,
+    toToken: to[1],
+    toAmount: to[0],
+    toAmountRaw: null,
+    toDecimals: null,
+    toSymbol: null,
+    dex: null,
+    counterparty: null,
+    networkFeeLamports: null,
+    priorityFeeLamports: null,
+    platformFeeAmount: null,
+    platformFeeAmountRaw: null,
+    platformFeeDecimals: null,
+    platformFeeToken: null,
+    parserVersion: null,
+    receiptPriceUsd: null,
+    receiptPricedAt: null,
+    rawData: null,
+    createdAt: null,
+  };
+}
+
+// 100 BONK bought for $100 in 2024, sold for $250 in 2025
+const BUY = swap('buy', '2024-06-10T12:00:00Z', ['100', USDC_MINT], ['100', BONK_MINT]);
+const SELL = swap('sell', '2025-06-10T12:00:00Z', ['100', BONK_MINT], ['250', USDC_MINT]);
+
+function snapshotRows(year: number) {
+  return (tables.get(lotSnapshots) || []).filter(row => row.scope === WALLET && row.year === year);
+}
+
+beforeEach(() => {
+  tables.clear();
+  tables.set(transactions, [BUY, SELL]);
+});
+
+describe('calculateTaxYear', () => {
+  it('continues a year from the snapshot of the year before', async () => {
+    await calculateTaxYear(walletTaxSubject(WALLET), 2024);
+
+    expect(snapshotRows(2024)).toEqual([expect.objectContaining({
+      walletAddress: WALLET,
+      tokenAddress: BONK_MINT,
+      amount: '100',
+      costBasisIdr: String(100 * USD_IDR),
+    })]);
+
+    // The 2024 history is no longer read: its lots come from the snapshot
+    tables.set(transactions, [SELL]);
+    const summary = await calculateTaxYear(walletTaxSubject(WALLET), 2025);
+
+    expect(summary.openingLots).toEqual([expect.objectContaining({ tokenAddress: BONK_MINT, amount: 100 })]);
+    expect(summary.transactions).toEqual([expect.objectContaining({
+      signature: 'sell',
+      costBasisIdr: 100 * USD_IDR,
+      gainLossIdr: 150 * USD_IDR,
+      unmatchedAmount: 0,
+    })]);
+    expect(summary.unmatchedDisposals).toEqual([]);
+  });
+
+  it('replays earlier years without a snapshot and keeps their closing lots', async () => {
+    const summary = await calculateTaxYear(walletTaxSubject(WALLET), 2025);
+
+    expect(summary.transactions).toEqual([expect.objectContaining({
+      signature: 'sell',
+      costBasisIdr: 100 * USD_IDR,
+      gainLossIdr: 150 * USD_IDR,
+    })]);
+    expect(snapshotRows(2024)).toHaveLength(1);
+    // Nothing is left open at the end of 2025
+    expect(snapshotRows(2025)).toEqual([]);
+  });
+});
@@ -0,0 +1,309 @@
+import {
+  db,
+  transactions,
+  transactionLegs,
+  lotSnapshots,
+  type NewLotSnapshot,
+  type Transaction,
+  type TransactionLeg,
+} from '@/lib/db';
+import { and, asc, desc, eq, gte, inArray, lt, lte } from 'drizzle-orm';
+import { Decimal } from '@/lib/decimal';
+import {
+  calculateTaxes,
+  LIQUIDITY_TYPES,
+  DEFAULT_INBOUND_COST_BASIS,
+  DEFAULT_VALUATION_MODE,
+  type CalculateTaxesOptions,
+  type InboundCostBasis,
+  type TaxSummary,
+  type ValuationMode,
+} from './tax-calculator';
+import {
+  DEFAULT_COST_BASIS_METHOD,
+  inventoryKey,
+  type CostBasisMethod,
+  type LotInventory,
+} from './cost-basis';
+import { getResolutions } from './resolutions';
+import { getInboundClassifications } from './inbound-classifications';
+import { getSpamReasons } from './spam-filter';
+import { getWalletGroup, getWalletGroupForWallet, type WalletGroupWithMembers } from './wallet-groups';
+
+// Whose taxes are calculated: a single wallet, or every wallet of a group
+export interface TaxSubject {
+  scope: string; // wallet address, 'group:<id>' or 'view:<address>'
+  walletAddresses: string[];
+  // Calculated from on-chain data only, without the owner's manual prices
+  // and cost basis, for someone who does not own the wallet
+  viewOnly?: boolean;
+}
+
+export function walletTaxSubject(walletAddress: string): TaxSubject {
+  return { scope: walletAddress, walletAddresses: [walletAddress] };
+}
+
+export function viewOnlyTaxSubject(walletAddress: string): TaxSubject {
+  return { scope: `view:${walletAddress}`, walletAddresses: [walletAddress], viewOnly: true };
+}
+
+export function groupTaxSubject(group: WalletGroupWithMembers): TaxSubject {
+  return {
+    scope: `group:${group.id}`,
+    walletAddresses: group.members.map(member => member.walletAddress),
+  };
+}
+
+// The subject for a wallet, or for its group when `groupId` is given. Returns
+// null when the wallet is not a member of that group.
+export async function getTaxSubject(walletAddress: string, groupId?: string): Promise<TaxSubject | null> {
+  if (!groupId) {
+    return walletTaxSubject(walletAddress);
+  }
+
+  const group = await getWalletGroup(groupId);
+  if (!group || !group.members.some(member => member.walletAddress === walletAddress)) {
+    return null;
+  }
+
+  return groupTaxSubject(group);
+}
+
+interface SnapshotKey {
+  scope: string;
+  method: CostBasisMethod;
+  valuation: ValuationMode;
+  inboundCostBasis: InboundCostBasis;
+}
+
+function snapshotConditions({ scope, method, valuation, inboundCostBasis }: SnapshotKey) {
+  return [
+    eq(lotSnapshots.scope, scope),
+    eq(lotSnapshots.method, method),
+    eq(lotSnapshots.valuation, valuation),
+    eq(lotSnapshots.inboundCostBasis, inboundCostBasis),
+  ];
+}
+
+// Open loans are snapshotted like lots, under their own scope
+function loansScope(scope: string): string {
+  return `${scope}:loans`;
+}
+
+// Load the most recent year-end snapshot taken before `year`, with the loans
+// open at the same time
+async function loadLatestSnapshot(
+  key: SnapshotKey,
+  year: number
+): Promise<{ year: number; inventory: LotInventory; loans: LotInventory } | null> {
+  const [latest] = await db
+    .select({ year: lotSnapshots.year })
+    .from(lotSnapshots)
+    .where(and(...snapshotConditions(key), lt(lotSnapshots.year, year)))
+    .orderBy(desc(lotSnapshots.year))
+    .limit(1);
+
+  if (!latest) {
+    return null;
+  }
+
+  return {
+    year: latest.year,
+    inventory: await loadSnapshotLots(key, latest.year),
+    loans: await loadSnapshotLots({ ...key, scope: loansScope(key.scope) }, latest.year),
+  };
+}
+
+async function loadSnapshotLots(key: SnapshotKey, year: number): Promise<LotInventory> {
+  const rows = await db
+    .select()
+    .from(lotSnapshots)
+    .where(and(...snapshotConditions(key), eq(lotSnapshots.year, year)))
+    .orderBy(asc(lotSnapshots.acquiredAt));
+
+  // Lots are restored as stored, keeping their acquisition order
+  const inventory: LotInventory = new Map();
+  for (const row of rows) {
+    const lotKey = inventoryKey(row.walletAddress, row.tokenAddress);
+    if (!inventory.has(lotKey)) {
+      inventory.set(lotKey, []);
+    }
+    inventory.get(lotKey)!.push({
+      walletAddress: row.walletAddress,
+      tokenAddress: row.tokenAddress,
+      amount: new Decimal(row.amount),
+      costBasisUsd: new Decimal(row.costBasisUsd),
+      costBasisIdr: new Decimal(row.costBasisIdr),
+      timestamp: row.acquiredAt,
+    });
+  }
+
+  return inventory;
+}
+
+// Store the lots open at the end of `year`, replacing any previous snapshot.
+// A year that ends with no open lots stores nothing and is replayed next time.
+async function saveSnapshot(key: SnapshotKey, year: number, inventory: LotInventory) {
+  const rows: NewLotSnapshot[] = [...inventory.values()]
+    .flat()
+    .filter(lot => lot.amount.gt(0))
+    .map(lot => ({
+      scope: key.scope,
+      walletAddress: lot.walletAddress,
+      year,
+      method: key.method,
+      valuation: key.valuation,
+      inboundCostBasis: key.inboundCostBasis,
+      tokenAddress: lot.tokenAddress,
+      amount: lot.amount.toFixed(),
+      costBasisUsd: lot.costBasisUsd.toFixed(),
+      costBasisIdr: lot.costBasisIdr.toFixed(),
+      acquiredAt: lot.timestamp,
+    }));
+
+  await db.transaction(async tx => {
+    await tx
+      .delete(lotSnapshots)
+      .where(and(...snapshotConditions(key), eq(lotSnapshots.year, year)));
+
+    if (rows.length > 0) {
+      await tx.insert(lotSnapshots).values(rows);
+    }
+  });
+}
+
+// Drop snapshots that changes to a wallet's data may have made stale: the
+// wallet's own (also view-only), and those of its group
+export async function invalidateLotSnapshots(walletAddress: string, fromYear: number) {
+  const group = await getWalletGroupForWallet(walletAddress);
+  const scopes = [walletAddress, viewOnlyTaxSubject(walletAddress).scope];
+  if (group) {
+    scopes.push(groupTaxSubject(group).scope);
+  }
+
+  await db
+    .delete(lotSnapshots)
+    .where(
+      and(
+        inArray(lotSnapshots.scope, [...scopes, ...scopes.map(loansScope)]),
+        gte(lotSnapshots.year, fromYear)
+      )
+    );
+}
+
+// Drop every snapshot of a group, e.g. after its membership changed
+export async function invalidateGroupSnapshots(groupId: string) {
+  const scope = `group:${groupId}`;
+  await db.delete(lotSnapshots).where(inArray(lotSnapshots.scope, [scope, loansScope(scope)]));
+}
+
+// Legs of the liquidity transactions among `txs`, by transaction id: a pool
+// deposit or withdrawal can move more tokens than its from/to side holds
+async function loadLiquidityLegs(txs: Transaction[]): Promise<Map<string, TransactionLeg[]>> {
+  const ids = txs.filter(tx => LIQUIDITY_TYPES.has(tx.type || '')).map(tx => tx.id);
+  const legs = new Map<string, TransactionLeg[]>();
+  if (ids.length === 0) {
+    return legs;
+  }
+
+  const rows = await db.select().from(transactionLegs).where(inArray(transactionLegs.transactionId, ids));
+  for (const row of rows) {
+    legs.set(row.transactionId, [...(legs.get(row.transactionId) || []), row]);
+  }
+  return legs;
+}
+
+// Calculate taxes for one year, starting from the lots still open at the end
+// of the previous year. Opening lots come from the latest snapshot, and any
+// transactions after it (or the whole history, without a snapshot) are
+// replayed first. For a group, transfers between its wallets move lots.
+export async function calculateTaxYear(
+  subject: TaxSubject,
+  year: number,
+  options: Omit<
+    CalculateTaxesOptions,
+    | 'inventory'
+    | 'loans'
+    | 'resolutions'
+    | 'classifications'
+    | 'hidden'
+    | 'groupWallets'
+    | 'publicDataOnly'
+    | 'legs'
+  > = {}
+): Promise<TaxSummary> {
+  const { walletAddresses } = subject;
+  const key: SnapshotKey = {
+    scope: subject.scope,
+    method: options.method || DEFAULT_COST_BASIS_METHOD,
+    valuation: options.valuation || DEFAULT_VALUATION_MODE,
+    inboundCostBasis: options.inboundCostBasis || DEFAULT_INBOUND_COST_BASIS,
+  };
+  const calculateOptions = {
+    ...options,
+    method: key.method,
+    valuation: key.valuation,
+    inboundCostBasis: key.inboundCostBasis,
+    groupWallets: walletAddresses,
+    resolutions: subject.viewOnly ? undefined : await getResolutions(walletAddresses),
+    classifications: subject.viewOnly ? undefined : await getInboundClassifications(walletAddresses),
+    publicDataOnly: !!subject.viewOnly,
+  };
+
+  const startDate = new Date(year, 0, 1);
+  const endDate = new Date(year, 11, 31, 23, 59, 59);
+
+  const snapshot = await loadLatestSnapshot(key, year);
+  const inventory: LotInventory = snapshot?.inventory || new Map();
+  const loans: LotInventory = snapshot?.loans || new Map();
+  const loansKey: SnapshotKey = { ...key, scope: loansScope(key.scope) };
+
+  // Replay everything between the snapshot and the start of the year
+  const replayFrom = snapshot ? new Date(snapshot.year + 1, 0, 1) : null;
+  const earlierTxs = await db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        inArray(transactions.walletAddress, walletAddresses),
+        replayFrom ? gte(transactions.timestamp, replayFrom) : undefined,
+        lt(transactions.timestamp, startDate)
+      )
+    );
+
+  if (earlierTxs.length > 0) {
+    await calculateTaxes(earlierTxs, {
+      ...calculateOptions,
+      inventory,
+      loans,
+      hidden: await getSpamReasons(earlierTxs, { includeChoices: !subject.viewOnly }),
+      legs: await loadLiquidityLegs(earlierTxs),
+    });
+    await saveSnapshot(key, year - 1, inventory);
+    await saveSnapshot(loansKey, year - 1, loans);
+  }
+
+  const txs = await db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        inArray(transactions.walletAddress, walletAddresses),
+        gte(transactions.timestamp, startDate),
+        lte(transactions.timestamp, endDate)
+      )
+    )
+    .orderBy(desc(transactions.timestamp));
+
+  const taxSummary = await calculateTaxes(txs, {
+    ...calculateOptions,
+    inventory,
+    loans,
+    hidden: await getSpamReasons(txs, { includeChoices: !subject.viewOnly }),
+    legs: await loadLiquidityLegs(txs),
+  });
+  await saveSnapshot(key, year, inventory);
+  await saveSnapshot(loansKey, year, loans);
+
+  return taxSummary;
+}
@@ -0,0 +1,222 @@
+import { db, tokenMetadata, type NewTokenMetadata, type TokenMetadata } from '@/lib/db';
+import { inArray, sql } from 'drizzle-orm';
+import { clusterApiUrl, Connection, PublicKey } from '@solana/web3.js';
+
+export const TOKEN_METADATA_SOURCES = ['jupiter', 'metaplex', 'file'] as const;
+export type TokenMetadataSource = (typeof TOKEN_METADATA_SOURCES)[number];
+
+const JUPITER_TOKEN_SEARCH_URL = 'https://lite-api.jup.ag/tokens/v2/search';
+const METAPLEX_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+// Mints per Jupiter search and per RPC account lookup
+const LOOKUP_BATCH_SIZE = 100;
+
+// Entry of a Jupiter token list: v1 (`address`, `logoURI`, `tags`) or v2
+// (`id`, `icon`, `isVerified`)
+export interface JupiterToken {
+  address?: string;
+  id?: string;
+  symbol?: string | null;
+  name?: string | null;
+  decimals?: number | null;
+  logoURI?: string | null;
+  icon?: string | null;
+  tags?: string[] | null;
+  isVerified?: boolean | null;
+}
+
+function fromJupiterToken(token: JupiterToken, source: TokenMetadataSource): NewTokenMetadata | null {
+  const mint = token.address || token.id;
+  if (!mint || mint.length > 44) {
+    return null;
+  }
+
+  return {
+    mint,
+    symbol: token.symbol?.slice(0, 20) || null,
+    name: token.name?.slice(0, 100) || null,
+    decimals: token.decimals ?? null,
+    logoUri: token.logoURI || token.icon || null,
+    verified: token.isVerified ?? (token.tags || []).some(tag => tag === 'verified' || tag === 'strict'),
+    source,
+  };
+}
+
+// Look mints up in the Jupiter token API
+async function fetchJupiterTokens(mints: string[]): Promise<NewTokenMetadata[]> {
+  const results: NewTokenMetadata[] = [];
+
+  for (let i = 0; i < mints.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = mints.slice(i, i + LOOKUP_BATCH_SIZE);
+    try {
+      const response = await fetch(`${JUPITER_TOKEN_SEARCH_URL}?query=${batch.join(',')}`);
+      if (!response.ok) {
+        console.log(`Jupiter token API error: ${response.status}`);
+        continue;
+      }
+
+      const tokens = (await response.json()) as JupiterToken[];
+      for (const token of tokens) {
+        const metadata = fromJupiterToken(token, 'jupiter');
+        if (metadata && batch.includes(metadata.mint)) {
+          results.push(metadata);
+        }
+      }
+    } catch (error) {
+      console.error('Jupiter token fetch error:', error);
+    }
+  }
+
+  return results;
+}
+
+// Borsh string: u32 length, then the bytes, padded with NULs on-chain
+function readBorshString(data: Buffer, offset: number): [string, number] {
+  const length = data.readUInt32LE(offset);
+  const end = offset + 4 + length;
+  return [data.subarray(offset + 4, end).toString('utf8').replace(/\0/g, '').trim(), end];
+}
+
+function metadataAddress(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), METAPLEX_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    METAPLEX_PROGRAM_ID
+  )[0];
+}
+
+// Read name and symbol from Metaplex metadata accounts, and decimals from
+// the mint accounts. The logo lives in the off-chain JSON and is left out.
+async function fetchMetaplexTokens(mints: string[]): Promise<NewTokenMetadata[]> {
+  const connection = new Connection(process.env.SOLANA_RPC_URL || clusterApiUrl('mainnet-beta'));
+  const results: NewTokenMetadata[] = [];
+
+  for (let i = 0; i < mints.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = mints.slice(i, i + LOOKUP_BATCH_SIZE);
+    try {
+      const keys = batch.map(mint => new PublicKey(mint));
+      const [mintAccounts, metadataAccounts] = await Promise.all([
+        connection.getMultipleParsedAccounts(keys),
+        connection.getMultipleAccountsInfo(keys.map(metadataAddress)),
+      ]);
+
+      batch.forEach((mint, index) => {
+        const mintData = mintAccounts.value[index]?.data;
+        const decimals = mintData && 'parsed' in mintData ? mintData.parsed?.info?.decimals ?? null : null;
+        const metadata = metadataAccounts[index]?.data;
+        if (decimals === null && !metadata) return;
+
+        let name = '';
+        let symbol = '';
+        if (metadata) {
+          // Skip the key byte, update authority and mint
+          let offset = 1 + 32 + 32;
+          [name, offset] = readBorshString(metadata, offset);
+          [symbol] = readBorshString(metadata, offset);
+        }
+
+        results.push({
+          mint,
+          symbol: symbol.slice(0, 20) || null,
+          name: name.slice(0, 100) || null,
+          decimals,
+          logoUri: null,
+          verified: false,
+          source: 'metaplex',
+        });
+      });
+    } catch (error) {
+      console.error('Metaplex metadata fetch error:', error);
+    }
+  }
+
+  return results;
+}
+
+// Create or replace registry entries
+async function saveTokenMetadata(rows: NewTokenMetadata[]) {
+  // One row per mint: a single upsert cannot touch the same row twice
+  const unique = [...new Map(rows.map(row => [row.mint, row])).values()];
+  if (unique.length === 0) {
+    return;
+  }
+
+  await db
+    .insert(tokenMetadata)
+    .values(unique)
+    .onConflictDoUpdate({
+      target: tokenMetadata.mint,
+      set: {
+        symbol: sql`excluded.symbol`,
+        name: sql`excluded.name`,
+        decimals: sql`excluded.decimals`,
+        logoUri: sql`excluded.logo_uri`,
+        verified: sql`excluded.verified`,
+        source: sql`excluded.source`,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+// Registry entries for the mints that have one
+export async function getTokenMetadata(mints: string[]): Promise<Map<string, TokenMetadata>> {
+  const unique = [...new Set(mints)];
+  if (unique.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select()
+    .from(tokenMetadata)
+    .where(inArray(tokenMetadata.mint, unique));
+
+  return new Map(rows.map(row => [row.mint, row]));
+}
+
+// Registry entries for the mints, looking up unknown ones in the Jupiter token
+// API, then on-chain, and storing what was found
+export async function resolveTokenMetadata(mints: string[]): Promise<Map<string, TokenMetadata>> {
+  const known = await getTokenMetadata(mints);
+  const missing = [...new Set(mints)].filter(mint => !known.has(mint));
+  if (missing.length === 0) {
+    return known;
+  }
+
+  const fromJupiter = await fetchJupiterTokens(missing);
+  const found = new Set(fromJupiter.map(token => token.mint));
+  const fromChain = await fetchMetaplexTokens(missing.filter(mint => !found.has(mint)));
+
+  try {
+    await saveTokenMetadata([...fromJupiter, ...fromChain]);
+  } catch (error) {
+    console.error('Error saving token metadata:', error);
+  }
+
+  return getTokenMetadata(mints);
+}
+
+// Symbols by mint, as the parser takes them
+export function tokenSymbols(metadata: Map<string, TokenMetadata>): Map<string, string> {
+  return new Map(
+    [...metadata.values()]
+      .filter(token => !!token.symbol)
+      .map(token => [token.mint, token.symbol!])
+  );
+}
+
+// Import a Jupiter token list (v1 or v2 JSON array), e.g. a saved copy for
+// offline use. Entries replace what the registry has for their mints.
+export async function importTokenList(tokens: unknown): Promise<number> {
+  if (!Array.isArray(tokens)) {
+    throw new Error('Token list must be a JSON array');
+  }
+
+  const rows = (tokens as JupiterToken[])
+    .map(token => fromJupiterToken(token, 'file'))
+    .filter((row): row is NewTokenMetadata => !!row);
+
+  for (let i = 0; i < rows.length; i += 500) {
+    await saveTokenMetadata(rows.slice(i, i + 500));
+  }
+
+  return rows.length;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import fixturePages from '@/fixtures/helius/3tvFuVizovMvVmmwDME2ip5H3ufXdhuKpQmM4XWrXD6D.json';
+import { parseHeliusTransaction, SOL_MINT, type HeliusTransaction } from './transaction-parser';
+
+const WALLET = '3tvFuVizovMvVmmwDME2ip5H3ufXdhuKpQmM4XWrXD6D';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const JUP_MINT = 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN';
+
+const fixtureTransactions = (fixturePages as HeliusTransaction[][]).flat();
+
+function parseFixture(signaturePrefix: string) {
+  const tx = fixtureTransactions.find(candidate => candidate.signature.startsWith(signaturePrefix));
+  if (!tx) {
+    throw new Error(`No fixture transaction ${signaturePrefix}`);
+  }
+  return parseHeliusTransaction(tx, WALLET);
+}
+
+// Legs as comparable tuples, order-independent
+function legsOf(parsed: ReturnType<typeof parseHeliusTransaction>) {
+  return parsed!.legs
+    .map(leg => [leg.direction, leg.mint, leg.amount, leg.amountRaw, leg.decimals])
+    .sort((a, b) => `${a[0]}${a[1]}`.localeCompare(`${b[0]}${b[1]}`));
+}
+
+describe('parseHeliusTransaction', () => {
+  it('parses an Orca swap', () => {
+    const parsed = parseFixture('MWHqsDhm');
+
+    expect(parsed?.transaction).toMatchObject({
+      walletAddress: WALLET,
+      type: 'swap',
+      dex: 'orca',
+      fromToken: USDC_MINT,
+      fromAmount: '50',
+      toToken: JUP_MINT,
+      toAmount: '60.5',
+      timestamp: new Date('2025-03-10T12:00:00Z'),
+    });
+    expect(legsOf(parsed)).toEqual([
+      ['in', JUP_MINT, '60.5', '60500000', 6],
+      ['out', USDC_MINT, '50', '50000000', 6],
+    ]);
+  });
+
+  it('parses a Raydium swap with raw amounts', () => {
+    const parsed = parseFixture('mxaRwdyG');
+
+    expect(parsed?.transaction).toMatchObject({
+      type: 'swap',
+      dex: 'raydium',
+      fromToken: BONK_MINT,
+      fromAmount: '1000000',
+      fromAmountRaw: '100000000000',
+      fromDecimals: 5,
+      toToken: USDC_MINT,
+      toAmount: '25.12',
+    });
+    expect(legsOf(parsed)).toEqual([
+      ['in', USDC_MINT, '25.12', '25120000', 6],
+      ['out', BONK_MINT, '1000000', '100000000000', 5],
+    ]);
+  });
+
+  it('parses a multi-hop Jupiter swap of wrapped SOL with route dust and a platform fee', () => {
+    const parsed = parseFixture('T1N7GTM6');
+
+    expect(parsed?.transaction).toMatchObject({
+      type: 'swap',
+      dex: 'jupiter',
+      fromToken: SOL_MINT,
+      fromAmount: '0.5',
+      toToken: BONK_MINT,
+      toAmount: '2500000',
+      platformFeeAmount: '5000',
+      platformFeeToken: BONK_MINT,
+    });
+    // USDC left over from the route is a leg of its own, not the swap's output
+    expect(legsOf(parsed)).toEqual([
+      ['in', BONK_MINT, '2500000', '250000000000', 5],
+      ['in', USDC_MINT, '0.000312', '312', 6],
+      ['out', SOL_MINT, '0.5', '500000000', 9],
+    ]);
+  });
+
+  it('takes SOL as the main leg over a larger amount of another mint', () => {
+    const raydium = fixtureTransactions.find(tx => tx.signature.startsWith('mxaRwdyG'))!;
+    const withSol: HeliusTransaction = {
+      ...raydium,
+      events: {
+        swap: { ...raydium.events.swap!, nativeInput: { account: WALLET, amount: '5000000000' } },
+      },
+    };
+    const parsed = parseHeliusTransaction(withSol, WALLET);
+
+    // 1,000,000 BONK is the larger number, not the larger value
+    expect(parsed?.transaction).toMatchObject({ fromToken: SOL_MINT, fromAmount: '5' });
+    expect(legsOf(parsed)).toContainEqual(['out', BONK_MINT, '1000000', '100000000000', 5]);
+  });
+
+  it('parses a Jupiter swap into SOL', () => {
+    const parsed = parseFixture('6Rm4Sjks');
+
+    expect(parsed?.transaction).toMatchObject({
+      type: 'swap',
+      dex: 'jupiter',
+      fromToken: USDC_MINT,
+      fromAmount: '100',
+      toToken: SOL_MINT,
+      toAmount: '0.6',
+      timestamp: new Date('2024-11-05T12:00:00Z'),
+    });
+  });
+
+  it('parses native SOL received as transfer_in', () => {
+    const parsed = parseFixture('YAZiRyjL');
+
+    expect(parsed?.transaction).toMatchObject({
+      type: 'transfer_in',
+      fromToken: null,
+      toToken: SOL_MINT,
+      toAmount: '2',
+      counterparty: '7wPchhzZHchtqdsZqSSPocgUeLRxy4anBPHQon5Wwino',
+    });
+    expect(legsOf(parsed)).toEqual([['in', SOL_MINT, '2', '2000000000', 9]]);
+  });
+
+  it('parses native SOL sent as transfer_out', () => {
+    const parsed = parseFixture('MoGcWwkv');
+
+    expect(parsed?.transaction).toMatchObject({
+      type: 'transfer_out',
+      fromToken: SOL_MINT,
+      fromAmount: '0.25',
+      toToken: null,
+      counterparty: 'Ji6fJHhuVJLaqoWfyuurJ7Ta6ZfUDNcNZuVjFDaDjJd1',
+      timestamp: new Date('2024-12-30T12:00:00Z'),
+    });
+    expect(legsOf(parsed)).toEqual([['out', SOL_MINT, '0.25', '250000000', 9]]);
+  });
+
+  it('skips an NFT mint that moves none of the wallet\'s tokens', () => {
+    expect(parseFixture('fd85u2Zr')).toBeNull();
+  });
+});
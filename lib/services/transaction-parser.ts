@@ -0,0 +1,834 @@
+import type { NewTransaction } from '@/lib/db/schema';
+import { Decimal, formatRawAmount } from '@/lib/decimal';
+import { LIQUID_STAKING_TOKENS, stakingProtocolOf } from './staking';
+import { lpProtocolOf, type ParsedLpPosition } from './liquidity';
+import { airdropDistributorOf } from './airdrops';
+import { findLendingInstruction } from './lending';
+
+// Version of the parsing rules, stored on each row. Bump it whenever parsing
+// output changes; rows parsed before versions were recorded have none.
+export const PARSER_VERSION = 9;
+
+// Helius API types
+export interface HeliusTransaction {
+  signature: string;
+  timestamp: number;
+  type: string;
+  source: string;
+  fee: number; // lamports, base and priority fee
+  feePayer: string;
+  tokenTransfers: Array<{
+    fromTokenAccount: string;
+    toTokenAccount: string;
+    fromUserAccount: string;
+    toUserAccount: string;
+    tokenAmount: number;
+    mint: string;
+    tokenStandard: string;
+  }>;
+  nativeTransfers: Array<{
+    fromUserAccount: string;
+    toUserAccount: string;
+    amount: number;
+  }>;
+  // Programs called, to recognize staking, liquidity pools and lending.
+  // Data is base58.
+  instructions?: Array<{
+    programId: string;
+    accounts?: string[];
+    data?: string;
+    innerInstructions?: Array<{ programId: string; accounts?: string[]; data?: string }>;
+  }>;
+  // Balance changes per account; token changes carry exact raw amounts
+  accountData?: Array<{
+    account: string;
+    nativeBalanceChange: number;
+    tokenBalanceChanges: Array<{
+      userAccount: string;
+      tokenAccount: string;
+      mint: string;
+      rawTokenAmount: {
+        tokenAmount: string; // signed
+        decimals: number;
+      };
+    }>;
+  }>;
+  events: {
+    swap?: {
+      nativeInput?: {
+        account: string;
+        amount: string;
+      };
+      nativeOutput?: {
+        account: string;
+        amount: string;
+      };
+      tokenInputs: Array<{
+        userAccount: string;
+        tokenAccount: string;
+        mint: string;
+        rawTokenAmount: {
+          tokenAmount: string;
+          decimals: number;
+        };
+      }>;
+      tokenOutputs: Array<{
+        userAccount: string;
+        tokenAccount: string;
+        mint: string;
+        rawTokenAmount: {
+          tokenAmount: string;
+          decimals: number;
+        };
+      }>;
+      nativeFees?: Array<{
+        account: string;
+        amount: string;
+      }>;
+      tokenFees?: Array<{
+        userAccount: string;
+        tokenAccount: string;
+        mint: string;
+        rawTokenAmount: {
+          tokenAmount: string;
+          decimals: number;
+        };
+      }>;
+      innerSwaps: Array<{
+        tokenInputs: Array<{ mint: string }>;
+        tokenOutputs: Array<{ mint: string }>;
+        programInfo: {
+          source: string;
+          account: string;
+          programName: string;
+          instructionName: string;
+        };
+      }>;
+    };
+  };
+}
+
+// Native SOL and wrapped SOL share the mint address
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// SOL, USDC and USDT: the legs whose size says the most about a swap's value
+const QUOTE_MINTS = new Set([
+  SOL_MINT,
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+]);
+
+// Symbols of well-known mints, used when the token registry has none
+const TOKEN_SYMBOLS: Record<string, string> = {
+  [SOL_MINT]: 'SOL',
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': 'USDC',
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB': 'USDT',
+};
+
+// Symbols from the token registry, by mint
+export type TokenSymbols = ReadonlyMap<string, string>;
+
+// Helper to get token symbol
+export function getTokenSymbol(mint: string, symbols?: TokenSymbols): string {
+  return symbols?.get(mint) || TOKEN_SYMBOLS[mint] || LIQUID_STAKING_TOKENS[mint]?.symbol ||
+    mint.slice(0, 4) + '...' + mint.slice(-4);
+}
+
+// Mints a transaction moves, to look up their symbols before parsing
+export function transactionMints(tx: HeliusTransaction): string[] {
+  const swap = tx.events?.swap;
+  return [...new Set([
+    ...(tx.tokenTransfers || []).map(transfer => transfer.mint),
+    ...(swap?.tokenInputs || []).map(input => input.mint),
+    ...(swap?.tokenOutputs || []).map(output => output.mint),
+    ...(swap?.tokenFees || []).map(fee => fee.mint),
+  ])].filter(mint => !!mint);
+}
+
+const SOL_DECIMALS = 9;
+const ZERO_RAW = BigInt(0);
+
+// Integer amount in the token's base units (lamports for SOL)
+interface RawAmount {
+  raw: bigint;
+  decimals: number;
+}
+
+// Amount columns of a raw amount: the exact decimal amount and the raw
+// integer it came from
+function amountFields({ raw, decimals }: RawAmount) {
+  return { amount: formatRawAmount(raw, decimals), amountRaw: raw.toString(), decimals };
+}
+
+function absRaw(value: bigint): bigint {
+  return value < ZERO_RAW ? -value : value;
+}
+
+function signOf(value: bigint): number {
+  return value > ZERO_RAW ? 1 : value < ZERO_RAW ? -1 : 0;
+}
+
+// Net movement of one mint in or out of the wallet. Raw amount and decimals
+// are null when Helius only reported a float amount.
+export interface ParsedLeg {
+  direction: 'in' | 'out';
+  mint: string;
+  symbol: string;
+  amount: string;
+  amountRaw: string | null;
+  decimals: number | null;
+}
+
+// Net change of the wallet's balance per mint, from the swap event
+function netSwapDeltas(tx: HeliusTransaction, walletAddress: string): Map<string, RawAmount> {
+  const swap = tx.events.swap!;
+  const deltas = new Map<string, RawAmount>();
+  const addDelta = (mint: string, raw: bigint, decimals: number) => {
+    deltas.set(mint, { raw: (deltas.get(mint)?.raw || ZERO_RAW) + raw, decimals });
+  };
+
+  // Wrapped SOL goes through a temporary token account that is closed back
+  // into native SOL, so the same movement can show up as a wSOL leg and a
+  // native leg. Those are reconciled below instead of being added up.
+  let wrappedSol = ZERO_RAW;
+  for (const input of swap.tokenInputs || []) {
+    if (input.userAccount !== walletAddress) continue;
+    const raw = BigInt(input.rawTokenAmount.tokenAmount);
+    if (input.mint === SOL_MINT) wrappedSol -= raw;
+    else addDelta(input.mint, -raw, input.rawTokenAmount.decimals);
+  }
+  for (const output of swap.tokenOutputs || []) {
+    if (output.userAccount !== walletAddress) continue;
+    const raw = BigInt(output.rawTokenAmount.tokenAmount);
+    if (output.mint === SOL_MINT) wrappedSol += raw;
+    else addDelta(output.mint, raw, output.rawTokenAmount.decimals);
+  }
+
+  let nativeSol = ZERO_RAW;
+  if (swap.nativeInput && swap.nativeInput.account === walletAddress) {
+    nativeSol -= BigInt(swap.nativeInput.amount);
+  }
+  if (swap.nativeOutput && swap.nativeOutput.account === walletAddress) {
+    nativeSol += BigInt(swap.nativeOutput.amount);
+  }
+
+  // Same direction: one movement reported twice. Opposite directions: e.g.
+  // native SOL in and a wSOL refund out, which do net out.
+  const sameDirection = signOf(wrappedSol) === signOf(nativeSol);
+  const largest = absRaw(wrappedSol) > absRaw(nativeSol) ? absRaw(wrappedSol) : absRaw(nativeSol);
+  addDelta(SOL_MINT, sameDirection
+    ? (nativeSol < ZERO_RAW ? -largest : largest)
+    : wrappedSol + nativeSol, SOL_DECIMALS);
+
+  return deltas;
+}
+
+// Mints a route passes through: received from one hop and spent in the next.
+// Amounts of these left in the wallet are dust, not what was swapped for.
+function intermediateMints(tx: HeliusTransaction): Set<string> {
+  const hops = tx.events.swap?.innerSwaps || [];
+  const received = new Set(hops.flatMap(hop => (hop.tokenOutputs || []).map(t => t.mint)));
+  const spent = new Set(hops.flatMap(hop => (hop.tokenInputs || []).map(t => t.mint)));
+  return new Set([...received].filter(mint => spent.has(mint)));
+}
+
+// Helper to parse swap transaction into its net legs. The main legs (each
+// way, a non-intermediate mint: SOL, USDC or USDT first, since amounts of
+// different mints are not comparable, then the largest amount) become the
+// from/to side of the row.
+function parseSwapTransaction(tx: HeliusTransaction, walletAddress: string, symbols?: TokenSymbols) {
+  const swap = tx.events?.swap;
+  if (!swap) return null;
+
+  const legs: ParsedLeg[] = [];
+  for (const [mint, delta] of netSwapDeltas(tx, walletAddress)) {
+    if (delta.raw === ZERO_RAW) continue;
+    legs.push({
+      direction: delta.raw > ZERO_RAW ? 'in' : 'out',
+      mint,
+      symbol: getTokenSymbol(mint, symbols),
+      ...amountFields({ raw: absRaw(delta.raw), decimals: delta.decimals }),
+    });
+  }
+
+  const intermediate = intermediateMints(tx);
+  const mainLeg = (direction: ParsedLeg['direction']) => {
+    const candidates = legs.filter(leg => leg.direction === direction);
+    const preferred = candidates.filter(leg => !intermediate.has(leg.mint));
+    return (preferred.length > 0 ? preferred : candidates)
+      .sort((a, b) =>
+        Number(QUOTE_MINTS.has(b.mint)) - Number(QUOTE_MINTS.has(a.mint)) ||
+        new Decimal(b.amount).comparedTo(new Decimal(a.amount))
+      )[0];
+  };
+  const from = mainLeg('out');
+  const to = mainLeg('in');
+
+  // Determine DEX from inner swaps
+  let dex = 'unknown';
+  if (swap.innerSwaps && swap.innerSwaps.length > 0) {
+    const programName = swap.innerSwaps[0].programInfo?.programName?.toLowerCase() || '';
+    if (programName.includes('jupiter')) dex = 'jupiter';
+    else if (programName.includes('raydium')) dex = 'raydium';
+    else if (programName.includes('orca')) dex = 'orca';
+    else dex = programName || tx.source?.toLowerCase() || 'unknown';
+  }
+
+  return {
+    fromToken: from?.mint || '',
+    fromAmount: from?.amount || '0',
+    fromAmountRaw: from?.amountRaw ?? null,
+    fromDecimals: from?.decimals ?? null,
+    fromSymbol: from?.symbol || '',
+    toToken: to?.mint || '',
+    toAmount: to?.amount || '0',
+    toAmountRaw: to?.amountRaw ?? null,
+    toDecimals: to?.decimals ?? null,
+    toSymbol: to?.symbol || '',
+    dex,
+    legs,
+  };
+}
+
+// Programs a transaction calls, inner instructions included
+function invokedPrograms(tx: HeliusTransaction): string[] {
+  return (tx.instructions || []).flatMap(instruction => [
+    instruction.programId,
+    ...(instruction.innerInstructions || []).map(inner => inner.programId),
+  ]);
+}
+
+// Net change of the wallet's SOL balance, leaving out the network fee it paid.
+// Null when Helius reported no balance changes.
+function nativeBalanceDelta(tx: HeliusTransaction, walletAddress: string): bigint | null {
+  const account = (tx.accountData || []).find(data => data.account === walletAddress);
+  if (!account) return null;
+  const fee = tx.feePayer === walletAddress ? tx.fee : 0;
+  return BigInt(account.nativeBalanceChange + fee);
+}
+
+// Net change of the wallet's token balances per mint. Wrapped SOL is left
+// out: it is closed back into the native balance.
+function tokenBalanceDeltas(tx: HeliusTransaction, walletAddress: string): Map<string, RawAmount> {
+  const deltas = new Map<string, RawAmount>();
+  for (const account of tx.accountData || []) {
+    for (const change of account.tokenBalanceChanges || []) {
+      if (change.userAccount !== walletAddress || change.mint === SOL_MINT) continue;
+      deltas.set(change.mint, {
+        raw: (deltas.get(change.mint)?.raw || ZERO_RAW) + BigInt(change.rawTokenAmount.tokenAmount),
+        decimals: change.rawTokenAmount.decimals,
+      });
+    }
+  }
+  return deltas;
+}
+
+// Mints the transaction minted to the wallet, and mints it burned from it
+function mintedMints(tx: HeliusTransaction, walletAddress: string): Set<string> {
+  return new Set((tx.tokenTransfers || [])
+    .filter(t => t.toUserAccount === walletAddress && !t.fromUserAccount && !t.fromTokenAccount)
+    .map(t => t.mint));
+}
+
+function burnedMints(tx: HeliusTransaction, walletAddress: string): Set<string> {
+  return new Set((tx.tokenTransfers || [])
+    .filter(t => t.fromUserAccount === walletAddress && !t.toUserAccount && !t.toTokenAccount)
+    .map(t => t.mint));
+}
+
+// Helper to parse a staking deposit or withdrawal: SOL for a liquid staking
+// token (or back) through a staking program, or SOL moved between the wallet
+// and a native stake account. Delegating or deactivating moves no SOL and is
+// left out.
+function parseStakingTransaction(tx: HeliusTransaction, walletAddress: string, symbols?: TokenSymbols) {
+  const protocol = stakingProtocolOf(invokedPrograms(tx));
+  if (!protocol) return null;
+
+  const solDelta = nativeBalanceDelta(tx, walletAddress);
+  if (solDelta === null || solDelta === ZERO_RAW) return null;
+
+  const staking = solDelta < ZERO_RAW;
+  const sol = { mint: SOL_MINT, symbol: 'SOL', ...amountFields({ raw: absRaw(solDelta), decimals: SOL_DECIMALS }) };
+  const tokenDeltas = [...tokenBalanceDeltas(tx, walletAddress)].filter(([, delta]) => delta.raw !== ZERO_RAW);
+
+  // Liquid staking: the pool's token moves the other way than SOL. It must
+  // be a known liquid staking token, or minted (burned) by the pool for the
+  // wallet; any other token is a swap routed through a pool.
+  if (tokenDeltas.length === 1) {
+    const [mint, delta] = tokenDeltas[0];
+    if (signOf(delta.raw) === signOf(solDelta)) return null;
+    const poolToken = staking ? mintedMints(tx, walletAddress) : burnedMints(tx, walletAddress);
+    if (!LIQUID_STAKING_TOKENS[mint] && !poolToken.has(mint)) return null;
+
+    const token = {
+      mint,
+      symbol: getTokenSymbol(mint, symbols),
+      ...amountFields({ raw: absRaw(delta.raw), decimals: delta.decimals }),
+    };
+    return {
+      type: staking ? 'stake' : 'unstake',
+      protocol: LIQUID_STAKING_TOKENS[mint]?.protocol || protocol,
+      from: staking ? sol : token,
+      to: staking ? token : sol,
+      counterparty: null,
+    };
+  }
+
+  // Native staking: the stake account is the other side, like a transfer
+  if (tokenDeltas.length === 0 && protocol === 'native') {
+    const stakeTransfer = (tx.nativeTransfers || []).find(transfer => staking
+      ? transfer.fromUserAccount === walletAddress && transfer.toUserAccount !== walletAddress
+      : transfer.toUserAccount === walletAddress && transfer.fromUserAccount !== walletAddress);
+    if (!stakeTransfer) return null;
+
+    return {
+      type: staking ? 'stake' : 'unstake',
+      protocol,
+      from: staking ? sol : null,
+      to: staking ? null : sol,
+      counterparty: staking ? stakeTransfer.toUserAccount : stakeTransfer.fromUserAccount,
+    };
+  }
+
+  return null;
+}
+
+// Helper to parse a liquidity pool deposit or withdrawal: pool tokens leave
+// the wallet, possibly for a newly minted LP token or position NFT, or come
+// back, possibly for a burned one. The position is the LP token, or the pool
+// for positions without a fungible LP token. Swaps through the same pools carry
+// a swap event and are left to the swap parser.
+function parseLiquidityTransaction(tx: HeliusTransaction, walletAddress: string, symbols?: TokenSymbols) {
+  if (tx.events?.swap) return null;
+  const protocol = lpProtocolOf(invokedPrograms(tx));
+  if (!protocol) return null;
+
+  const transfers = tx.tokenTransfers || [];
+  const minted = mintedMints(tx, walletAddress);
+  const burned = burnedMints(tx, walletAddress);
+
+  const deltas = [...tokenBalanceDeltas(tx, walletAddress)].filter(([, delta]) => delta.raw !== ZERO_RAW);
+  const positionDelta = deltas.find(([mint, delta]) =>
+    delta.raw > ZERO_RAW ? minted.has(mint) : burned.has(mint));
+  const poolDeltas = deltas.filter(delta => delta !== positionDelta);
+  if (poolDeltas.length === 0 && !positionDelta) return null;
+
+  // Without a minted or burned position token the pool tokens tell the
+  // direction, e.g. adding to or taking from an open concentrated position
+  const deposit = positionDelta
+    ? positionDelta[1].raw > ZERO_RAW
+    : poolDeltas.every(([, delta]) => delta.raw < ZERO_RAW);
+  if (poolDeltas.some(([, delta]) => (delta.raw < ZERO_RAW) !== deposit)) return null;
+
+  // SOL moves with the pool tokens (wrapped, or as position account rent);
+  // SOL moving the other way is rent for accounts the wallet needed
+  const solDelta = nativeBalanceDelta(tx, walletAddress) || ZERO_RAW;
+  if (solDelta !== ZERO_RAW && (solDelta < ZERO_RAW) === deposit) {
+    poolDeltas.push([SOL_MINT, { raw: solDelta, decimals: SOL_DECIMALS }]);
+  }
+  if (poolDeltas.length === 0) return null;
+
+  // The pool took the wallet's tokens on deposit and paid them out on withdrawal
+  const poolMints = new Set(poolDeltas.map(([mint]) => mint));
+  const poolTransfer = transfers.find(t => poolMints.has(t.mint) && (deposit
+    ? t.fromUserAccount === walletAddress && !!t.toUserAccount && t.toUserAccount !== walletAddress
+    : t.toUserAccount === walletAddress && !!t.fromUserAccount && t.fromUserAccount !== walletAddress));
+
+  const fungible = !!positionDelta && positionDelta[1].decimals > 0;
+  const position = fungible ? positionDelta![0] : deposit ? poolTransfer?.toUserAccount : poolTransfer?.fromUserAccount;
+  if (!position) return null;
+
+  const toLeg = ([mint, delta]: [string, RawAmount]): ParsedLeg => ({
+    direction: delta.raw > ZERO_RAW ? 'in' : 'out',
+    mint,
+    symbol: getTokenSymbol(mint, symbols),
+    ...amountFields({ raw: absRaw(delta.raw), decimals: delta.decimals }),
+  });
+  const poolLegs = poolDeltas.map(toLeg);
+  const positionLeg = positionDelta ? toLeg(positionDelta) : null;
+
+  return {
+    type: deposit ? 'lp_deposit' : 'lp_withdraw',
+    protocol,
+    from: deposit ? poolLegs[0] : positionLeg,
+    to: deposit ? positionLeg : poolLegs[0],
+    position,
+    legs: positionLeg ? [...poolLegs, positionLeg] : poolLegs,
+    lpPosition: { position, protocol, mints: [...poolMints] },
+  };
+}
+
+// Helper to parse a lending transaction: the wallet supplying an asset to its
+// lending account or taking it back, borrowing or repaying, or its account
+// being liquidated. The lending account is the counterparty. Swaps that call
+// a lending program on the way (e.g. leveraged positions) are left to the
+// swap parser.
+function parseLendingTransaction(
+  tx: HeliusTransaction,
+  walletAddress: string,
+  symbols?: TokenSymbols,
+  lendingAccounts?: Set<string>
+) {
+  if (tx.events?.swap) return null;
+  const instruction = findLendingInstruction(tx.instructions || []);
+  if (!instruction) return null;
+
+  const toLeg = (mint: string, delta: RawAmount) => ({
+    mint,
+    symbol: getTokenSymbol(mint, symbols),
+    ...amountFields({ raw: absRaw(delta.raw), decimals: delta.decimals }),
+  });
+
+  // A liquidator repaid part of the loan and took collateral: the liquidator
+  // pays the fee, and the wallet's own balances do not change. Neither the
+  // wallet nor the account's owner appears in the instruction, so the account
+  // must be one the wallet itself deposited to or borrowed from.
+  if (instruction.action === 'liquidation') {
+    const liquidator = tx.feePayer;
+    if (liquidator === walletAddress || !lendingAccounts?.has(instruction.account)) return null;
+
+    const transfers = (tx.tokenTransfers || []).filter(t => t.tokenAmount > 0);
+    const burned = new Set(transfers.filter(t => t.fromUserAccount === liquidator && !t.toUserAccount).map(t => t.mint));
+    const repaid = transfers.find(t => t.fromUserAccount === liquidator && !!t.toUserAccount);
+    const seized = transfers.find(t => t.toUserAccount === liquidator && !!t.fromUserAccount && !burned.has(t.mint));
+    if (!repaid || !seized) return null;
+
+    // Amounts as the liquidator's balances moved, like a transfer of its own
+    const transferLeg = (transfer: HeliusTransaction['tokenTransfers'][number]) => {
+      const exact = tokenTransferAmount(tx, liquidator, transfer);
+      return {
+        mint: transfer.mint,
+        symbol: getTokenSymbol(transfer.mint, symbols),
+        ...(exact
+          ? amountFields(exact)
+          : { amount: transfer.tokenAmount.toString(), amountRaw: null, decimals: null }),
+      };
+    };
+    return {
+      type: 'lend_liquidation',
+      protocol: instruction.protocol,
+      account: instruction.account,
+      from: transferLeg(seized),
+      to: transferLeg(repaid),
+    };
+  }
+
+  // The asset leaves the wallet on deposits and repayments and comes in on
+  // withdrawals and borrows. SOL moves wrapped or native; its delta can also
+  // hold account rent, so a token moving the right way comes first.
+  const outbound = instruction.action === 'deposit' || instruction.action === 'repay';
+  const rightWay = (delta: RawAmount) => (outbound ? delta.raw < ZERO_RAW : delta.raw > ZERO_RAW);
+  const tokenDelta = [...tokenBalanceDeltas(tx, walletAddress)].find(([, delta]) => rightWay(delta));
+  const solRaw = nativeBalanceDelta(tx, walletAddress);
+  const solDelta: RawAmount | null = solRaw !== null ? { raw: solRaw, decimals: SOL_DECIMALS } : null;
+  const asset = tokenDelta ? toLeg(...tokenDelta)
+    : solDelta && rightWay(solDelta) ? toLeg(SOL_MINT, solDelta)
+    : null;
+  if (!asset) return null;
+
+  return {
+    type: `lend_${instruction.action}`,
+    protocol: instruction.protocol,
+    account: instruction.account,
+    from: outbound ? asset : null,
+    to: outbound ? null : asset,
+  };
+}
+
+// Base fee per signature; anything above it is priority fee. Wallet
+// transactions carry a single signature.
+const BASE_FEE_LAMPORTS = 5000;
+
+// Helper to parse the fees the wallet paid: network fees when it is the fee
+// payer, and platform fees taken by the swap (e.g. Jupiter referral fees)
+function parseTransactionFees(tx: HeliusTransaction, walletAddress: string) {
+  const paysNetworkFee = tx.feePayer === walletAddress && tx.fee > 0;
+  const networkFeeLamports = paysNetworkFee ? Math.min(tx.fee, BASE_FEE_LAMPORTS) : null;
+  const priorityFeeLamports = paysNetworkFee ? tx.fee - networkFeeLamports! : null;
+
+  // Platform fee in the first fee token; fees in other tokens are rare
+  let platformFeeToken: string | null = null;
+  let platformFee: RawAmount = { raw: ZERO_RAW, decimals: SOL_DECIMALS };
+  const tokenFees = tx.events?.swap?.tokenFees || [];
+  const nativeFees = tx.events?.swap?.nativeFees || [];
+  if (tokenFees.length > 0) {
+    platformFeeToken = tokenFees[0].mint;
+    platformFee = { raw: ZERO_RAW, decimals: tokenFees[0].rawTokenAmount.decimals };
+    for (const fee of tokenFees.filter(f => f.mint === platformFeeToken)) {
+      platformFee.raw += BigInt(fee.rawTokenAmount.tokenAmount);
+    }
+  } else if (nativeFees.length > 0) {
+    platformFeeToken = SOL_MINT;
+    platformFee.raw = nativeFees.reduce((sum, fee) => sum + BigInt(fee.amount), ZERO_RAW);
+  }
+
+  const hasPlatformFee = !!platformFeeToken && platformFee.raw > ZERO_RAW;
+  const { amount, amountRaw, decimals } = amountFields(platformFee);
+  return {
+    networkFeeLamports,
+    priorityFeeLamports,
+    platformFeeAmount: hasPlatformFee ? amount : null,
+    platformFeeAmountRaw: hasPlatformFee ? amountRaw : null,
+    platformFeeDecimals: hasPlatformFee ? decimals : null,
+    platformFeeToken: hasPlatformFee ? platformFeeToken : null,
+  };
+}
+
+// Exact amount of a token transfer, from the wallet's balance change of the
+// mint. Only used when it agrees with the float amount of the transfer, i.e.
+// when the transaction moved nothing else of that mint for the wallet.
+function tokenTransferAmount(
+  tx: HeliusTransaction,
+  walletAddress: string,
+  transfer: HeliusTransaction['tokenTransfers'][number]
+): RawAmount | null {
+  for (const account of tx.accountData || []) {
+    for (const change of account.tokenBalanceChanges || []) {
+      if (change.userAccount !== walletAddress || change.mint !== transfer.mint) continue;
+
+      const amount: RawAmount = {
+        raw: absRaw(BigInt(change.rawTokenAmount.tokenAmount)),
+        decimals: change.rawTokenAmount.decimals,
+      };
+      const difference = Math.abs(Number(formatRawAmount(amount.raw, amount.decimals)) - transfer.tokenAmount);
+      return difference <= transfer.tokenAmount * 1e-9 ? amount : null;
+    }
+  }
+  return null;
+}
+
+// Helper to parse transfer transaction: the wallet sends or receives one asset
+function parseTransferTransaction(tx: HeliusTransaction, walletAddress: string, symbols?: TokenSymbols) {
+  // Token transfers first: SOL moving alongside them is usually account rent
+  const tokenTransfers = (tx.tokenTransfers || []).filter(t => t.tokenAmount > 0);
+  const tokenIn = tokenTransfers.find(
+    t => t.toUserAccount === walletAddress && t.fromUserAccount !== walletAddress
+  );
+  const tokenOut = tokenTransfers.find(
+    t => t.fromUserAccount === walletAddress && t.toUserAccount !== walletAddress
+  );
+
+  const tokenTransfer = tokenIn || tokenOut;
+  if (tokenTransfer) {
+    const inbound = tokenTransfer === tokenIn;
+    const exact = tokenTransferAmount(tx, walletAddress, tokenTransfer);
+    return {
+      type: inbound ? 'transfer_in' : 'transfer_out',
+      token: tokenTransfer.mint,
+      ...(exact
+        ? amountFields(exact)
+        : { amount: tokenTransfer.tokenAmount.toString(), amountRaw: null, decimals: null }),
+      symbol: getTokenSymbol(tokenTransfer.mint, symbols),
+      counterparty: inbound ? tokenTransfer.fromUserAccount : tokenTransfer.toUserAccount,
+    };
+  }
+
+  // Native SOL: net amount moved in or out of the wallet
+  const received = (tx.nativeTransfers || []).filter(
+    t => t.toUserAccount === walletAddress && t.fromUserAccount !== walletAddress
+  );
+  const sent = (tx.nativeTransfers || []).filter(
+    t => t.fromUserAccount === walletAddress && t.toUserAccount !== walletAddress
+  );
+  const netLamports =
+    received.reduce((sum, t) => sum + t.amount, 0) - sent.reduce((sum, t) => sum + t.amount, 0);
+
+  if (netLamports === 0) return null;
+
+  const inbound = netLamports > 0;
+  return {
+    type: inbound ? 'transfer_in' : 'transfer_out',
+    token: SOL_MINT,
+    ...amountFields({ raw: BigInt(Math.abs(netLamports)), decimals: SOL_DECIMALS }),
+    symbol: 'SOL',
+    counterparty: inbound ? received[0].fromUserAccount : sent[0].toUserAccount,
+  };
+}
+
+// A transaction ready to store, with its legs and, for liquidity
+// transactions, the position it changes
+export interface ParsedTransaction {
+  transaction: NewTransaction;
+  legs: ParsedLeg[];
+  lpPosition?: ParsedLpPosition;
+}
+
+// Parse a Helius transaction for the wallet: staking deposits and
+// withdrawals, lending, liquidity deposits and withdrawals, swaps, then
+// transfers (CEX deposits/withdrawals, other wallets), with claims from
+// airdrop distributors stored as airdrops. Other transactions return null.
+// Symbols come from `symbols` where the registry knows the mint. Liquidations
+// are only recognized for the wallet's `lendingAccounts`.
+export function parseHeliusTransaction(
+  tx: HeliusTransaction,
+  walletAddress: string,
+  symbols?: TokenSymbols,
+  lendingAccounts?: Set<string>
+): ParsedTransaction | null {
+  const timestamp = new Date(tx.timestamp * 1000);
+
+  // Before swaps: a stake through a router can also carry a swap event
+  const stakingData = parseStakingTransaction(tx, walletAddress, symbols);
+  if (stakingData) {
+    const { from, to } = stakingData;
+    return {
+      transaction: {
+        walletAddress,
+        signature: tx.signature,
+        timestamp,
+        type: stakingData.type,
+        fromToken: from?.mint ?? null,
+        fromAmount: from?.amount ?? null,
+        fromAmountRaw: from?.amountRaw ?? null,
+        fromDecimals: from?.decimals ?? null,
+        fromSymbol: from?.symbol ?? null,
+        toToken: to?.mint ?? null,
+        toAmount: to?.amount ?? null,
+        toAmountRaw: to?.amountRaw ?? null,
+        toDecimals: to?.decimals ?? null,
+        toSymbol: to?.symbol ?? null,
+        dex: stakingData.protocol,
+        counterparty: stakingData.counterparty,
+        ...parseTransactionFees(tx, walletAddress),
+        parserVersion: PARSER_VERSION,
+        rawData: tx,
+      },
+      legs: [
+        ...(from ? [{ direction: 'out' as const, ...from }] : []),
+        ...(to ? [{ direction: 'in' as const, ...to }] : []),
+      ],
+    };
+  }
+
+  const lendingData = parseLendingTransaction(tx, walletAddress, symbols, lendingAccounts);
+  if (lendingData) {
+    const { from, to } = lendingData;
+    return {
+      transaction: {
+        walletAddress,
+        signature: tx.signature,
+        timestamp,
+        type: lendingData.type,
+        fromToken: from?.mint ?? null,
+        fromAmount: from?.amount ?? null,
+        fromAmountRaw: from?.amountRaw ?? null,
+        fromDecimals: from?.decimals ?? null,
+        fromSymbol: from?.symbol ?? null,
+        toToken: to?.mint ?? null,
+        toAmount: to?.amount ?? null,
+        toAmountRaw: to?.amountRaw ?? null,
+        toDecimals: to?.decimals ?? null,
+        toSymbol: to?.symbol ?? null,
+        dex: lendingData.protocol,
+        counterparty: lendingData.account,
+        ...parseTransactionFees(tx, walletAddress),
+        parserVersion: PARSER_VERSION,
+        rawData: tx,
+      },
+      // The loan repaid by a liquidator never reaches the wallet
+      legs: [
+        ...(from ? [{ direction: 'out' as const, ...from }] : []),
+        ...(to && lendingData.type !== 'lend_liquidation' ? [{ direction: 'in' as const, ...to }] : []),
+      ],
+    };
+  }
+
+  const liquidityData = parseLiquidityTransaction(tx, walletAddress, symbols);
+  if (liquidityData) {
+    const { from, to } = liquidityData;
+    return {
+      transaction: {
+        walletAddress,
+        signature: tx.signature,
+        timestamp,
+        type: liquidityData.type,
+        fromToken: from?.mint ?? null,
+        fromAmount: from?.amount ?? null,
+        fromAmountRaw: from?.amountRaw ?? null,
+        fromDecimals: from?.decimals ?? null,
+        fromSymbol: from?.symbol ?? null,
+        toToken: to?.mint ?? null,
+        toAmount: to?.amount ?? null,
+        toAmountRaw: to?.amountRaw ?? null,
+        toDecimals: to?.decimals ?? null,
+        toSymbol: to?.symbol ?? null,
+        dex: liquidityData.protocol,
+        counterparty: liquidityData.position,
+        ...parseTransactionFees(tx, walletAddress),
+        parserVersion: PARSER_VERSION,
+        rawData: tx,
+      },
+      legs: liquidityData.legs,
+      lpPosition: liquidityData.lpPosition,
+    };
+  }
+
+  const swapData = parseSwapTransaction(tx, walletAddress, symbols);
+  if (swapData) {
+    return {
+      transaction: {
+        walletAddress,
+        signature: tx.signature,
+        timestamp,
+        type: 'swap',
+        fromToken: swapData.fromToken,
+        fromAmount: swapData.fromAmount,
+        fromAmountRaw: swapData.fromAmountRaw,
+        fromDecimals: swapData.fromDecimals,
+        fromSymbol: swapData.fromSymbol,
+        toToken: swapData.toToken,
+        toAmount: swapData.toAmount,
+        toAmountRaw: swapData.toAmountRaw,
+        toDecimals: swapData.toDecimals,
+        toSymbol: swapData.toSymbol,
+        dex: swapData.dex,
+        counterparty: null,
+        ...parseTransactionFees(tx, walletAddress),
+        parserVersion: PARSER_VERSION,
+        rawData: tx,
+      },
+      legs: swapData.legs,
+    };
+  }
+
+  // Claims from a distributor program are airdrops; Helius does not always
+  // type them as transfers
+  const distributor = airdropDistributorOf(invokedPrograms(tx));
+  if (tx.type !== 'TRANSFER' && !distributor) return null;
+  const transferData = parseTransferTransaction(tx, walletAddress, symbols);
+  if (!transferData) return null;
+
+  const inbound = transferData.type === 'transfer_in';
+  const airdrop = inbound && !!distributor;
+  return {
+    transaction: {
+      walletAddress,
+      signature: tx.signature,
+      timestamp,
+      type: airdrop ? 'airdrop' : transferData.type,
+      fromToken: inbound ? null : transferData.token,
+      fromAmount: inbound ? null : transferData.amount,
+      fromAmountRaw: inbound ? null : transferData.amountRaw,
+      fromDecimals: inbound ? null : transferData.decimals,
+      fromSymbol: inbound ? null : transferData.symbol,
+      toToken: inbound ? transferData.token : null,
+      toAmount: inbound ? transferData.amount : null,
+      toAmountRaw: inbound ? transferData.amountRaw : null,
+      toDecimals: inbound ? transferData.decimals : null,
+      toSymbol: inbound ? transferData.symbol : null,
+      dex: airdrop ? distributor : null,
+      counterparty: transferData.counterparty,
+      ...parseTransactionFees(tx, walletAddress),
+      parserVersion: PARSER_VERSION,
+      rawData: tx,
+    },
+    legs: [{
+      direction: inbound ? 'in' : 'out',
+      mint: transferData.token,
+      symbol: transferData.symbol,
+      amount: transferData.amount,
+      amountRaw: transferData.amountRaw,
+      decimals: transferData.decimals,
+    }],
+  };
+}
@@ -0,0 +1,221 @@
+import { db, transactions, transactionLegs } from '@/lib/db';
+import { and, asc, eq, gt, inArray, isNotNull, sql } from 'drizzle-orm';
+import { Decimal } from '@/lib/decimal';
+import {
+  parseHeliusTransaction,
+  transactionMints,
+  type HeliusTransaction,
+  type ParsedTransaction,
+} from './transaction-parser';
+import { getTokenMetadata, tokenSymbols } from './token-metadata';
+import { invalidateLotSnapshots } from './tax-year';
+import { saveLpPosition } from './lp-positions';
+
+// Columns produced by the parser
+const PARSED_FIELDS = [
+  'type',
+  'fromToken',
+  'fromAmount',
+  'fromAmountRaw',
+  'fromDecimals',
+  'fromSymbol',
+  'toToken',
+  'toAmount',
+  'toAmountRaw',
+  'toDecimals',
+  'toSymbol',
+  'dex',
+  'counterparty',
+  'networkFeeLamports',
+  'priorityFeeLamports',
+  'platformFeeAmount',
+  'platformFeeAmountRaw',
+  'platformFeeDecimals',
+  'platformFeeToken',
+] as const;
+type ParsedField = (typeof PARSED_FIELDS)[number];
+
+// Decimal columns can come back with trailing zeros, e.g. '1.50000000'
+const DECIMAL_FIELDS = new Set<ParsedField>(['fromAmount', 'toAmount', 'platformFeeAmount']);
+
+const REPARSE_BATCH_SIZE = 500;
+
+// Lending transactions the wallet signs itself, on its own lending account
+const OWN_LENDING_TYPES = ['lend_deposit', 'lend_withdraw', 'lend_borrow', 'lend_repay'];
+
+export interface ReparseChange {
+  walletAddress: string;
+  signature: string;
+  changes: Partial<Record<ParsedField | 'legs', { before: string | number | null; after: string | number | null }>>;
+}
+
+export interface ReparseReport {
+  checked: number;
+  changed: ReparseChange[];
+  unparsed: string[]; // signatures the current parser no longer recognizes
+  dryRun: boolean;
+}
+
+// Lending accounts the wallet deposited to, withdrew from, borrowed from or
+// repaid: the accounts whose liquidations are the wallet's
+export async function getLendingAccounts(walletAddress: string): Promise<Set<string>> {
+  const rows = await db
+    .selectDistinct({ account: transactions.counterparty })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.walletAddress, walletAddress),
+        inArray(transactions.type, OWN_LENDING_TYPES),
+        isNotNull(transactions.counterparty)
+      )
+    );
+  return new Set(rows.map(row => row.account!));
+}
+
+// Lending account of a stored transaction the wallet signed itself, if any
+export function ownLendingAccount(transaction: ParsedTransaction['transaction']): string | null {
+  return OWN_LENDING_TYPES.includes(transaction.type || '') ? transaction.counterparty ?? null : null;
+}
+
+// Store a parsed transaction, replacing the parsed columns and legs of a row
+// stored earlier, and record the liquidity position it changes
+export async function saveParsedTransaction({ transaction, legs, lpPosition }: ParsedTransaction) {
+  await db.transaction(async tx => {
+    const [stored] = await tx
+      .insert(transactions)
+      .values(transaction)
+      .onConflictDoUpdate({
+        target: [transactions.walletAddress, transactions.signature],
+        set: {
+          ...Object.fromEntries(PARSED_FIELDS.map(field => [field, transaction[field] ?? null])),
+          parserVersion: transaction.parserVersion,
+          rawData: transaction.rawData,
+          // A receipt price is of the token: value it again if that changed
+          receiptPriceUsd: sql`case when ${transactions.toToken} is distinct from excluded.to_token then null else ${transactions.receiptPriceUsd} end`,
+          receiptPricedAt: sql`case when ${transactions.toToken} is distinct from excluded.to_token then null else ${transactions.receiptPricedAt} end`,
+        },
+      })
+      .returning({ id: transactions.id });
+
+    await tx.delete(transactionLegs).where(eq(transactionLegs.transactionId, stored.id));
+    if (legs.length > 0) {
+      await tx
+        .insert(transactionLegs)
+        .values(legs.map(leg => ({ transactionId: stored.id, ...leg })));
+    }
+
+    if (lpPosition) {
+      await saveLpPosition(transaction.walletAddress, transaction.timestamp, lpPosition, tx);
+    }
+  });
+}
+
+function normalizeField(field: ParsedField, value: unknown): string | number | null {
+  if (value === null || value === undefined) return null;
+  return DECIMAL_FIELDS.has(field) ? new Decimal(value as string).toFixed() : (value as string | number);
+}
+
+// Legs as one comparable line, e.g. 'out 1.5 So11...; in 200 DezX...'
+function describeLegs(legs: Array<{ direction: string; mint: string; amount: string }>): string {
+  return legs
+    .map(leg => `${leg.direction} ${new Decimal(leg.amount).toFixed()} ${leg.mint}`)
+    .sort()
+    .join('; ');
+}
+
+// Re-run the current parser over the stored Helius payloads, optionally for
+// one wallet. Reports every row whose parsed values change; a dry run only
+// reports.
+export async function reparseTransactions(
+  options: { walletAddress?: string; dryRun?: boolean } = {}
+): Promise<ReparseReport> {
+  const dryRun = options.dryRun ?? false;
+  const report: ReparseReport = { checked: 0, changed: [], unparsed: [], dryRun };
+  // Oldest changed year per wallet, for snapshot invalidation
+  const changedFrom = new Map<string, number>();
+  // Lending accounts per wallet, for liquidations
+  const lendingAccounts = new Map<string, Set<string>>();
+
+  let lastId: string | undefined;
+  while (true) {
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          options.walletAddress ? eq(transactions.walletAddress, options.walletAddress) : undefined,
+          lastId ? gt(transactions.id, lastId) : undefined
+        )
+      )
+      .orderBy(asc(transactions.id))
+      .limit(REPARSE_BATCH_SIZE);
+
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    const storedLegs = await db
+      .select()
+      .from(transactionLegs)
+      .where(inArray(transactionLegs.transactionId, rows.map(row => row.id)));
+
+    // Symbols from the registry as it is, without looking up unknown mints
+    const symbols = tokenSymbols(await getTokenMetadata(
+      rows.flatMap(row => (row.rawData ? transactionMints(row.rawData as HeliusTransaction) : []))
+    ));
+
+    for (const row of rows) {
+      report.checked++;
+      if (!row.rawData) continue;
+
+      if (!lendingAccounts.has(row.walletAddress)) {
+        lendingAccounts.set(row.walletAddress, await getLendingAccounts(row.walletAddress));
+      }
+      const parsed = parseHeliusTransaction(
+        row.rawData as HeliusTransaction,
+        row.walletAddress,
+        symbols,
+        lendingAccounts.get(row.walletAddress)
+      );
+      if (!parsed) {
+        report.unparsed.push(row.signature);
+        continue;
+      }
+
+      const changes: ReparseChange['changes'] = {};
+      for (const field of PARSED_FIELDS) {
+        const before = normalizeField(field, row[field]);
+        const after = normalizeField(field, parsed.transaction[field]);
+        if (before !== after) {
+          changes[field] = { before, after };
+        }
+      }
+
+      const legsBefore = describeLegs(storedLegs.filter(leg => leg.transactionId === row.id));
+      const legsAfter = describeLegs(parsed.legs);
+      if (legsBefore !== legsAfter) {
+        changes.legs = { before: legsBefore || null, after: legsAfter || null };
+      }
+
+      const changed = Object.keys(changes).length > 0;
+      if (changed) {
+        report.changed.push({ walletAddress: row.walletAddress, signature: row.signature, changes });
+        const year = row.timestamp.getFullYear();
+        changedFrom.set(row.walletAddress, Math.min(year, changedFrom.get(row.walletAddress) ?? year));
+      }
+
+      // Unchanged rows are still stamped with the current parser version
+      if (!dryRun && (changed || row.parserVersion !== parsed.transaction.parserVersion)) {
+        await saveParsedTransaction(parsed);
+      }
+    }
+  }
+
+  // Year-end lots from the oldest changed year onwards may have changed
+  if (!dryRun) {
+    for (const [walletAddress, year] of changedFrom) {
+      await invalidateLotSnapshots(walletAddress, year);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,66 @@
+import { db, walletGroups, walletGroupMembers, type WalletGroup, type WalletGroupMember } from '@/lib/db';
+import { and, eq } from 'drizzle-orm';
+
+export interface WalletGroupWithMembers extends WalletGroup {
+  members: WalletGroupMember[];
+}
+
+// Get a group with its members
+export async function getWalletGroup(groupId: string): Promise<WalletGroupWithMembers | null> {
+  const [group] = await db
+    .select()
+    .from(walletGroups)
+    .where(eq(walletGroups.id, groupId))
+    .limit(1);
+
+  if (!group) {
+    return null;
+  }
+
+  const members = await db
+    .select()
+    .from(walletGroupMembers)
+    .where(eq(walletGroupMembers.groupId, groupId))
+    .orderBy(walletGroupMembers.createdAt);
+
+  return { ...group, members };
+}
+
+// Get the group a wallet belongs to, if any
+export async function getWalletGroupForWallet(walletAddress: string): Promise<WalletGroupWithMembers | null> {
+  const [membership] = await db
+    .select()
+    .from(walletGroupMembers)
+    .where(eq(walletGroupMembers.walletAddress, walletAddress))
+    .limit(1);
+
+  return membership ? getWalletGroup(membership.groupId) : null;
+}
+
+// Create a group with its first wallet
+export async function createWalletGroup(name: string, walletAddress: string): Promise<WalletGroupWithMembers> {
+  const groupId = await db.transaction(async tx => {
+    const [group] = await tx.insert(walletGroups).values({ name }).returning();
+    await tx.insert(walletGroupMembers).values({ groupId: group.id, walletAddress });
+    return group.id;
+  });
+
+  return (await getWalletGroup(groupId))!;
+}
+
+// Add a wallet to a group. A wallet can only belong to one group.
+export async function addWalletToGroup(groupId: string, walletAddress: string, label?: string) {
+  await db.insert(walletGroupMembers).values({ groupId, walletAddress, label: label || null });
+}
+
+// Remove a wallet from a group
+export async function removeWalletFromGroup(groupId: string, walletAddress: string) {
+  await db
+    .delete(walletGroupMembers)
+    .where(
+      and(
+        eq(walletGroupMembers.groupId, groupId),
+        eq(walletGroupMembers.walletAddress, walletAddress)
+      )
+    );
+}
@@ -3,7 +3,11 @@
 import { useMemo } from 'react';
 import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
-import { PhantomWalletAdapter } from '@solana/wallet-adapter-wallets';
+import {
+  LedgerWalletAdapter,
+  PhantomWalletAdapter,
+  SolflareWalletAdapter,
+} from '@solana/wallet-adapter-wallets';
 import { clusterApiUrl } from '@solana/web3.js';
 
 // Import wallet adapter styles
@@ -13,9 +17,10 @@ export function SolanaWalletProvider({ children }: { children: React.ReactNode }
   // Use mainnet for production
   const endpoint = useMemo(() => clusterApiUrl('mainnet-beta'), []);
 
-  // Only Phantom for MVP
+  // Backpack and other Wallet Standard wallets register themselves and are
+  // detected without an adapter; these cover wallets that may not
   const wallets = useMemo(
-    () => [new PhantomWalletAdapter()],
+    () => [new PhantomWalletAdapter(), new SolflareWalletAdapter(), new LedgerWalletAdapter()],
     []
   );
 
@@ -0,0 +1,26 @@
+// Serve recorded fixture pages in place of the Helius enhanced transactions
+// API. Set HELIUS_API_URL=http://localhost:4010 to fetch from it.
+// Usage: pnpm helius:mock [--port 4010] [--fixtures fixtures/helius]
+import path from 'node:path';
+import { createHeliusMockServer } from './helius-mock';
+
+function argValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const port = Number(argValue(args, '--port') || process.env.HELIUS_MOCK_PORT || 4010);
+  const fixturesDir = path.resolve(argValue(args, '--fixtures') || 'fixtures/helius');
+
+  const server = createHeliusMockServer({ fixturesDir });
+  server.listen(port, () => {
+    console.log(`Helius mock serving ${fixturesDir} on http://localhost:${port}`);
+  });
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+// Local stand-in for the Helius enhanced transactions API, serving recorded
+// fixture pages. Started by `pnpm helius:mock` and by the tests.
+import { createServer, type Server } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const TRANSACTIONS_ROUTE = /^\/v0\/addresses\/([1-9A-HJ-NP-Za-km-z]{32,44})\/transactions\/?$/;
+
+// Pages recorded for a wallet, newest first: fixtures/helius/<address>.json
+// holds an array of pages. A wallet without a fixture has no transactions.
+async function loadPages(fixturesDir: string, walletAddress: string): Promise<{ signature: string }[][]> {
+  try {
+    return JSON.parse(await readFile(path.join(fixturesDir, `${walletAddress}.json`), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+export interface HeliusMockOptions {
+  fixturesDir: string;
+  log?: (message: string) => void;
+}
+
+// Server answering the transactions route from the fixtures, not listening yet
+export function createHeliusMockServer({ fixturesDir, log = console.log }: HeliusMockOptions): Server {
+  return createServer(async (request, response) => {
+    const sendJson = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+
+    try {
+      const url = new URL(request.url || '/', 'http://localhost');
+      const match = request.method === 'GET' ? url.pathname.match(TRANSACTIONS_ROUTE) : null;
+      if (!match) {
+        return sendJson(404, { error: 'Not found' });
+      }
+      if (!url.searchParams.get('api-key')) {
+        return sendJson(401, { error: 'Missing api-key' });
+      }
+
+      // The first page, or the page after the one ending at `before`
+      const pages = await loadPages(fixturesDir, match[1]);
+      const before = url.searchParams.get('before');
+      let pageIndex = 0;
+      if (before) {
+        const previous = pages.findIndex(page => page[page.length - 1]?.signature === before);
+        if (previous === -1) {
+          return sendJson(400, { error: `No recorded page ends at ${before}` });
+        }
+        pageIndex = previous + 1;
+      }
+
+      // Stop at `until`, as Helius does: only transactions newer than it
+      let page = pages[pageIndex] || [];
+      const until = url.searchParams.get('until');
+      if (until) {
+        const untilPage = pages.findIndex(recorded => recorded.some(tx => tx.signature === until));
+        if (untilPage !== -1 && untilPage < pageIndex) {
+          page = [];
+        } else if (untilPage === pageIndex) {
+          page = page.slice(0, page.findIndex(tx => tx.signature === until));
+        }
+      }
+      log(`${match[1]} page ${pageIndex + 1}: ${page.length} transactions`);
+      sendJson(200, page);
+    } catch (error) {
+      console.error(error);
+      sendJson(500, { error: 'Failed to read fixtures' });
+    }
+  });
+}
@@ -0,0 +1,33 @@
+// Import official USD/IDR rates (KMK or JISDOR) from a CSV file.
+// Usage: pnpm fx:import <file.csv> --source kmk|jisdor
+import { readFile } from 'node:fs/promises';
+import { config } from 'dotenv';
+
+// Load .env.local before the database client is created
+config({ path: '.env.local' });
+
+async function main() {
+  const { FX_RATE_SOURCES, parseFxRatesCsv, importFxRates } = await import('@/lib/services/fx-rate');
+
+  const args = process.argv.slice(2);
+  const sourceIndex = args.indexOf('--source');
+  const source = sourceIndex !== -1 ? args[sourceIndex + 1] : 'kmk';
+  const file = args.find((arg, index) => !arg.startsWith('--') && index !== sourceIndex + 1);
+
+  if (!file || !FX_RATE_SOURCES.includes(source as (typeof FX_RATE_SOURCES)[number])) {
+    console.error(`Usage: pnpm fx:import <file.csv> --source ${FX_RATE_SOURCES.join('|')}`);
+    process.exit(1);
+  }
+
+  const csv = await readFile(file, 'utf8');
+  const rates = parseFxRatesCsv(csv, source as (typeof FX_RATE_SOURCES)[number]);
+  const imported = await importFxRates(rates);
+
+  console.log(`Imported ${imported} ${source.toUpperCase()} rates from ${file}`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,78 @@
+// Merge spam mints into the known spam list (lib/data/spam-tokens.json), e.g.
+// from a community blocklist or mints collected from hidden transfers. The
+// file is a JSON array of mints or of `{ mint | address, note }` entries, or
+// text with one mint per line (extra CSV columns are ignored).
+// Usage: pnpm spam:import <mints.json|mints.txt> [--note <note>]
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const SPAM_LIST_PATH = path.resolve('lib/data/spam-tokens.json');
+
+const MINT_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+interface SpamListEntry {
+  mint: string;
+  note?: string;
+}
+
+function argValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+// Entries of an import file, whatever its format
+function parseEntries(content: string): SpamListEntry[] {
+  if (content.trimStart().startsWith('[')) {
+    const items = JSON.parse(content) as (string | { mint?: string; address?: string; note?: string })[];
+    return items.map(item =>
+      typeof item === 'string' ? { mint: item } : { mint: item.mint || item.address || '', note: item.note }
+    );
+  }
+
+  return content
+    .split(/\r?\n/)
+    .map(line => line.split(',')[0].trim())
+    .filter(mint => mint && !mint.startsWith('#'))
+    .map(mint => ({ mint }));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const noteArg = argValue(args, '--note');
+  const file = args.find((arg, index) => !arg.startsWith('--') && args[index - 1] !== '--note');
+  if (!file) {
+    console.error('Usage: pnpm spam:import <mints.json|mints.txt> [--note <note>]');
+    process.exit(1);
+  }
+
+  const list = JSON.parse(await readFile(SPAM_LIST_PATH, 'utf8')) as SpamListEntry[];
+  const known = new Set(list.map(entry => entry.mint));
+
+  let added = 0;
+  let invalid = 0;
+  for (const entry of parseEntries(await readFile(file, 'utf8'))) {
+    const mint = entry.mint.trim();
+    if (!MINT_PATTERN.test(mint)) {
+      invalid++;
+      continue;
+    }
+    if (known.has(mint)) {
+      continue;
+    }
+
+    const note = entry.note || noteArg;
+    list.push(note ? { mint, note } : { mint });
+    known.add(mint);
+    added++;
+  }
+
+  await writeFile(SPAM_LIST_PATH, `${JSON.stringify(list, null, 2)}\n`);
+
+  console.log(`Added ${added} mints from ${file} (${list.length} listed${invalid ? `, ${invalid} invalid skipped` : ''})`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+// Import a Jupiter token list (JSON array, v1 or v2 format) into the token
+// registry, e.g. a saved copy for offline use.
+// Usage: pnpm tokens:import <tokens.json>
+import { readFile } from 'node:fs/promises';
+import { config } from 'dotenv';
+
+// Load .env.local before the database client is created
+config({ path: '.env.local' });
+
+async function main() {
+  const { importTokenList } = await import('@/lib/services/token-metadata');
+
+  const file = process.argv.slice(2).find(arg => !arg.startsWith('--'));
+  if (!file) {
+    console.error('Usage: pnpm tokens:import <tokens.json>');
+    process.exit(1);
+  }
+
+  const tokens = JSON.parse(await readFile(file, 'utf8'));
+  const imported = await importTokenList(tokens);
+
+  console.log(`Imported ${imported} tokens from ${file}`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
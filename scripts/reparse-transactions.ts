@@ -0,0 +1,44 @@
+// Re-parse stored transactions from their Helius payloads with the current parser.
+// Usage: pnpm transactions:reparse [--wallet <address>] [--dry-run]
+import { config } from 'dotenv';
+
+// Load .env.local before the database client is created
+config({ path: '.env.local' });
+
+async function main() {
+  const { reparseTransactions } = await import('@/lib/services/transaction-store');
+  const { PARSER_VERSION } = await import('@/lib/services/transaction-parser');
+
+  const args = process.argv.slice(2);
+  const walletIndex = args.indexOf('--wallet');
+  const walletAddress = walletIndex !== -1 ? args[walletIndex + 1] : undefined;
+  const dryRun = args.includes('--dry-run');
+
+  if (walletIndex !== -1 && !walletAddress) {
+    console.error('Usage: pnpm transactions:reparse [--wallet <address>] [--dry-run]');
+    process.exit(1);
+  }
+
+  const report = await reparseTransactions({ walletAddress, dryRun });
+
+  for (const { walletAddress, signature, changes } of report.changed) {
+    console.log(`${walletAddress} ${signature}`);
+    for (const [field, change] of Object.entries(changes)) {
+      console.log(`  ${field}: ${change.before ?? '-'} -> ${change.after ?? '-'}`);
+    }
+  }
+  for (const signature of report.unparsed) {
+    console.warn(`Not recognized by the current parser, left unchanged: ${signature}`);
+  }
+
+  console.log(
+    `${dryRun ? 'Dry run: ' : ''}checked ${report.checked} transactions with parser v${PARSER_VERSION}, ` +
+    `${report.changed.length} changed, ${report.unparsed.length} not recognized`
+  );
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
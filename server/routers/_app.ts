@@ -1,8 +1,20 @@
 import { router } from '../trpc/trpc';
 import { transactionsRouter } from './transactions';
+import { resolutionsRouter } from './resolutions';
+import { pricesRouter } from './prices';
+import { walletGroupsRouter } from './wallet-groups';
+import { jobsRouter } from './jobs';
+import { tokensRouter } from './tokens';
+import { authRouter } from './auth';
 
 export const appRouter = router({
   transactions: transactionsRouter,
+  resolutions: resolutionsRouter,
+  prices: pricesRouter,
+  walletGroups: walletGroupsRouter,
+  jobs: jobsRouter,
+  tokens: tokensRouter,
+  auth: authRouter,
 });
 
 export type AppRouter = typeof appRouter;
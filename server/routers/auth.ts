@@ -0,0 +1,54 @@
+import { z } from 'zod/v4';
+import { TRPCError } from '@trpc/server';
+import { router, publicProcedure } from '../trpc/trpc';
+import { createSignInMessage, isAppOrigin, sessionCookie, signIn, signOut } from '@/lib/services/auth';
+
+export const authRouter = router({
+  // The current session and the wallets signed in on it, or null
+  session: publicProcedure
+    .query(({ ctx }) => {
+      return ctx.session
+        ? { walletAddresses: ctx.session.walletAddresses, expiresAt: ctx.session.expiresAt }
+        : null;
+    }),
+
+  // Sign-in message for the wallet to sign, valid for a few minutes
+  requestSignIn: publicProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // Only the app itself may ask for a message: another site could have
+      // the wallet sign in here on its behalf
+      if (!isAppOrigin(ctx.req.headers.get('origin'))) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Permintaan masuk bukan dari situs Taxana' });
+      }
+      return createSignInMessage(input.walletAddress);
+    }),
+
+  // Verify the signed message and add the wallet to the session, starting one
+  // if needed
+  signIn: publicProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      nonce: z.string().min(1).max(64),
+      signature: z.string().min(1).max(200), // base64
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await signIn(input.walletAddress, input.nonce, input.signature, ctx.sessionToken);
+      if (!result) {
+        throw new Error('Tanda tangan tidak valid atau sudah kedaluwarsa');
+      }
+
+      ctx.resHeaders.append('Set-Cookie', sessionCookie(result.token));
+      return { walletAddresses: result.session.walletAddresses, expiresAt: result.session.expiresAt };
+    }),
+
+  // End the session for every wallet on it
+  signOut: publicProcedure
+    .mutation(async ({ ctx }) => {
+      await signOut(ctx.sessionToken);
+      ctx.resHeaders.append('Set-Cookie', sessionCookie(null));
+      return { success: true };
+    }),
+});
@@ -0,0 +1,106 @@
+import { z } from 'zod/v4';
+import { router, viewProcedure, walletProcedure } from '../trpc/trpc';
+import { INBOUND_COST_BASIS_MODES, VALUATION_MODES } from '@/lib/services/tax-calculator';
+import { getTaxSubject } from '@/lib/services/tax-year';
+import { EXCHANGE_TYPES } from '@/lib/services/tax-rules';
+import { COST_BASIS_METHODS } from '@/lib/services/cost-basis';
+import { cancelJob, createJob, getActiveJobs, getJob, type JobView } from '@/lib/services/jobs';
+import { ownsWallets } from '@/lib/services/auth';
+
+// Jobs visible without owning the wallet: syncs and view-only calculations,
+// not results that used the owner's manual prices and cost basis
+function isPublicJob(job: JobView): boolean {
+  return job.type === 'sync' || !!job.input.viewOnly;
+}
+
+// Load a job and check that it belongs to the wallet asking for it
+async function getJobForWallet(jobId: string, walletAddress: string, ownsWallet: boolean) {
+  const job = await getJob(jobId);
+  if (!job || job.walletAddress !== walletAddress || (!ownsWallet && !isPublicJob(job))) {
+    throw new Error('Job tidak ditemukan');
+  }
+  return job;
+}
+
+export const jobsRouter = router({
+  // Start fetching transactions from Helius in the background. Returns the
+  // wallet's sync that is already queued or running, if any.
+  startSync: viewProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      year: z.number().min(2020).max(2030),
+    }))
+    .mutation(async ({ input }) => {
+      if (!process.env.HELIUS_API_KEY) {
+        throw new Error('HELIUS_API_KEY tidak ditemukan');
+      }
+
+      const [active] = await getActiveJobs(input.walletAddress, 'sync');
+      return active || createJob('sync', input);
+    }),
+
+  // Start calculating taxes in the background, carrying open lots over from
+  // earlier years. A group is only calculated when the session owns all of
+  // its wallets; a wallet the session does not own is calculated view-only.
+  startCalculation: viewProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      year: z.number().min(2020).max(2030),
+      valuation: z.enum(VALUATION_MODES).optional(),
+      exchangeType: z.enum(EXCHANGE_TYPES).optional(),
+      method: z.enum(COST_BASIS_METHODS).optional(),
+      inboundCostBasis: z.enum(INBOUND_COST_BASIS_MODES).optional(),
+      groupId: z.uuid().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.ownsWallet) {
+        if (input.groupId) {
+          throw new Error('Grup hanya bisa dihitung oleh pemilik wallet');
+        }
+        return createJob('calculate', { ...input, viewOnly: true });
+      }
+
+      const subject = await getTaxSubject(input.walletAddress, input.groupId);
+      if (!subject) {
+        throw new Error('Wallet bukan anggota grup ini');
+      }
+      if (!ownsWallets(ctx.session, subject.walletAddresses)) {
+        throw new Error('Masuk dengan setiap wallet di grup ini untuk menghitungnya bersama');
+      }
+
+      return createJob('calculate', input);
+    }),
+
+  // Status, progress and, once completed, result of a job. Polled by the
+  // dashboard while the job runs.
+  get: viewProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      jobId: z.uuid(),
+    }))
+    .query(async ({ ctx, input }) => {
+      return getJobForWallet(input.jobId, input.walletAddress, ctx.ownsWallet);
+    }),
+
+  // Queued and running jobs of a wallet, e.g. after reloading the page
+  active: viewProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+    }))
+    .query(async ({ ctx, input }) => {
+      const jobs = await getActiveJobs(input.walletAddress);
+      return ctx.ownsWallet ? jobs : jobs.filter(isPublicJob);
+    }),
+
+  // Ask a job to stop. Transactions already stored by a sync are kept. Only
+  // the wallet's owner can stop its jobs, public ones included.
+  cancel: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      jobId: z.uuid(),
+    }))
+    .mutation(async ({ input }) => {
+      await getJobForWallet(input.jobId, input.walletAddress, true);
+      return cancelJob(input.jobId);
+    }),
+});
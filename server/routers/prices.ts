@@ -0,0 +1,68 @@
+import { z } from 'zod/v4';
+import { router, walletProcedure } from '../trpc/trpc';
+import {
+  setPriceOverride,
+  listPriceOverrides,
+  deletePriceOverride,
+} from '@/lib/services/price-overrides';
+import { getOverrideAudit } from '@/lib/services/override-audit';
+import { invalidateLotSnapshots } from '@/lib/services/tax-year';
+
+export const pricesRouter = router({
+  // Set a manual price for a token in one transaction or at a point in time
+  setOverride: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      tokenAddress: z.string().min(32).max(44),
+      signature: z.string().min(64).max(88).optional(),
+      timestamp: z.date().optional(),
+      priceUsd: z.number().positive(),
+      note: z.string().max(500).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (!input.signature && !input.timestamp) {
+        throw new Error('Signature atau waktu transaksi wajib diisi');
+      }
+
+      const override = await setPriceOverride(input, ctx.sessionWallet);
+
+      // Lots acquired at the overridden price may be in year-end snapshots
+      await invalidateLotSnapshots(input.walletAddress, input.timestamp?.getFullYear() ?? 0);
+
+      return override;
+    }),
+
+  // List manual prices for a wallet
+  listOverrides: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+    }))
+    .query(async ({ input }) => {
+      return listPriceOverrides(input.walletAddress);
+    }),
+
+  // Delete a manual price
+  deleteOverride: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      id: z.uuid(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const deleted = await deletePriceOverride(input.walletAddress, input.id, ctx.sessionWallet);
+      if (!deleted) {
+        throw new Error('Harga manual tidak ditemukan');
+      }
+
+      await invalidateLotSnapshots(input.walletAddress, 0);
+      return { success: true };
+    }),
+
+  // Audit trail of manual prices and cost basis resolutions
+  auditLog: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+    }))
+    .query(async ({ input }) => {
+      return getOverrideAudit(input.walletAddress);
+    }),
+});
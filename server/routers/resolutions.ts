@@ -0,0 +1,69 @@
+import { z } from 'zod/v4';
+import { router, walletProcedure } from '../trpc/trpc';
+import { RESOLUTION_KINDS } from '@/lib/services/cost-basis';
+import {
+  getDisposalYear,
+  getResolutions,
+  resolveDisposal,
+  deleteResolution,
+} from '@/lib/services/resolutions';
+import { invalidateLotSnapshots } from '@/lib/services/tax-year';
+
+export const resolutionsRouter = router({
+  // List resolutions for a wallet
+  list: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+    }))
+    .query(async ({ input }) => {
+      const resolutions = await getResolutions([input.walletAddress]);
+      return [...resolutions.values()];
+    }),
+
+  // Resolve the missing cost basis of a disposal
+  resolve: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      signature: z.string().min(64).max(88),
+      tokenAddress: z.string().min(32).max(44),
+      kind: z.enum(RESOLUTION_KINDS),
+      costBasisIdr: z.number().min(0).optional(),
+      acquiredAt: z.date().optional(),
+      reference: z.string().max(200).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.kind !== 'airdrop' && input.costBasisIdr === undefined) {
+        throw new Error('Cost basis wajib diisi');
+      }
+      if (input.kind === 'external' && !input.acquiredAt) {
+        throw new Error('Tanggal pembelian wajib diisi');
+      }
+
+      const resolution = await resolveDisposal(input, ctx.sessionWallet);
+
+      // Lots the resolved disposal fed, e.g. a pool position, may be in
+      // year-end snapshots
+      await invalidateLotSnapshots(
+        input.walletAddress,
+        (await getDisposalYear(input.walletAddress, input.signature)) ?? 0
+      );
+
+      return resolution;
+    }),
+
+  // Remove a resolution
+  remove: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      signature: z.string().min(64).max(88),
+      tokenAddress: z.string().min(32).max(44),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await deleteResolution(input.walletAddress, input.signature, input.tokenAddress, ctx.sessionWallet);
+      await invalidateLotSnapshots(
+        input.walletAddress,
+        (await getDisposalYear(input.walletAddress, input.signature)) ?? 0
+      );
+      return { success: true };
+    }),
+});
@@ -0,0 +1,15 @@
+import { z } from 'zod/v4';
+import { router, publicProcedure } from '../trpc/trpc';
+import { getTokenMetadata } from '@/lib/services/token-metadata';
+
+export const tokensRouter = router({
+  // Registry entries (symbol, name, decimals, logo, verification) by mint.
+  // Mints the registry does not know are left out.
+  getMetadata: publicProcedure
+    .input(z.object({
+      mints: z.array(z.string().min(32).max(44)).max(500),
+    }))
+    .query(async ({ input }) => {
+      return Object.fromEntries(await getTokenMetadata(input.mints));
+    }),
+});
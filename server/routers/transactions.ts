@@ -1,277 +1,25 @@
 import { z } from 'zod/v4';
-import { router, publicProcedure } from '../trpc/trpc';
-import { db, transactions } from '@/lib/db';
-import { eq, and, gte, lte, desc } from 'drizzle-orm';
-import { calculateTaxes as calculateTaxesService } from '@/lib/services/tax-calculator';
-
-// Helius API types
-interface HeliusTransaction {
-  signature: string;
-  timestamp: number;
-  type: string;
-  source: string;
-  tokenTransfers: Array<{
-    fromTokenAccount: string;
-    toTokenAccount: string;
-    fromUserAccount: string;
-    toUserAccount: string;
-    tokenAmount: number;
-    mint: string;
-    tokenStandard: string;
-  }>;
-  nativeTransfers: Array<{
-    fromUserAccount: string;
-    toUserAccount: string;
-    amount: number;
-  }>;
-  events: {
-    swap?: {
-      nativeInput?: {
-        account: string;
-        amount: string;
-      };
-      nativeOutput?: {
-        account: string;
-        amount: string;
-      };
-      tokenInputs: Array<{
-        userAccount: string;
-        tokenAccount: string;
-        mint: string;
-        rawTokenAmount: {
-          tokenAmount: string;
-          decimals: number;
-        };
-      }>;
-      tokenOutputs: Array<{
-        userAccount: string;
-        tokenAccount: string;
-        mint: string;
-        rawTokenAmount: {
-          tokenAmount: string;
-          decimals: number;
-        };
-      }>;
-      innerSwaps: Array<{
-        programInfo: {
-          source: string;
-          account: string;
-          programName: string;
-          instructionName: string;
-        };
-      }>;
-    };
-  };
-}
-
-// Known token symbols (we'll expand this)
-const TOKEN_SYMBOLS: Record<string, string> = {
-  'So11111111111111111111111111111111111111112': 'SOL',
-  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': 'USDC',
-  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB': 'USDT',
-};
-
-// Helper to get token symbol
-function getTokenSymbol(mint: string): string {
-  return TOKEN_SYMBOLS[mint] || mint.slice(0, 4) + '...' + mint.slice(-4);
-}
-
-// Helper to parse swap transaction
-function parseSwapTransaction(tx: HeliusTransaction, walletAddress: string) {
-  const swap = tx.events?.swap;
-  if (!swap) return null;
-
-  let fromToken = '';
-  let fromAmount = '0';
-  let fromSymbol = '';
-  let toToken = '';
-  let toAmount = '0';
-  let toSymbol = '';
-
-  // Check for native SOL input
-  if (swap.nativeInput && swap.nativeInput.account === walletAddress) {
-    fromToken = 'So11111111111111111111111111111111111111112';
-    fromAmount = (Number(swap.nativeInput.amount) / 1e9).toString();
-    fromSymbol = 'SOL';
-  }
-
-  // Check for token inputs
-  if (swap.tokenInputs && swap.tokenInputs.length > 0) {
-    const input = swap.tokenInputs.find(t => t.userAccount === walletAddress);
-    if (input) {
-      fromToken = input.mint;
-      const decimals = input.rawTokenAmount.decimals;
-      fromAmount = (Number(input.rawTokenAmount.tokenAmount) / Math.pow(10, decimals)).toString();
-      fromSymbol = getTokenSymbol(input.mint);
-    }
-  }
-
-  // Check for native SOL output
-  if (swap.nativeOutput && swap.nativeOutput.account === walletAddress) {
-    toToken = 'So11111111111111111111111111111111111111112';
-    toAmount = (Number(swap.nativeOutput.amount) / 1e9).toString();
-    toSymbol = 'SOL';
-  }
-
-  // Check for token outputs
-  if (swap.tokenOutputs && swap.tokenOutputs.length > 0) {
-    const output = swap.tokenOutputs.find(t => t.userAccount === walletAddress);
-    if (output) {
-      toToken = output.mint;
-      const decimals = output.rawTokenAmount.decimals;
-      toAmount = (Number(output.rawTokenAmount.tokenAmount) / Math.pow(10, decimals)).toString();
-      toSymbol = getTokenSymbol(output.mint);
-    }
-  }
-
-  // Determine DEX from inner swaps
-  let dex = 'unknown';
-  if (swap.innerSwaps && swap.innerSwaps.length > 0) {
-    const programName = swap.innerSwaps[0].programInfo?.programName?.toLowerCase() || '';
-    if (programName.includes('jupiter')) dex = 'jupiter';
-    else if (programName.includes('raydium')) dex = 'raydium';
-    else if (programName.includes('orca')) dex = 'orca';
-    else dex = programName || tx.source?.toLowerCase() || 'unknown';
-  }
-
-  return {
-    fromToken,
-    fromAmount,
-    fromSymbol,
-    toToken,
-    toAmount,
-    toSymbol,
-    dex,
-  };
-}
+import { router, viewProcedure, walletProcedure } from '../trpc/trpc';
+import { db, transactions, transactionLegs } from '@/lib/db';
+import { eq, and, gte, lte, desc, inArray } from 'drizzle-orm';
+import { reparseTransactions } from '@/lib/services/transaction-store';
+import { getLpPositions } from '@/lib/services/lp-positions';
+import { getTokenMetadata, tokenSymbols } from '@/lib/services/token-metadata';
+import { getTokenSymbol } from '@/lib/services/transaction-parser';
+import { INBOUND_KINDS, type InboundKind } from '@/lib/services/airdrops';
+import { classifyInboundTransfer, getInboundClassifications } from '@/lib/services/inbound-classifications';
+import { invalidateLotSnapshots } from '@/lib/services/tax-year';
+import { getSpamReasons, setTokenHidden } from '@/lib/services/spam-filter';
+import type { SpamReason } from '@/lib/services/spam';
 
 export const transactionsRouter = router({
-  // Fetch transactions from Helius and store in database
-  fetchTransactions: publicProcedure
-    .input(z.object({
-      walletAddress: z.string().min(32).max(44),
-      year: z.number().min(2020).max(2030),
-    }))
-    .mutation(async ({ input }) => {
-      const { walletAddress, year } = input;
-
-      // Calculate date range for the tax year
-      const startDate = new Date(year, 0, 1); // January 1st
-      const endDate = new Date(year, 11, 31, 23, 59, 59); // December 31st
-
-      const heliusApiKey = process.env.HELIUS_API_KEY;
-      if (!heliusApiKey) {
-        throw new Error('HELIUS_API_KEY tidak ditemukan');
-      }
-
-      // Fetch ALL transactions from Helius with pagination
-      const heliusTransactions: HeliusTransaction[] = [];
-      let lastSignature: string | undefined;
-      let reachedStartOfYear = false;
-      const maxPages = 50; // Safety limit to prevent infinite loops
-      let pageCount = 0;
-
-      while (!reachedStartOfYear && pageCount < maxPages) {
-        pageCount++;
-
-        // Build URL with pagination cursor
-        let url = `https://api.helius.xyz/v0/addresses/${walletAddress}/transactions?api-key=${heliusApiKey}&type=SWAP`;
-        if (lastSignature) {
-          url += `&before=${lastSignature}`;
-        }
-
-        const response = await fetch(url);
-        if (!response.ok) {
-          throw new Error(`Gagal mengambil transaksi: ${response.statusText}`);
-        }
-
-        const batch: HeliusTransaction[] = await response.json();
-
-        // No more transactions
-        if (batch.length === 0) {
-          break;
-        }
-
-        // Add to our collection
-        heliusTransactions.push(...batch);
-
-        // Update cursor for next page
-        lastSignature = batch[batch.length - 1].signature;
-
-        // Check if we've reached transactions before our target year
-        const oldestInBatch = new Date(batch[batch.length - 1].timestamp * 1000);
-        if (oldestInBatch < startDate) {
-          reachedStartOfYear = true;
-        }
-
-        // Small delay to avoid rate limiting
-        if (!reachedStartOfYear && pageCount < maxPages) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-      }
-
-      // Filter by date range and parse transactions
-      const parsedTransactions = [];
-
-      for (const tx of heliusTransactions) {
-        const txDate = new Date(tx.timestamp * 1000);
-
-        // Skip if outside date range
-        if (txDate < startDate || txDate > endDate) continue;
-
-        // Parse swap transaction
-        const swapData = parseSwapTransaction(tx, walletAddress);
-        if (!swapData) continue;
-
-        const transactionData = {
-          walletAddress,
-          signature: tx.signature,
-          timestamp: txDate,
-          type: 'swap',
-          fromToken: swapData.fromToken,
-          fromAmount: swapData.fromAmount,
-          fromSymbol: swapData.fromSymbol,
-          toToken: swapData.toToken,
-          toAmount: swapData.toAmount,
-          toSymbol: swapData.toSymbol,
-          dex: swapData.dex,
-          rawData: tx,
-        };
-
-        parsedTransactions.push(transactionData);
-      }
-
-      // Store in database (upsert to avoid duplicates)
-      if (parsedTransactions.length > 0) {
-        const failedInserts = [];
-        for (const tx of parsedTransactions) {
-          try {
-            await db.insert(transactions).values(tx).onConflictDoNothing();
-          } catch (error) {
-            console.error('Error inserting transaction:', tx.signature, error);
-            failedInserts.push(tx.signature);
-          }
-        }
-
-        if (failedInserts.length > 0) {
-          console.warn(`Failed to insert ${failedInserts.length} transactions. Database connection issue?`);
-        }
-      }
-
-      return {
-        fetched: heliusTransactions.length,
-        parsed: parsedTransactions.length,
-        year,
-      };
-    }),
-
   // Get transactions for a wallet and year
-  getTransactions: publicProcedure
+  getTransactions: viewProcedure
     .input(z.object({
       walletAddress: z.string().min(32).max(44),
       year: z.number().min(2020).max(2030),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { walletAddress, year } = input;
 
       const startDate = new Date(year, 0, 1);
@@ -286,11 +34,25 @@ export const transactionsRouter = router({
           type: transactions.type,
           fromToken: transactions.fromToken,
           fromAmount: transactions.fromAmount,
+          fromAmountRaw: transactions.fromAmountRaw,
+          fromDecimals: transactions.fromDecimals,
           fromSymbol: transactions.fromSymbol,
           toToken: transactions.toToken,
           toAmount: transactions.toAmount,
+          toAmountRaw: transactions.toAmountRaw,
+          toDecimals: transactions.toDecimals,
           toSymbol: transactions.toSymbol,
           dex: transactions.dex,
+          counterparty: transactions.counterparty,
+          networkFeeLamports: transactions.networkFeeLamports,
+          priorityFeeLamports: transactions.priorityFeeLamports,
+          platformFeeAmount: transactions.platformFeeAmount,
+          platformFeeAmountRaw: transactions.platformFeeAmountRaw,
+          platformFeeDecimals: transactions.platformFeeDecimals,
+          platformFeeToken: transactions.platformFeeToken,
+          parserVersion: transactions.parserVersion,
+          receiptPriceUsd: transactions.receiptPriceUsd,
+          receiptPricedAt: transactions.receiptPricedAt,
           createdAt: transactions.createdAt,
         })
         .from(transactions)
@@ -303,37 +65,93 @@ export const transactionsRouter = router({
         )
         .orderBy(desc(transactions.timestamp));
 
-      return result;
+      // Attach each transaction's legs
+      const legs = result.length > 0
+        ? await db
+          .select({
+            transactionId: transactionLegs.transactionId,
+            direction: transactionLegs.direction,
+            mint: transactionLegs.mint,
+            symbol: transactionLegs.symbol,
+            amount: transactionLegs.amount,
+          })
+          .from(transactionLegs)
+          .where(inArray(transactionLegs.transactionId, result.map(tx => tx.id)))
+        : [];
+
+      // Classifications are the owner's; view-only sees what the parser detected
+      const classifications = ctx.ownsWallet
+        ? await getInboundClassifications([walletAddress])
+        : new Map();
+
+      // Hidden tokens are the owner's choice too; view-only sees the filter's
+      const spamReasons = await getSpamReasons(result, { includeChoices: ctx.ownsWallet });
+
+      return result.map(tx => ({
+        ...tx,
+        legs: legs.filter(leg => leg.transactionId === tx.id),
+        classification: (classifications.get(tx.signature)?.kind ?? null) as InboundKind | null,
+        spamReason: (spamReasons.get(tx.id) ?? null) as SpamReason | null,
+      }));
     }),
 
-  // Calculate taxes for transactions
-  calculateTaxes: publicProcedure
+  // Classify an inbound transfer as an airdrop, a reward or a plain transfer
+  classifyTransfer: walletProcedure
     .input(z.object({
       walletAddress: z.string().min(32).max(44),
-      year: z.number().min(2020).max(2030),
+      signature: z.string().min(64).max(88),
+      kind: z.enum(INBOUND_KINDS),
     }))
     .mutation(async ({ input }) => {
-      const { walletAddress, year } = input;
+      const transfer = await classifyInboundTransfer(input.walletAddress, input.signature, input.kind);
+      if (!transfer) {
+        throw new Error('Transfer masuk tidak ditemukan');
+      }
 
-      const startDate = new Date(year, 0, 1);
-      const endDate = new Date(year, 11, 31, 23, 59, 59);
+      // Lots of the transfer may be in year-end snapshots
+      await invalidateLotSnapshots(input.walletAddress, transfer.timestamp.getFullYear());
+      return { success: true };
+    }),
 
-      // Get transactions from database
-      const txs = await db
-        .select()
-        .from(transactions)
-        .where(
-          and(
-            eq(transactions.walletAddress, walletAddress),
-            gte(transactions.timestamp, startDate),
-            lte(transactions.timestamp, endDate)
-          )
-        )
-        .orderBy(desc(transactions.timestamp));
+  // Hide a token's transfers as spam, or show them whatever the spam filter
+  // finds
+  setTokenHidden: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      tokenAddress: z.string().min(32).max(44),
+      hidden: z.boolean(),
+    }))
+    .mutation(async ({ input }) => {
+      await setTokenHidden(input.walletAddress, input.tokenAddress, input.hidden);
 
-      // Calculate taxes
-      const taxSummary = await calculateTaxesService(txs);
+      // Transfers of the token may be in any year-end snapshot
+      await invalidateLotSnapshots(input.walletAddress, 0);
+      return { success: true };
+    }),
 
-      return taxSummary;
+  // Liquidity pool positions of a wallet, with the symbols of their tokens
+  getLiquidityPositions: viewProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+    }))
+    .query(async ({ input }) => {
+      const positions = await getLpPositions([input.walletAddress]);
+      const symbols = tokenSymbols(await getTokenMetadata(positions.flatMap(position => position.mints)));
+
+      return positions.map(position => ({
+        ...position,
+        symbols: position.mints.map(mint => getTokenSymbol(mint, symbols)),
+      }));
+    }),
+
+  // Re-parse stored transactions with the current parser, without calling
+  // Helius again. A dry run only reports what would change.
+  reparseTransactions: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      dryRun: z.boolean().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      return reparseTransactions(input);
     }),
 });
@@ -0,0 +1,85 @@
+import { z } from 'zod/v4';
+import { router, walletProcedure } from '../trpc/trpc';
+import {
+  getWalletGroup,
+  getWalletGroupForWallet,
+  createWalletGroup,
+  addWalletToGroup,
+  removeWalletFromGroup,
+} from '@/lib/services/wallet-groups';
+import { invalidateGroupSnapshots } from '@/lib/services/tax-year';
+import { ownsWallets } from '@/lib/services/auth';
+
+// Load a group and check that the wallet making the change belongs to it
+async function getGroupForMember(groupId: string, walletAddress: string) {
+  const group = await getWalletGroup(groupId);
+  if (!group || !group.members.some(member => member.walletAddress === walletAddress)) {
+    throw new Error('Wallet bukan anggota grup ini');
+  }
+  return group;
+}
+
+export const walletGroupsRouter = router({
+  // Get the group a wallet belongs to
+  get: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+    }))
+    .query(async ({ input }) => {
+      return getWalletGroupForWallet(input.walletAddress);
+    }),
+
+  // Create a group with the wallet as its first member
+  create: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      name: z.string().min(1).max(100),
+    }))
+    .mutation(async ({ input }) => {
+      if (await getWalletGroupForWallet(input.walletAddress)) {
+        throw new Error('Wallet sudah tergabung dalam grup');
+      }
+
+      return createWalletGroup(input.name, input.walletAddress);
+    }),
+
+  // Link another wallet to the group. The wallet must have signed in on the
+  // session too, so only its owner can add it.
+  addMember: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      groupId: z.uuid(),
+      memberAddress: z.string().min(32).max(44),
+      label: z.string().max(100).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await getGroupForMember(input.groupId, input.walletAddress);
+
+      if (!ownsWallets(ctx.session, [input.memberAddress])) {
+        throw new Error('Masuk dengan wallet tersebut terlebih dahulu untuk membuktikan kepemilikannya');
+      }
+      if (await getWalletGroupForWallet(input.memberAddress)) {
+        throw new Error('Wallet sudah tergabung dalam grup');
+      }
+
+      await addWalletToGroup(input.groupId, input.memberAddress, input.label);
+
+      // Transfers to the new member are now self-transfers
+      await invalidateGroupSnapshots(input.groupId);
+      return getWalletGroup(input.groupId);
+    }),
+
+  // Unlink a wallet from the group
+  removeMember: walletProcedure
+    .input(z.object({
+      walletAddress: z.string().min(32).max(44),
+      groupId: z.uuid(),
+      memberAddress: z.string().min(32).max(44),
+    }))
+    .mutation(async ({ input }) => {
+      await getGroupForMember(input.groupId, input.walletAddress);
+      await removeWalletFromGroup(input.groupId, input.memberAddress);
+      await invalidateGroupSnapshots(input.groupId);
+      return getWalletGroup(input.groupId);
+    }),
+});
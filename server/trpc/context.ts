@@ -0,0 +1,16 @@
+import type { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch';
+import { getSession, readSessionToken } from '@/lib/services/auth';
+
+// Request context: the session of the cookie, and the response headers to
+// set or clear it
+export async function createContext({ req, resHeaders }: FetchCreateContextFnOptions) {
+  const sessionToken = readSessionToken(req.headers.get('cookie'));
+  return {
+    req,
+    resHeaders,
+    sessionToken,
+    session: await getSession(sessionToken),
+  };
+}
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
@@ -1,9 +1,41 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
 import superjson from 'superjson';
+import { z } from 'zod/v4';
+import type { Context } from './context';
 
-const t = initTRPC.create({
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
 export const router = t.router;
 export const publicProcedure = t.procedure;
+
+// Procedures for signed-in sessions
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.session) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Silakan masuk dengan wallet Anda' });
+  }
+  return next({ ctx: { ...ctx, session: ctx.session } });
+});
+
+// Procedures on a wallet's data: the session must own `walletAddress`.
+// `ctx.sessionWallet` is that wallet, as signed in: changes are attributed
+// to it.
+export const walletProcedure = protectedProcedure
+  .input(z.object({ walletAddress: z.string().min(32).max(44) }))
+  .use(({ ctx, input, next }) => {
+    const sessionWallet = ctx.session.walletAddresses.find(address => address === input.walletAddress);
+    if (!sessionWallet) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Wallet ini belum masuk di sesi Anda' });
+    }
+    return next({ ctx: { sessionWallet } });
+  });
+
+// Procedures on a wallet's on-chain history, open to anyone for view-only
+// use (e.g. an accountant preparing a client's report). `ctx.ownsWallet`
+// tells whether the session owns `walletAddress`.
+export const viewProcedure = publicProcedure
+  .input(z.object({ walletAddress: z.string().min(32).max(44) }))
+  .use(({ ctx, input, next }) => {
+    return next({ ctx: { ownsWallet: !!ctx.session?.walletAddresses.includes(input.walletAddress) } });
+  });